@@ -12,6 +12,7 @@ import FeatureExplanationDialog from '../components/FeatureExplanationDialog'; /
 import AboutDialog from '../components/AboutDialog'; // Import the About dialog
 import ExplanationDialog from '../components/ExplanationDialog'; // <-- Import the new generic dialog
 import AudioPlayer from '../components/AudioPlayer'; // <-- NEW: Import AudioPlayer
+import ClusterSummaryPanel from '../components/ClusterSummaryPanel'; // NEW: Plain-language cluster descriptions
 // Remove the static import of VisualizationPanel
 // import VisualizationPanel from '../components/VisualizationPanel';
 
@@ -157,6 +158,170 @@ export interface KmeansAssignments {
     [songId: string]: number; // Map songId to cluster index
 }
 
+// --- NEW: Fitted model parts kept for classifying new songs ---
+// Mirror the payloads returned by data-processing-worker.ts and druid-worker.ts
+interface ScalerParams {
+    method: ProcessingMethod;
+    range?: [number, number];
+    isOHEColumn: boolean[];
+    means: number[];
+    stdDevs: number[];
+    mins: number[];
+    maxs: number[];
+    medians?: number[]; // 'robust' only
+    iqrs?: number[];
+    lambdas?: number[]; // 'yeoJohnson' only
+    powerMeans?: number[];
+    powerStdDevs?: number[];
+    columnWeights?: number[]; // Feature weights applied after scaling (missing = all 1)
+}
+
+interface ReducerModel {
+    method: 'pca' | 'tsne' | 'umap' | 'mds' | 'isomap' | 'lle' | 'trimap' | 'ltsa';
+    dimensions: number;
+    components?: number[][];
+    trainingVectors: number[][];
+    trainingEmbedding: number[][];
+    neighbors: number;
+    pcaReport?: PcaReport;
+}
+
+// --- NEW: PCA explained variance and loadings (computed in the Druid worker) ---
+export interface PcaReport {
+    explainedVarianceRatio: number[]; // Per component; may cover more components than the embedding
+    cumulativeVariance: number[];
+    topLoadings: { column: string, loading: number }[][]; // Per component, largest |loading| first; column names from the matrix layout
+}
+// --- END NEW ---
+
+// Result of placing a new song against the trained centroids
+export interface ClassificationResult {
+    songName: string;
+    cluster: number;
+    distance: number;
+    runnerUpCluster: number | null;
+    runnerUpDistance: number | null;
+    reducedPoint: number[]; // Position of the song in the reduced space
+}
+// --- END NEW ---
+
+// --- NEW: K-Means initialization options (mirrors kmeans-worker.ts) ---
+type KmeansInitStrategy = 'random' | 'kmeans++' | 'farthest' | 'manual';
+// 'reduced' clusters the 2D/3D embedding, 'processed' the scaled full-dimensional matrix
+type ClusterSpace = 'reduced' | 'processed';
+interface KmeansInitOptions {
+    initStrategy: KmeansInitStrategy;
+    seed?: number; // Same seed + same data -> same clusters
+    nInit?: number; // Number of initializations tried; the lowest-inertia one is used
+    clusterSpace?: ClusterSpace; // Defaults to 'reduced'
+}
+// --- END NEW ---
+
+// --- NEW: Cluster-quality metrics reported by the K-Means worker after each step ---
+// Silhouette, Davies-Bouldin and Calinski-Harabasz are null with fewer than two non-empty clusters.
+export interface KmeansMetrics {
+    inertia: number;
+    silhouette: number | null;
+    daviesBouldin: number | null;
+    calinskiHarabasz: number | null;
+    songSilhouettes: Record<string, number>; // Per-song silhouette in [-1, 1]
+}
+
+// Shape of `metrics` in the worker's initializationComplete/stepComplete payloads
+interface WorkerClusterMetrics {
+    inertia: number;
+    silhouette: number | null;
+    silhouettes: number[]; // Aligned with the payload's songIds
+    daviesBouldin: number | null;
+    calinskiHarabasz: number | null;
+}
+
+const toKmeansMetrics = (metrics: WorkerClusterMetrics, songIds: string[]): KmeansMetrics => ({
+    inertia: metrics.inertia,
+    silhouette: metrics.silhouette,
+    daviesBouldin: metrics.daviesBouldin,
+    calinskiHarabasz: metrics.calinskiHarabasz,
+    songSilhouettes: Object.fromEntries(songIds.map((id, index) => [id, metrics.silhouettes[index]]))
+});
+// --- END NEW ---
+
+// --- NEW: Soft cluster membership per song ([cluster] -> weight, summing to 1; all zeros for DBSCAN noise) ---
+export type ClusterMemberships = Record<string, number[]>;
+
+const toClusterMemberships = (memberships: number[][], songIds: string[]): ClusterMemberships =>
+    Object.fromEntries(songIds.map((id, index) => [id, memberships[index]]));
+// --- END NEW ---
+
+// --- NEW: User-given cluster names and colours, keyed by cluster index ---
+// Unset fields fall back to "Cluster <index>" and the default palette colour.
+export interface ClusterLabel {
+    name?: string;
+    color?: string; // Hex colour, e.g. '#1f77b4'
+}
+export type ClusterLabels = Record<number, ClusterLabel>;
+// --- END NEW ---
+
+// --- NEW: Must-link / cannot-link song pairs for constrained K-Means (COP-k-means) ---
+export type ConstraintType = 'mustLink' | 'cannotLink';
+export interface ClusterConstraint {
+    type: ConstraintType;
+    a: string; // Song ids
+    b: string;
+}
+// A constraint the K-Means worker could not honour
+export interface ConstraintViolation extends ClusterConstraint {
+    reason: 'contradiction' | 'noFeasibleCluster'; // Contradiction: cannot-link between must-linked songs
+}
+
+const isSamePair = (x: ClusterConstraint, y: ClusterConstraint) =>
+    (x.a === y.a && x.b === y.b) || (x.a === y.b && x.b === y.a);
+// --- END NEW ---
+
+// --- NEW: Clustering algorithms besides K-Means (mirrors clustering-worker.ts) ---
+// All of them produce KmeansAssignments-shaped results; DBSCAN marks noise as -1.
+export type ClusteringMethod = 'kmeans' | 'dbscan' | 'agglomerative' | 'gmm';
+type ClusteringLinkage = 'ward' | 'average' | 'complete';
+type ClusteringRequest =
+    | { method: 'dbscan', params: { eps?: number, minPts: number } } // eps estimated when omitted
+    | { method: 'agglomerative', params: { nClusters: number, linkage: ClusteringLinkage } }
+    | { method: 'gmm', params: { nComponents: number, maxIterations: number, tolerance: number, seed?: number } };
+
+// Agglomerative merge history (scipy linkage layout): ids < n are songs, id n + m is the m-th merge
+export interface ClusterMerge {
+    a: number;
+    b: number;
+    distance: number;
+    size: number;
+}
+// --- NEW: Merge tree kept after an agglomerative run so the dendrogram can re-cut it ---
+export interface ClusterTree {
+    songIds: string[]; // Leaf order (leaf i = songIds[i])
+    merges: ClusterMerge[];
+}
+
+const CLUSTERING_METHOD_NAMES: Record<ClusteringMethod, string> = {
+    kmeans: 'K-Means',
+    dbscan: 'DBSCAN',
+    agglomerative: 'Agglomerative',
+    gmm: 'Gaussian Mixture'
+};
+// --- END NEW ---
+
+// --- NEW: k sweep ("Suggest k") results from the K-Means worker ---
+export interface KSweepEntry {
+    k: number;
+    inertia: number;
+    silhouette: number | null; // null for k = 1
+    iterations: number;
+}
+
+export interface KSweepResult {
+    entries: KSweepEntry[];
+    recommendedK: number | null; // Highest mean silhouette
+    elbowK: number | null; // Elbow of the inertia curve
+}
+// --- END NEW ---
+
 // Log level type
 type LogLevel = 'info' | 'warn' | 'error' | 'complete';
 
@@ -183,7 +348,7 @@ const setsAreEqual = (setA: Set<unknown>, setB: Set<unknown>): boolean => {
 };
 
 // Type for data processing method (add this if not already defined globally)
-type ProcessingMethod = 'none' | 'standardize' | 'normalize';
+type ProcessingMethod = 'none' | 'standardize' | 'normalize' | 'robust' | 'log1p' | 'yeoJohnson' | 'l2';
 
 // Define possible stages for visualization
 type ProcessingStage = 'features' | 'processed' | 'reduced' | 'kmeans' | null; // Add null option
@@ -248,11 +413,94 @@ const featureIdToDataKeysMap: Map<string, (keyof Features)[]> = new Map([
 ]);
 // --- END NEW ---
 
+// --- NEW: Column layout of a prepared matrix ---
+// Records which features (in order) and which one-hot categories produced the columns,
+// so a song outside the library can be encoded into exactly the same columns.
+interface MatrixLayout {
+  featureKeys: (keyof Features)[];
+  keyCategories: string[];
+  scaleCategories: string[];
+  columnNames?: string[]; // One per column, e.g. 'bpm', 'mfccMeans[3]', 'keyScale=minor' (missing in older bundles)
+  droppedColumns?: string[]; // Columns removed after construction (redundancy report, feature selection); not part of columnNames
+  imputation?: MatrixImputation; // How missing feature values were filled in (absent when songs missing a feature were not allowed)
+}
+
+// --- NEW: Missing-value imputation ---
+// 'none' keeps only the features every song has. The others keep every feature present in at least
+// MIN_IMPUTATION_COVERAGE of the songs and fill the gaps (errored or malformed features) per column.
+export type ImputationStrategy = 'none' | 'mean' | 'median' | 'knn' | 'indicator';
+
+interface MatrixImputation {
+  strategy: ImputationStrategy;
+  fillValues: Record<string, number>; // Numerical column name -> value for a missing cell of a song outside the matrix
+  indicatorKeys: (keyof Features)[];  // Features with a '<feature>=missing' 0/1 column, appended after all other columns
+}
+
+const MIN_IMPUTATION_COVERAGE = 0.5;
+const IMPUTATION_NEIGHBORS = 5; // k of the k-NN strategy
+
+// Fills the NaN cells of a matrix column by column. 'knn' averages the column over the nearest
+// songs that have it, with distances over the standardized columns both songs have; songs without
+// any usable neighbour fall back to the column mean. Returns the filled copy and the per-column
+// mean/median, which is also what songs outside the matrix get for a missing cell.
+const imputeMissingValues = (
+    vectors: number[][],
+    strategy: 'mean' | 'median' | 'knn'
+): { vectors: number[][], fillValues: number[] } => {
+    const numCols = vectors[0]?.length ?? 0;
+    const observed = Array.from({ length: numCols }, (_, j) => vectors.map(row => row[j]).filter(v => !Number.isNaN(v)));
+    const means = observed.map(values => (values.length > 0 ? values.reduce((acc, v) => acc + v, 0) / values.length : 0));
+    const medians = observed.map(values => {
+        if (values.length === 0) return 0;
+        const sorted = [...values].sort((a, b) => a - b);
+        const mid = Math.floor(sorted.length / 2);
+        return sorted.length % 2 === 1 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+    });
+    const fillValues = strategy === 'median' ? medians : means;
+    if (strategy !== 'knn') {
+        return { vectors: vectors.map(row => row.map((v, j) => (Number.isNaN(v) ? fillValues[j] : v))), fillValues };
+    }
+
+    const stdDevs = observed.map((values, j) => Math.sqrt(values.reduce((acc, v) => acc + (v - means[j]) ** 2, 0) / Math.max(values.length, 1)));
+    // Mean squared standardized difference, so songs sharing fewer columns stay comparable
+    const distance = (a: number[], b: number[]): number => {
+        let sum = 0;
+        let count = 0;
+        for (let j = 0; j < numCols; j++) {
+            if (Number.isNaN(a[j]) || Number.isNaN(b[j])) continue;
+            const diff = stdDevs[j] > 0 ? (a[j] - b[j]) / stdDevs[j] : 0;
+            sum += diff * diff;
+            count++;
+        }
+        return count > 0 ? sum / count : Infinity;
+    };
+    const filled = vectors.map((row, i) => {
+        if (!row.some(v => Number.isNaN(v))) return [...row];
+        const neighbours = vectors
+            .map((other, k) => ({ k, d: k === i ? Infinity : distance(row, other) }))
+            .filter(({ d }) => d < Infinity)
+            .sort((a, b) => a.d - b.d);
+        return row.map((v, j) => {
+            if (!Number.isNaN(v)) return v;
+            const donors = neighbours.filter(({ k }) => !Number.isNaN(vectors[k][j])).slice(0, IMPUTATION_NEIGHBORS);
+            return donors.length > 0 ? donors.reduce((acc, { k }) => acc + vectors[k][j], 0) / donors.length : means[j];
+        });
+    });
+    return { vectors: filled, fillValues: means };
+};
+// --- END NEW ---
+
+// Feature a column was built from: 'mfccMeans[3]' -> 'mfccMeans', 'keyScale=minor' -> 'keyScale'
+const dataKeyOfColumn = (columnName: string): string => columnName.replace(/\[\d+\]$/, '').replace(/=.*$/, '');
+// --- END NEW ---
+
 // --- Helper: Prepare Matrix (Extracted Logic) ---
 const prepareMatrix = (
     activeFeatures: { id: string; features: Features }[], // Input: Features of active songs
-    logFn: (msg: string, level: LogLevel) => void
-): { vectors: number[][], songIds: string[], isOHEColumn: boolean[] } | null => {
+    logFn: (msg: string, level: LogLevel) => void,
+    imputation: ImputationStrategy = 'none',
+    nameOf: (songId: string) => string = songId => songId // For the imputation log
+): { vectors: number[][], songIds: string[], isOHEColumn: boolean[], layout: MatrixLayout, imputedFeatures?: Record<string, string[]> } | null => {
     logFn('Preparing numerical matrix from features...', 'info');
 
     if (activeFeatures.length === 0) {
@@ -260,68 +508,107 @@ const prepareMatrix = (
         return null;
     }
 
-    // Determine Common Features (same logic as before)
-    let commonFeatures = new Set<keyof Features>();
-    const firstFeatures = activeFeatures[0].features;
-    commonFeatures = new Set(canonicalFeatureOrder.filter(key =>
-        firstFeatures[key] !== undefined && firstFeatures[key] !== null
-    ));
-    for (let i = 1; i < activeFeatures.length; i++) {
-        const currentFeatures = activeFeatures[i].features;
-        commonFeatures.forEach(key => {
-            if (currentFeatures[key] === undefined || currentFeatures[key] === null) {
-                commonFeatures.delete(key);
-            }
+    // NEW: With imputation an array feature must have its most common length, and numbers must be finite;
+    // anything else counts as missing. Without imputation any present value is used (as before).
+    const expectedLengths = new Map<keyof Features, number>();
+    if (imputation !== 'none') {
+        canonicalFeatureOrder.forEach(key => {
+            const lengthCounts = new Map<number, number>();
+            activeFeatures.forEach(({ features }) => {
+                const value = features[key];
+                if (Array.isArray(value)) lengthCounts.set(value.length, (lengthCounts.get(value.length) ?? 0) + 1);
+            });
+            const mostCommon = Array.from(lengthCounts.entries()).sort((a, b) => b[1] - a[1] || a[0] - b[0])[0];
+            if (mostCommon) expectedLengths.set(key, mostCommon[0]);
         });
     }
+    const hasValue = (features: Features, key: keyof Features): boolean => {
+        const value = features[key];
+        if (value === undefined || value === null) return false;
+        if (imputation === 'none') return true;
+        if (Array.isArray(value)) return value.length === expectedLengths.get(key) && value.every(v => Number.isFinite(v));
+        return typeof value !== 'number' || Number.isFinite(value);
+    };
+
+    // Determine Common Features (present in every song, or in enough songs when imputing)
+    const minSongs = imputation === 'none' ? activeFeatures.length : Math.ceil(MIN_IMPUTATION_COVERAGE * activeFeatures.length);
+    const commonFeatures = new Set<keyof Features>(canonicalFeatureOrder.filter(key =>
+        activeFeatures.filter(({ features }) => hasValue(features, key)).length >= minSongs
+    ));
 
     if (commonFeatures.size === 0) {
-        logFn('No features are commonly present across all selected active songs for matrix prep.', 'warn');
+        logFn(imputation === 'none'
+            ? 'No features are commonly present across all selected active songs for matrix prep.'
+            : `No features are present in at least ${Math.round(MIN_IMPUTATION_COVERAGE * 100)}% of the selected active songs for matrix prep.`, 'warn');
         return null;
     }
     logFn(`Common features for matrix: [${Array.from(commonFeatures).join(', ')}]`, 'complete');
 
-    // One-Hot Encoding Prep (same logic as before)
+    // One-Hot Encoding Prep (songs missing the feature get all-zero columns)
     const uniqueKeys = new Set<string>();
     const uniqueScales = new Set<string>();
+    let keyList: string[] = [];
+    let scaleList: string[] = [];
     let keyToIndex: Map<string, number> | null = null;
     let scaleToIndex: Map<string, number> | null = null;
     let numKeyDimensions = 0;
     let numScaleDimensions = 0;
     if (commonFeatures.has('key')) {
-        activeFeatures.forEach(({ features }) => { uniqueKeys.add(features.key!); });
-        const keyList = Array.from(uniqueKeys).sort();
+        activeFeatures.forEach(({ features }) => { if (hasValue(features, 'key')) uniqueKeys.add(features.key!); });
+        keyList = Array.from(uniqueKeys).sort();
         keyToIndex = new Map(keyList.map((k, i) => [k, i]));
         numKeyDimensions = keyList.length;
         logFn(`Preparing one-hot encoding for 'key' (${numKeyDimensions} dimensions).`, 'complete');
     }
     if (commonFeatures.has('keyScale')) {
-        activeFeatures.forEach(({ features }) => { uniqueScales.add(features.keyScale!); });
-        const scaleList = Array.from(uniqueScales).sort();
+        activeFeatures.forEach(({ features }) => { if (hasValue(features, 'keyScale')) uniqueScales.add(features.keyScale!); });
+        scaleList = Array.from(uniqueScales).sort();
         scaleToIndex = new Map(scaleList.map((s, i) => [s, i]));
         numScaleDimensions = scaleList.length;
         logFn(`Preparing one-hot encoding for 'keyScale' (${numScaleDimensions} dimensions).`, 'complete');
     }
 
-    // Construct vectors
-    const featureVectors: number[][] = [];
+    // NEW: Name and mark every column up front (array lengths from the first song that has the feature),
+    // so a song missing a feature can still be placed into the right columns
+    const featureKeys = canonicalFeatureOrder.filter(key => commonFeatures.has(key));
+    const columnNames: string[] = [];
+    const isOHEColumnDefinition: boolean[] = [];
+    const featureWidths = new Map<keyof Features, number>();
+    featureKeys.forEach(key => {
+        const value = activeFeatures.find(({ features }) => hasValue(features, key))!.features[key];
+        if (key === 'key' && keyToIndex) {
+            columnNames.push(...keyList.map(category => `key=${category}`));
+        } else if (key === 'keyScale' && scaleToIndex) {
+            columnNames.push(...scaleList.map(category => `keyScale=${category}`));
+        } else if (Array.isArray(value)) {
+            columnNames.push(...value.map((_, i) => `${key}[${i}]`));
+        } else if (typeof value === 'number') {
+            columnNames.push(key);
+        }
+        const width = columnNames.length - isOHEColumnDefinition.length;
+        isOHEColumnDefinition.push(...Array(width).fill(key === 'key' || key === 'keyScale'));
+        featureWidths.set(key, width);
+    });
+
+    // Construct vectors (missing numerical cells are NaN until imputed)
+    let featureVectors: number[][] = [];
     const vectorSongIds: string[] = [];
-    // --- NEW: Track OHE status for each column ---
-    let isOHEColumnDefinition: boolean[] = []; 
-    let isOHEColumnDefinitionFinalized = false;
-    // ---------------------------------------------
+    const missingFeatures: (keyof Features)[][] = [];
     let inconsistencyFound = false;
-    
+
     activeFeatures.forEach(({ id, features }, rowIndex) => {
+        if (inconsistencyFound) return;
         const vec: number[] = [];
-        // Define isOHEColumnDefinition based on the first row
-        if (rowIndex === 0) {
-             isOHEColumnDefinition = []; // Reset for the first row run
-        }
+        const missing: (keyof Features)[] = [];
 
-        for (const key of canonicalFeatureOrder) {
-            if (!commonFeatures.has(key)) continue;
+        for (const key of featureKeys) {
             const value = features[key]!;
+            if (!hasValue(features, key)) {
+                missing.push(key);
+                const isCategorical = (key === 'key' && keyToIndex) || (key === 'keyScale' && scaleToIndex);
+                vec.push(...Array(featureWidths.get(key)!).fill(isCategorical ? 0 : NaN));
+                continue;
+            }
 
             if (key === 'key' && keyToIndex) {
                 const keyOneHot = Array(numKeyDimensions).fill(0);
@@ -329,81 +616,396 @@ const prepareMatrix = (
                 if (index !== undefined) keyOneHot[index] = 1;
                 else { /* error handling */ inconsistencyFound = true; }
                 vec.push(...keyOneHot);
-                // Mark these columns as OHE (only needed for first row)
-                if (rowIndex === 0) {
-                    isOHEColumnDefinition.push(...Array(numKeyDimensions).fill(true));
-                }
             } else if (key === 'keyScale' && scaleToIndex) {
                 const scaleOneHot = Array(numScaleDimensions).fill(0);
                 const index = scaleToIndex.get(value as string);
                 if (index !== undefined) scaleOneHot[index] = 1;
                 else { /* error handling */ inconsistencyFound = true; }
                 vec.push(...scaleOneHot);
-                 // Mark these columns as OHE (only needed for first row)
-                if (rowIndex === 0) {
-                     isOHEColumnDefinition.push(...Array(numScaleDimensions).fill(true));
-                 }
             } else if (Array.isArray(value)) {
-                const numericalArray = value as number[];
-                vec.push(...numericalArray);
-                 // Mark these columns as NOT OHE (only needed for first row)
-                 if (rowIndex === 0) {
-                     isOHEColumnDefinition.push(...Array(numericalArray.length).fill(false));
-                 }
+                vec.push(...(value as number[]));
             } else if (typeof value === 'number') {
                 vec.push(value);
-                 // Mark this column as NOT OHE (only needed for first row)
-                 if (rowIndex === 0) {
-                     isOHEColumnDefinition.push(false);
-                 }
             }
         }
-        
-        // Finalize the definition after processing the first row
-        if (rowIndex === 0) {
-             isOHEColumnDefinitionFinalized = true;
-        }
 
-        if (vec.length > 0 && !inconsistencyFound) {
-            // Simple sanity check: vector length should match definition length after first row
-            if (isOHEColumnDefinitionFinalized && vec.length !== isOHEColumnDefinition.length) {
-                 logFn(`Row ${rowIndex} for song ${id} has inconsistent vector length (${vec.length}) compared to definition (${isOHEColumnDefinition.length}). Aborting.`, 'error');
-                 inconsistencyFound = true;
-            }
-            featureVectors.push(vec);
-            vectorSongIds.push(id);
-        } else if (!inconsistencyFound) {
-             logFn(`Song ${id} resulted in an empty vector.`, 'warn');
+        // Simple sanity check: vector length should match the column definition
+        if (vec.length !== isOHEColumnDefinition.length) {
+            logFn(`Row ${rowIndex} for song ${id} has inconsistent vector length (${vec.length}) compared to definition (${isOHEColumnDefinition.length}). Aborting.`, 'error');
+            inconsistencyFound = true;
+            return;
         }
+        featureVectors.push(vec);
+        vectorSongIds.push(id);
+        missingFeatures.push(missing);
     });
 
-    if (inconsistencyFound || !isOHEColumnDefinitionFinalized) {
+    if (inconsistencyFound) {
         logFn('Matrix preparation failed due to inconsistencies or lack of data.', 'error');
         return null;
     }
 
-    // Final checks (vector consistency, length)
+    // Final checks (length)
     if (featureVectors.length > 0) {
         const firstLen = featureVectors[0].length;
-        if (!featureVectors.every(v => v.length === firstLen)) {
-             logFn('Constructed feature vectors have inconsistent lengths.', 'error');
-             return null;
-        }
         if (firstLen === 0) {
             logFn('Constructed feature vectors are empty (length 0).', 'warn');
             return null;
         }
-        logFn(`Prepared ${featureVectors.length} vectors for processing, each with ${firstLen} dimensions.`, 'complete');
     } else {
          logFn('No valid feature vectors constructed for matrix prep.', 'warn');
          return null;
     }
 
+    // NEW: Fill the missing cells and log which ones were filled
+    const imputedFeatures: Record<string, string[]> = {};
+    let imputationLayout: MatrixImputation | undefined;
+    if (imputation !== 'none') {
+        // Counted per cell (NaN marker), so a 13-coefficient MFCC gap counts 13
+        const imputedCells = featureVectors.reduce((acc, vec) => acc + vec.filter(Number.isNaN).length, 0);
+        const imputed = imputeMissingValues(featureVectors, imputation === 'indicator' ? 'mean' : imputation);
+        featureVectors = imputed.vectors;
+        const fillValues: Record<string, number> = {};
+        columnNames.forEach((name, j) => { if (!isOHEColumnDefinition[j]) fillValues[name] = imputed.fillValues[j]; });
+
+        const indicatorKeys = imputation === 'indicator'
+            ? featureKeys.filter(key => missingFeatures.some(missing => missing.includes(key)))
+            : [];
+        if (indicatorKeys.length > 0) {
+            featureVectors = featureVectors.map((vec, i) => [...vec, ...indicatorKeys.map(key => (missingFeatures[i].includes(key) ? 1 : 0))]);
+            columnNames.push(...indicatorKeys.map(key => `${key}=missing`));
+            isOHEColumnDefinition.push(...indicatorKeys.map(() => true));
+        }
+        imputationLayout = { strategy: imputation, fillValues, indicatorKeys };
+
+        missingFeatures.forEach((missing, i) => {
+            if (missing.length === 0) return;
+            imputedFeatures[vectorSongIds[i]] = missing;
+            logFn(`Imputed ${missing.join(', ')} for "${nameOf(vectorSongIds[i])}" (${imputation}).`, 'warn');
+        });
+        if (imputedCells > 0) {
+            logFn(`Imputed ${imputedCells} missing value(s) in ${Object.keys(imputedFeatures).length} song(s).`, 'info');
+        }
+    }
+    logFn(`Prepared ${featureVectors.length} vectors for processing, each with ${featureVectors[0].length} dimensions.`, 'complete');
+
     // MODIFIED Return Value:
-    return { vectors: featureVectors, songIds: vectorSongIds, isOHEColumn: isOHEColumnDefinition };
+    const layout: MatrixLayout = {
+        featureKeys,
+        keyCategories: keyList,
+        scaleCategories: scaleList,
+        ...(columnNames.length === isOHEColumnDefinition.length && { columnNames }),
+        ...(imputationLayout && { imputation: imputationLayout })
+    };
+    return {
+        vectors: featureVectors,
+        songIds: vectorSongIds,
+        isOHEColumn: isOHEColumnDefinition,
+        layout,
+        ...(imputationLayout && { imputedFeatures })
+    };
 };
 // --- End Helper ---
 
+// --- NEW Helper: Encode a single song with an existing matrix layout ---
+// Mirrors the column construction in prepareMatrix. Categories unseen during training
+// encode as all-zero one-hot columns. A missing feature takes the stored fill values of an
+// imputed layout; without imputation it makes the song unencodable (null).
+const encodeFeatureVector = (features: Features, layout: MatrixLayout): number[] | null => {
+    const vec: number[] = [];
+    const names: string[] = []; // Column names alongside, so dropped columns can be skipped
+    const imputation = layout.imputation;
+    const missingKeys = new Set<keyof Features>();
+    for (const key of layout.featureKeys) {
+        const value = features[key];
+        // Numerical columns of this feature in the matrix (only known for imputed layouts)
+        const fillNames = imputation ? Object.keys(imputation.fillValues).filter(name => dataKeyOfColumn(name) === key) : [];
+        const isMissing = value === undefined || value === null || (imputation !== undefined && (
+            Array.isArray(value) ? value.length !== fillNames.length || !value.every(v => Number.isFinite(v))
+                : typeof value === 'number' && !Number.isFinite(value)
+        ));
+        if (isMissing && !imputation) return null;
+
+        if (key === 'key' || key === 'keyScale') {
+            const categories = key === 'key' ? layout.keyCategories : layout.scaleCategories;
+            vec.push(...categories.map(category => (!isMissing && category === value ? 1 : 0)));
+            names.push(...categories.map(category => `${key}=${category}`));
+        } else if (isMissing) {
+            vec.push(...fillNames.map(name => imputation!.fillValues[name]));
+            names.push(...fillNames);
+        } else if (Array.isArray(value)) {
+            vec.push(...value);
+            names.push(...value.map((_, i) => `${key}[${i}]`));
+        } else if (typeof value === 'number') {
+            vec.push(value);
+            names.push(key);
+        }
+        if (isMissing) missingKeys.add(key);
+    }
+    // Indicator columns follow all feature columns, as in prepareMatrix
+    imputation?.indicatorKeys.forEach(key => {
+        vec.push(missingKeys.has(key) ? 1 : 0);
+        names.push(`${key}=missing`);
+    });
+    if (layout.droppedColumns && layout.droppedColumns.length > 0) {
+        const dropped = new Set(layout.droppedColumns);
+        return vec.filter((_, i) => !dropped.has(names[i]));
+    }
+    return vec;
+};
+// --- End Helper ---
+
+// --- NEW: Feature correlations and redundant columns ---
+// Pearson correlations between the numerical columns of the raw matrix (computed in the data processing worker)
+export interface FeatureCorrelation {
+    columnNames: string[];
+    matrix: number[][];
+}
+export interface RedundantPair {
+    a: string;
+    b: string;
+    correlation: number;
+}
+export interface RedundancyReport {
+    threshold: number;
+    pairs: RedundantPair[];   // |r| >= threshold, strongest first
+    columnsToDrop: string[];  // One column of every pair, chosen greedily
+}
+
+// Walks the pairs from the strongest correlation down; a pair whose columns are both still kept
+// loses the column with the higher mean |r| to all other columns (the more redundant one).
+const findRedundantColumns = (correlation: FeatureCorrelation, threshold: number): RedundancyReport => {
+    const { columnNames, matrix } = correlation;
+    const n = columnNames.length;
+    const meanAbs = matrix.map((row, i) => (n > 1 ? row.reduce((acc, r, j) => acc + (i === j ? 0 : Math.abs(r)), 0) / (n - 1) : 0));
+    const indexPairs: { i: number, j: number, correlation: number }[] = [];
+    for (let i = 0; i < n; i++) {
+        for (let j = i + 1; j < n; j++) {
+            if (Math.abs(matrix[i][j]) >= threshold) indexPairs.push({ i, j, correlation: matrix[i][j] });
+        }
+    }
+    indexPairs.sort((x, y) => Math.abs(y.correlation) - Math.abs(x.correlation));
+
+    const dropped = new Set<number>();
+    indexPairs.forEach(({ i, j }) => {
+        if (dropped.has(i) || dropped.has(j)) return;
+        dropped.add(meanAbs[i] > meanAbs[j] ? i : j);
+    });
+    return {
+        threshold,
+        pairs: indexPairs.map(({ i, j, correlation }) => ({ a: columnNames[i], b: columnNames[j], correlation })),
+        columnsToDrop: Array.from(dropped).sort((x, y) => x - y).map(i => columnNames[i])
+    };
+};
+
+const DEFAULT_REDUNDANCY_THRESHOLD = 0.95;
+
+// --- NEW: Optional feature selection run by the data processing worker before scaling ---
+// Mirrors FeatureSelectionOptions in workers/processing/feature-selection.ts
+interface FeatureSelectionOptions {
+    varianceThreshold?: number;
+    nearConstantShare?: number;
+    laplacianTopN?: number;
+    laplacianNeighbors?: number;
+}
+// --- END NEW ---
+
+// --- NEW: Feature weights applied after scaling ---
+interface FeatureWeighting {
+    weights: Record<string, number>; // User-facing feature ID (as in featureIdToDataKeysMap) -> weight; missing = 1
+    balanceByColumnCount: boolean;   // Divide each feature's weight by sqrt(its column count)
+}
+
+// One weight per matrix column. A column belongs to the feature ID whose data keys contain it;
+// with balancing, a feature spread over n columns contributes like a single column to squared distances.
+const computeColumnWeights = (columnNames: string[], weighting: FeatureWeighting): number[] => {
+    const featureIdOfKey = new Map<string, string>();
+    featureIdToDataKeysMap.forEach((dataKeys, featureId) => dataKeys.forEach(key => featureIdOfKey.set(key, featureId)));
+    const groups = columnNames.map(name => {
+        const dataKey = dataKeyOfColumn(name);
+        return featureIdOfKey.get(dataKey) ?? dataKey;
+    });
+    const columnCounts = new Map<string, number>();
+    groups.forEach(group => columnCounts.set(group, (columnCounts.get(group) ?? 0) + 1));
+    return groups.map(group => {
+        const weight = weighting.weights[group] ?? 1;
+        return weighting.balanceByColumnCount ? weight / Math.sqrt(columnCounts.get(group)!) : weight;
+    });
+};
+// --- END NEW ---
+
+// Removes named columns from a prepared matrix and records them in its layout
+const dropMatrixColumns = (
+    matrix: { vectors: number[][], songIds: string[], isOHEColumn: boolean[], layout: MatrixLayout, imputedFeatures?: Record<string, string[]> },
+    columns: string[]
+): { vectors: number[][], songIds: string[], isOHEColumn: boolean[], layout: MatrixLayout, imputedFeatures?: Record<string, string[]> } => {
+    const columnNames = matrix.layout.columnNames;
+    if (!columnNames || columns.length === 0) return matrix;
+    const dropped = new Set(columns);
+    const keep = columnNames.map((name, i) => (dropped.has(name) ? -1 : i)).filter(i => i >= 0);
+    if (keep.length === columnNames.length) return matrix;
+    return {
+        ...matrix,
+        vectors: matrix.vectors.map(row => keep.map(i => row[i])),
+        isOHEColumn: keep.map(i => matrix.isOHEColumn[i]),
+        layout: {
+            ...matrix.layout,
+            columnNames: keep.map(i => columnNames[i]),
+            droppedColumns: [...(matrix.layout.droppedColumns ?? []), ...columnNames.filter(name => dropped.has(name))]
+        }
+    };
+};
+// --- END NEW ---
+
+// --- NEW: Automatic cluster descriptions ---
+// Each cluster is described by the raw columns whose cluster mean is furthest from the mean of
+// all clustered songs, measured in global standard deviations (z-score of the cluster mean).
+export interface ClusterFeatureDeviation {
+    column: string;  // Column name from the matrix layout, e.g. 'mfccMeans[3]'
+    label: string;   // Readable term, e.g. 'high BPM' or 'minor keys'
+    zScore: number;
+}
+export interface ClusterDescription {
+    cluster: number;
+    size: number;
+    summary: string; // e.g. "high BPM, high danceability, minor keys"
+    deviations: ClusterFeatureDeviation[]; // Strongest first
+}
+
+// Plain-language names for the feature columns; arrays get their (1-based) index appended
+const FEATURE_DESCRIPTION_NAMES: Partial<Record<keyof Features, string>> = {
+    energy: 'energy', entropy: 'entropy', loudness: 'loudness', rms: 'RMS level',
+    dynamicComplexity: 'dynamic complexity', bpm: 'BPM', onsetRate: 'onset rate',
+    keyStrength: 'key strength', tuningFrequency: 'tuning frequency', rhythmConfidence: 'rhythm confidence',
+    danceability: 'danceability', intensity: 'intensity',
+    pitchSalienceMean: 'pitch salience', pitchSalienceStdDev: 'pitch salience variation',
+    spectralCentroidTimeMean: 'brightness', spectralCentroidTimeStdDev: 'brightness variation',
+    spectralComplexityMean: 'spectral complexity', spectralComplexityStdDev: 'spectral complexity variation',
+    spectralFluxMean: 'spectral flux', spectralFluxStdDev: 'spectral flux variation',
+    inharmonicityMean: 'inharmonicity', inharmonicityStdDev: 'inharmonicity variation',
+    dissonanceMean: 'dissonance', dissonanceStdDev: 'dissonance variation',
+    mfccMeans: 'MFCC', mfccStdDevs: 'MFCC variation',
+    spectralContrastMeans: 'spectral contrast', spectralContrastStdDevs: 'spectral contrast variation',
+    melBandsMeans: 'mel band', melBandsStdDevs: 'mel band variation'
+};
+const MIN_DESCRIPTION_Z = 0.5;   // Weaker deviations are not worth mentioning
+const MAX_SUMMARY_TERMS = 3;     // Terms in the one-line summary
+const MAX_LISTED_DEVIATIONS = 5; // Deviations kept for the summary panel
+
+// 'bpm' -> 'high BPM'; 'mfccMeans[3]' -> 'low MFCC 4'; 'keyScale=minor' -> 'minor keys'; 'bpm=missing' -> 'missing BPM'
+const describeColumn = (column: string, zScore: number): string => {
+    const indicator = column.match(/^(\w+)=missing$/);
+    if (indicator) {
+        return `missing ${FEATURE_DESCRIPTION_NAMES[indicator[1] as keyof Features] ?? indicator[1]}`;
+    }
+    const category = column.match(/^(key|keyScale)=(.*)$/);
+    if (category) {
+        return category[1] === 'keyScale' ? `${category[2]} keys` : `key of ${category[2]}`;
+    }
+    const arrayColumn = column.match(/^(\w+)\[(\d+)\]$/);
+    const featureKey = (arrayColumn ? arrayColumn[1] : column) as keyof Features;
+    const name = FEATURE_DESCRIPTION_NAMES[featureKey] ?? featureKey;
+    return `${zScore > 0 ? 'high' : 'low'} ${name}${arrayColumn ? ` ${parseInt(arrayColumn[2], 10) + 1}` : ''}`;
+};
+
+const describeClusters = (
+    unprocessedData: { vectors: number[][], songIds: string[], isOHEColumn: boolean[], layout: MatrixLayout },
+    assignments: KmeansAssignments
+): ClusterDescription[] => {
+    // Only songs with a (non-noise) cluster take part
+    const rows = unprocessedData.songIds
+        .map((id, index) => ({ cluster: assignments[id], vector: unprocessedData.vectors[index] }))
+        .filter(row => row.cluster !== undefined && row.cluster >= 0);
+    if (rows.length === 0) return [];
+    const numColumns = rows[0].vector.length;
+    const columnNames = unprocessedData.layout.columnNames ?? Array.from({ length: numColumns }, (_, i) => `column ${i + 1}`);
+
+    const globalMean = Array(numColumns).fill(0);
+    rows.forEach(({ vector }) => vector.forEach((v, c) => { globalMean[c] += v / rows.length; }));
+    const globalStd = globalMean.map((mean, c) =>
+        Math.sqrt(rows.reduce((acc, { vector }) => acc + (vector[c] - mean) ** 2, 0) / rows.length)
+    );
+
+    const clusters = Array.from(new Set(rows.map(row => row.cluster))).sort((a, b) => a - b);
+    return clusters.map(cluster => {
+        const members = rows.filter(row => row.cluster === cluster);
+        const deviations: ClusterFeatureDeviation[] = [];
+        for (let c = 0; c < numColumns; c++) {
+            if (!(globalStd[c] > 0)) continue; // Constant column
+            const mean = members.reduce((acc, { vector }) => acc + vector[c], 0) / members.length;
+            const zScore = (mean - globalMean[c]) / globalStd[c];
+            // For one-hot columns only over-represented categories read naturally ("minor keys")
+            if (Math.abs(zScore) < MIN_DESCRIPTION_Z || (unprocessedData.isOHEColumn[c] && zScore < 0)) continue;
+            deviations.push({ column: columnNames[c], label: describeColumn(columnNames[c], zScore), zScore });
+        }
+        deviations.sort((a, b) => Math.abs(b.zScore) - Math.abs(a.zScore));
+        const summary = deviations.slice(0, MAX_SUMMARY_TERMS).map(d => d.label).join(', ') || 'close to the collection average';
+        return { cluster, size: members.length, summary, deviations: deviations.slice(0, MAX_LISTED_DEVIATIONS) };
+    });
+};
+// --- END NEW ---
+
+// --- NEW: Trained Model Bundle ---
+// A saved pipeline run. Everything needed to restore the page to the 'kmeans' stage
+// without re-running any worker. Bump the version when the shape changes.
+const MODEL_BUNDLE_VERSION = 1;
+
+interface ModelBundle {
+  version: number;
+  createdAt: string;
+  featureIds: string[]; // Feature IDs selected in ControlsPanel for extraction
+  availableFeatureKeys: string[] | null;
+  songs: Song[];
+  songFeatures: Record<string, Features>;
+  unprocessedData: { vectors: number[][], songIds: string[], isOHEColumn: boolean[], layout: MatrixLayout, imputedFeatures?: Record<string, string[]> };
+  processedData: { vectors: number[][], songIds: string[] };
+  scalerParams: ScalerParams;
+  // Options of the processing run, so dropping/restoring columns after loading reprocesses the same way.
+  // Missing in older bundles.
+  processingRequest?: { weighting?: FeatureWeighting, selection?: FeatureSelectionOptions };
+  reducedDataPoints: Record<string, number[]>;
+  reducerModel: ReducerModel;
+  kmeans: {
+    k: number;
+    iteration: number;
+    centroids: number[][];
+    assignments: KmeansAssignments;
+    clusterSpace?: ClusterSpace; // Missing in older bundles, which always clustered the reduced space
+    method?: ClusteringMethod; // Missing in older bundles, which always used K-Means
+    clusterLabels?: ClusterLabels; // Only present when clusters were named or recoloured
+  };
+}
+
+// Validates a parsed bundle file. Throws with a readable message if it cannot be restored.
+const parseModelBundle = (raw: unknown): ModelBundle => {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('File does not contain a JSON object.');
+  }
+  const bundle = raw as Partial<ModelBundle>;
+  if (bundle.version !== MODEL_BUNDLE_VERSION) {
+    throw new Error(`Unsupported bundle version ${bundle.version} (expected ${MODEL_BUNDLE_VERSION}).`);
+  }
+  if (!Array.isArray(bundle.featureIds) || !Array.isArray(bundle.songs) || !bundle.songFeatures) {
+    throw new Error('Bundle is missing feature selection, songs or song features.');
+  }
+  if (!bundle.unprocessedData?.layout || !bundle.processedData || !bundle.scalerParams) {
+    throw new Error('Bundle is missing the feature matrix or fitted scaler.');
+  }
+  if (!bundle.reducedDataPoints || !bundle.reducerModel) {
+    throw new Error('Bundle is missing the reduced data or fitted reducer.');
+  }
+  if (!bundle.kmeans || !Array.isArray(bundle.kmeans.centroids) || bundle.kmeans.centroids.length === 0 || !bundle.kmeans.assignments) {
+    throw new Error('Bundle is missing K-Means centroids or assignments.');
+  }
+  const clusteredFullSpace = bundle.kmeans.clusterSpace === 'processed';
+  const dims = clusteredFullSpace ? (bundle.processedData.vectors[0]?.length ?? 0) : bundle.reducerModel.dimensions;
+  if (bundle.kmeans.centroids.some(c => c.length !== dims)) {
+    throw new Error(`Centroid dimensionality does not match the ${clusteredFullSpace ? 'processed data' : 'reducer'} (${dims}).`);
+  }
+  return bundle as ModelBundle;
+};
+// --- END NEW ---
+
 export default function DashboardPage() {
   const [songs, setSongs] = useState<Song[]>(defaultSongs);
   const [songFeatures, setSongFeatures] = useState<Record<string, Features | null>>({}); // { songId: features }
@@ -416,15 +1018,24 @@ export default function DashboardPage() {
   );
   // --- Data Processing State (New) ---
   // MODIFIED: Add isOHEColumn to state type
-  type UnprocessedDataType = { vectors: number[][], songIds: string[], isOHEColumn: boolean[] };
+  type UnprocessedDataType = { vectors: number[][], songIds: string[], isOHEColumn: boolean[], layout: MatrixLayout, imputedFeatures?: Record<string, string[]> }; // imputedFeatures: song ID -> features filled in
   const [unprocessedData, setUnprocessedData] = useState<UnprocessedDataType | null>(null);
   const [processedData, setProcessedData] = useState<{ vectors: number[][], songIds: string[] } | null>(null); // Processed data doesn't need OHE info directly
   const [isProcessingData, setIsProcessingData] = useState<boolean>(false);
+  // --- NEW: How features missing from some songs are filled in when the matrix is built ---
+  const [imputationStrategy, setImputationStrategy] = useState<ImputationStrategy>('none'); // Opt-in: by default features missing for some songs are dropped
+  // --- NEW: Feature correlations of the raw matrix and columns dropped as redundant ---
+  const [featureCorrelation, setFeatureCorrelation] = useState<FeatureCorrelation | null>(null);
+  const [redundancyThreshold, setRedundancyThreshold] = useState<number>(DEFAULT_REDUNDANCY_THRESHOLD);
+  const [droppedColumns, setDroppedColumns] = useState<string[]>([]); // Removed from the matrix before processing
+  const lastProcessingRequestRef = useRef<{
+    method: ProcessingMethod, range?: [number, number], weighting?: FeatureWeighting, selection?: FeatureSelectionOptions
+  } | null>(null); // Re-run after dropping columns
   // --- DruidJS State ---
   const [reducedDataPoints, setReducedDataPoints] = useState<Record<string, number[]>>({}); // { songId: [dim1, dim2, ...] }
   const [isReducing, setIsReducing] = useState<boolean>(false);
   // Type for reduction method
-  type ReductionMethod = 'pca' | 'tsne' | 'umap';
+  type ReductionMethod = 'pca' | 'tsne' | 'umap' | 'mds' | 'isomap' | 'lle' | 'trimap' | 'ltsa';
   // ---------------------
   const [reductionDimensions, setReductionDimensions] = useState<number>(0);
 
@@ -464,8 +1075,27 @@ export default function DashboardPage() {
   const [kmeansIteration, setKmeansIteration] = useState<number>(0);
   const [kmeansCentroids, setKmeansCentroids] = useState<number[][]>([]);
   const [kmeansAssignments, setKmeansAssignments] = useState<KmeansAssignments>({});
+  const [kmeansMetrics, setKmeansMetrics] = useState<KmeansMetrics | null>(null); // Quality of the current assignments
+  const [kmeansClusterSpace, setKmeansClusterSpace] = useState<ClusterSpace>('reduced'); // Space the current centroids live in
+  // --- NEW: Other clustering algorithms write into the same assignment/centroid state ---
+  const clusteringWorkerRef = useRef<Worker | null>(null);
+  const [clusteringMethod, setClusteringMethod] = useState<ClusteringMethod>('kmeans'); // Algorithm behind the current assignments
+  const [clusterMemberships, setClusterMemberships] = useState<ClusterMemberships | null>(null); // Soft membership of every clustered song
+  const [isRunningClusteringAlgorithm, setIsRunningClusteringAlgorithm] = useState<boolean>(false);
+  const [clusterTree, setClusterTree] = useState<ClusterTree | null>(null); // Agglomerative merge tree for the dendrogram
+  const clusterTreeDataRef = useRef<number[][] | null>(null); // Vectors the tree was built on, needed to re-cut it
+  const [clusterLabels, setClusterLabels] = useState<ClusterLabels>({}); // Names and colours given to clusters
+  const [brushedSongIds, setBrushedSongIds] = useState<Set<string> | null>(null); // Songs inside a brush in the matrix views
   const [isClustering, setIsClustering] = useState<boolean>(false); // Is K-Means process active (initialized but not reset)?
   const [isKmeansInitialized, setIsKmeansInitialized] = useState<boolean>(false); // Has the worker confirmed initialization?
+  const [isKmeansAutoRunning, setIsKmeansAutoRunning] = useState<boolean>(false); // Is a run-to-convergence in progress?
+  const [numClusters, setNumClusters] = useState<number>(3); // k used by the next initialization
+  const [kSweepResult, setKSweepResult] = useState<KSweepResult | null>(null);
+  const [isSweepingK, setIsSweepingK] = useState<boolean>(false);
+  const [kmeansSeedSongIds, setKmeansSeedSongIds] = useState<Set<string>>(new Set()); // Songs chosen as initial centroids ('manual' init)
+  const [clusterConstraints, setClusterConstraints] = useState<ClusterConstraint[]>([]); // Must-link / cannot-link pairs
+  const [constraintViolations, setConstraintViolations] = useState<ConstraintViolation[]>([]); // Reported by the last K-Means step
+  const lastViolationSummaryRef = useRef<string>(''); // Avoids repeating the same warning on every step
   const [latestSuccessfulStage, setLatestSuccessfulStage] = useState<ProcessingStage>(null); // Track latest completed stage
   // NEW: State for tracking which stage the user wants to visualize (can be manually selected)
   const [visualizationDisplayStage, setVisualizationDisplayStage] = useState<ProcessingStage>(null);
@@ -483,6 +1113,34 @@ export default function DashboardPage() {
   // --- NEW: State for Stored Cache Data ---
   const [cacheData, setCacheData] = useState<CacheData | null>(null);
   const [cacheStatus, setCacheStatus] = useState<'idle' | 'loading' | 'loaded' | 'error'>('idle');
+
+  // --- NEW: New Song Classification State ---
+  // The fitted scaler and reducer are kept so new songs are transformed exactly like the library
+  const [scalerParams, setScalerParams] = useState<ScalerParams | null>(null);
+  const [reducerModel, setReducerModel] = useState<ReducerModel | null>(null);
+  const [extractedFeatureIds, setExtractedFeatureIds] = useState<string[]>([]); // Feature IDs of the last extraction run
+  const [isClassifying, setIsClassifying] = useState<boolean>(false);
+  const [classificationResult, setClassificationResult] = useState<ClassificationResult | null>(null);
+  const classifyFileInputRef = useRef<HTMLInputElement | null>(null);
+  // Snapshot of the trained model for the in-flight classification. The worker onmessage
+  // handlers are created once on mount, so they read this ref instead of state.
+  const classificationRequestRef = useRef<{
+      songId: string;
+      songName: string;
+      layout: MatrixLayout;
+      scalerParams: ScalerParams;
+      reducerModel: ReducerModel;
+      centroids: number[][];
+      clusterSpace: ClusterSpace; // Space the centroids live in
+      scaledVector?: number[];
+      reducedPoint?: number[];
+  } | null>(null);
+  // --- END NEW ---
+
+  // --- NEW: Model Bundle State ---
+  const bundleFileInputRef = useRef<HTMLInputElement | null>(null);
+  const [restoredFeatureIds, setRestoredFeatureIds] = useState<string[] | null>(null); // Pushed to ControlsPanel after a load
+  // --- END NEW ---
   // --- END NEW ---
 
   // --- Log Helper Function ---
@@ -510,6 +1168,18 @@ export default function DashboardPage() {
       setLogMessages(prevLogs => [...prevLogs, logEntry]);
   }, []);
 
+  // --- NEW: Store and log constraints the K-Means worker could not honour (only when the set changes) ---
+  const reportConstraintViolations = useCallback((violations: ConstraintViolation[]) => {
+      setConstraintViolations(violations);
+      const summary = violations.map(v => `${v.type}:${v.a}:${v.b}:${v.reason}`).sort().join('|');
+      if (summary === lastViolationSummaryRef.current) return;
+      lastViolationSummaryRef.current = summary;
+      if (violations.length === 0) return;
+      const contradictions = violations.filter(v => v.reason === 'contradiction').length;
+      addLogMessage(`K-Means could not satisfy ${violations.length} constraint(s)${contradictions > 0 ? `, ${contradictions} of them contradicting must-link pairs` : ''}. They are marked in the song list.`, 'warn');
+  }, [addLogMessage]);
+  // --- END NEW ---
+
   // Initialize Workers and AudioContext
   useEffect(() => {
     // Initialize AudioContext
@@ -537,11 +1207,35 @@ export default function DashboardPage() {
                     }
                     break;
                 case 'featureExtractionComplete':
+                    // --- NEW: Features of a song being classified continue down the classification pipeline ---
+                    const classifyRequest = classificationRequestRef.current;
+                    if (classifyRequest && classifyRequest.songId === songId) {
+                        const vector = encodeFeatureVector(features, classifyRequest.layout);
+                        if (!vector || vector.length !== classifyRequest.scalerParams.isOHEColumn.length) {
+                            addLogMessage(`[Classify] Features of ${classifyRequest.songName} do not match the trained feature layout.`, 'error');
+                            classificationRequestRef.current = null;
+                            setIsClassifying(false);
+                        } else {
+                            addLogMessage(`[Classify] Features extracted for ${classifyRequest.songName}. Applying fitted scaler...`, 'info');
+                            dataProcessingWorkerRef.current?.postMessage({
+                                type: 'transform',
+                                payload: { vectors: [vector], songIds: [songId], params: classifyRequest.scalerParams }
+                            });
+                        }
+                        break;
+                    }
+                    // -----------------------------------------------------------------------------------------
                     setSongFeatures(prev => ({ ...prev, [songId]: features }));
                     setFeatureStatus(prev => ({ ...prev, [songId]: 'complete' }));
                     addLogMessage(`Features extracted for song ID: ${songId}`, 'complete');
                     break;
                 case 'featureExtractionError':
+                    if (classificationRequestRef.current && classificationRequestRef.current.songId === songId) {
+                        addLogMessage(`[Classify] Feature extraction failed for ${classificationRequestRef.current.songName}: ${error}`, 'error');
+                        classificationRequestRef.current = null;
+                        setIsClassifying(false);
+                        break;
+                    }
                     addLogMessage(`[Essentia Worker] Error processing song ${songId}: ${error}`, 'error');
                     setFeatureStatus(prev => ({ ...prev, [songId]: 'error' }));
                     break;
@@ -575,6 +1269,13 @@ export default function DashboardPage() {
                          newPoints[id] = payload.reducedData[index];
                      });
                      setReducedDataPoints(prev => ({ ...prev, ...newPoints }));
+                     setReducerModel(payload.reducerModel ?? null); // NEW: Keep the fitted reducer for classification
+                     // NEW: Variance kept by the PCA embedding
+                     if (payload.reducerModel?.pcaReport) {
+                         const { explainedVarianceRatio, cumulativeVariance } = payload.reducerModel.pcaReport as PcaReport;
+                         const kept = payload.reducerModel.dimensions as number;
+                         addLogMessage(`PCA explained variance: ${explainedVarianceRatio.slice(0, kept).map((ratio, d) => `PC${d + 1} ${(ratio * 100).toFixed(1)}%`).join(', ')} (${(cumulativeVariance[kept - 1] * 100).toFixed(1)}% in total).`, 'info');
+                     }
                      if (payload.reducedData && payload.reducedData.length > 0 && payload.reducedData[0]) {
                          setReductionDimensions(payload.reducedData[0].length);
                      } else {
@@ -595,6 +1296,26 @@ export default function DashboardPage() {
                      // TODO: Show error notification
                      setReductionDimensions(0); // Reset on error
                      break;
+                // --- NEW: Classification pipeline (projection step) ---
+                case 'projectionComplete':
+                     if (classificationRequestRef.current) {
+                         const request = classificationRequestRef.current;
+                         request.reducedPoint = payload.projectedData[0];
+                         addLogMessage(`[Classify] Projected ${request.songName} into the reduced space. Finding nearest centroid...`, 'info');
+                         // Full-space centroids are compared with the scaled vector; the projection is only for display
+                         const points = request.clusterSpace === 'processed' && request.scaledVector ? [request.scaledVector] : payload.projectedData;
+                         kmeansWorkerRef.current?.postMessage({
+                             type: 'classifyPoints',
+                             payload: { points, songIds: payload.songIds, centroids: request.centroids }
+                         });
+                     }
+                     break;
+                case 'projectionError':
+                     addLogMessage(`[Classify] Projection failed: ${payload.error}`, 'error');
+                     classificationRequestRef.current = null;
+                     setIsClassifying(false);
+                     break;
+                // ------------------------------------------------------
                 default:
                     addLogMessage(`Unknown message type from Druid worker: ${type}`, 'warn');
             }
@@ -623,7 +1344,11 @@ export default function DashboardPage() {
                     setIsClustering(false); // Still need to turn off flag if old worker somehow sends this
                     break;
                 case 'initializationComplete':
-                    const initPayload = payload as { iteration: number; initialCentroids: number[][]; initialAssignments: number[]; songIds: string[] };
+                    const initPayload = payload as {
+                        iteration: number; initialCentroids: number[][]; initialAssignments: number[]; songIds: string[];
+                        metrics: WorkerClusterMetrics; memberships: number[][]; constraintViolations: ConstraintViolation[];
+                        restarts?: { inertias: number[]; iterations: number[]; bestRun: number };
+                    };
                     setKmeansIteration(initPayload.iteration); // Should be 0
                     setKmeansCentroids(initPayload.initialCentroids);
                     const initAssignments: KmeansAssignments = {};
@@ -631,7 +1356,22 @@ export default function DashboardPage() {
                         initAssignments[id] = initPayload.initialAssignments[index];
                     });
                     setKmeansAssignments(initAssignments);
+                    setKmeansMetrics(toKmeansMetrics(initPayload.metrics, initPayload.songIds));
+                    setClusterMemberships(toClusterMemberships(initPayload.memberships, initPayload.songIds));
+                    lastViolationSummaryRef.current = '';
+                    reportConstraintViolations(initPayload.constraintViolations);
                     setIsKmeansInitialized(true); // Mark as ready for next step
+                    // --- NEW: Report n_init restarts so the stability of the solution is visible ---
+                    if (initPayload.restarts) {
+                        const { inertias, iterations, bestRun } = initPayload.restarts;
+                        const minInertia = Math.min(...inertias);
+                        const maxInertia = Math.max(...inertias);
+                        const sameSolutionRuns = inertias.filter(inertia => Math.abs(inertia - minInertia) <= 1e-6 * Math.max(1, minInertia)).length;
+                        const runSummaries = inertias.map((inertia, run) => `#${run + 1}: ${inertia.toFixed(3)} (${iterations[run]} it)`);
+                        addLogMessage(`K-Means n_init=${inertias.length} inertias: ${runSummaries.join(', ')}.`, 'complete');
+                        addLogMessage(`Best inertia ${minInertia.toFixed(4)} (run ${bestRun + 1}, kept as the starting state), worst ${maxInertia.toFixed(4)}. ${sameSolutionRuns}/${inertias.length} runs reached the best solution.`, sameSolutionRuns === inertias.length ? 'complete' : 'warn');
+                    }
+                    // -------------------------------------------------------------------------------
                     addLogMessage('K-Means worker initialized successfully. Ready for first step.', 'complete');
                     // --- NEW: Update Latest Stage ---
                     setLatestSuccessfulStage('kmeans');
@@ -639,7 +1379,7 @@ export default function DashboardPage() {
                     // ----------------------------------
                     break;
                 case 'stepComplete':
-                    const stepPayload = payload as { iteration: number; centroids: number[][]; assignments: number[]; songIds: string[] };
+                    const stepPayload = payload as { iteration: number; centroids: number[][]; assignments: number[]; songIds: string[]; metrics: WorkerClusterMetrics; memberships: number[][]; constraintViolations: ConstraintViolation[] };
                     setKmeansIteration(stepPayload.iteration);
                     setKmeansCentroids(stepPayload.centroids);
                     const stepAssignments: KmeansAssignments = {};
@@ -647,6 +1387,9 @@ export default function DashboardPage() {
                         stepAssignments[id] = stepPayload.assignments[index];
                     });
                     setKmeansAssignments(stepAssignments);
+                    setKmeansMetrics(toKmeansMetrics(stepPayload.metrics, stepPayload.songIds));
+                    setClusterMemberships(toClusterMemberships(stepPayload.memberships, stepPayload.songIds));
+                    reportConstraintViolations(stepPayload.constraintViolations);
                     // Keep isKmeansInitialized as true
                     addLogMessage(`K-Means step ${stepPayload.iteration} complete.`, 'complete');
                     // --- NEW: Update Latest Stage ---
@@ -654,17 +1397,82 @@ export default function DashboardPage() {
                     addLogMessage(`K-Means step ${stepPayload.iteration} complete. Updating latest stage to: kmeans`, 'info');
                     // ----------------------------------
                     break;
+                // --- NEW: Auto-run finished ---
+                case 'convergenceComplete':
+                    const convergencePayload = payload as { iteration: number; stepsTaken: number; reason: 'assignmentsStable' | 'toleranceReached' | 'maxIterations'; centroidShift: number };
+                    setIsKmeansAutoRunning(false);
+                    if (convergencePayload.reason === 'maxIterations') {
+                        addLogMessage(`K-Means auto-run stopped at the iteration cap after ${convergencePayload.stepsTaken} step(s) without converging (last centroid shift ${convergencePayload.centroidShift.toFixed(6)}).`, 'warn');
+                    } else {
+                        const reasonText = convergencePayload.reason === 'assignmentsStable' ? 'assignments stopped changing' : 'centroid shift fell below tolerance';
+                        addLogMessage(`K-Means converged at iteration ${convergencePayload.iteration} after ${convergencePayload.stepsTaken} step(s): ${reasonText}.`, 'complete');
+                    }
+                    break;
+                // ------------------------------
                 case 'resetComplete':
                     addLogMessage('K-Means worker state reset confirmed.', 'info');
                     // State reset should happen on the main thread side when reset is requested
                     break;
+                // --- NEW: k sweep finished ---
+                case 'sweepComplete':
+                    const sweepPayload = payload as KSweepResult;
+                    setKSweepResult(sweepPayload);
+                    setIsSweepingK(false);
+                    const sweepSummary = sweepPayload.entries
+                        .map(entry => `k=${entry.k}: ${entry.inertia.toFixed(2)}${entry.silhouette !== null ? ` / ${entry.silhouette.toFixed(3)}` : ''}`)
+                        .join(', ');
+                    addLogMessage(`k sweep (inertia / silhouette): ${sweepSummary}.`, 'complete');
+                    addLogMessage(`Suggested k=${sweepPayload.recommendedK ?? 'n/a'} (best silhouette), elbow at k=${sweepPayload.elbowK ?? 'n/a'}. Click a point on the k sweep curve to use it.`, 'complete');
+                    break;
+                // ------------------------------
+                // --- NEW: Classification pipeline (final step) ---
+                case 'classificationComplete':
+                    if (classificationRequestRef.current) {
+                        const request = classificationRequestRef.current;
+                        const classification = payload.classifications[0];
+                        setClassificationResult({
+                            songName: request.songName,
+                            cluster: classification.cluster,
+                            distance: classification.distance,
+                            runnerUpCluster: classification.runnerUpCluster,
+                            runnerUpDistance: classification.runnerUpDistance,
+                            reducedPoint: request.reducedPoint ?? []
+                        });
+                        addLogMessage(`[Classify] ${request.songName} belongs to Cluster ${classification.cluster} (distance ${classification.distance.toFixed(3)}).`, 'complete');
+                        classificationRequestRef.current = null;
+                    }
+                    setIsClassifying(false);
+                    break;
+                // --------------------------------------------------
                 case 'kmeansError':
+                    // A failed classification must not discard the trained clustering
+                    if (payload.whileDoing === 'classify') {
+                        addLogMessage(`[Classify] K-Means Worker Error: ${payload.error}`, 'error');
+                        classificationRequestRef.current = null;
+                        setIsClassifying(false);
+                        break;
+                    }
+                    // A refused step during auto-run leaves the running clustering alone
+                    if (payload.busy) {
+                        addLogMessage(`K-Means: ${payload.error}`, 'warn');
+                        break;
+                    }
+                    // A failed sweep leaves the current clustering untouched
+                    if (payload.whileDoing === 'sweep') {
+                        addLogMessage(`[Suggest k] K-Means Worker Error: ${payload.error}`, 'error');
+                        setIsSweepingK(false);
+                        break;
+                    }
                     setIsClustering(false);
                     setIsKmeansInitialized(false); // Reset initialized flag on error
+                    setIsKmeansAutoRunning(false);
                     addLogMessage(`K-Means Worker Error: ${payload.error}`, 'error');
                     setKmeansAssignments({});
                     setKmeansCentroids([]);
                     setKmeansIteration(0);
+                    setKmeansMetrics(null);
+                    setClusterMemberships(null);
+                    setConstraintViolations([]);
                     break;
                 default:
                     addLogMessage(`Unknown message type from K-Means worker: ${type}`, 'warn');
@@ -674,11 +1482,91 @@ export default function DashboardPage() {
         kmeansWorkerRef.current.onerror = (error) => {
             addLogMessage(`K-Means Worker onerror: ${error?.message || 'Unknown error'}`, 'error');
             setIsClustering(false);
+            setIsKmeansAutoRunning(false);
             setKmeansAssignments({});
             setKmeansCentroids([]);
             setKmeansIteration(0);
+            setKmeansMetrics(null);
+            setClusterMemberships(null);
+            setConstraintViolations([]);
+            setIsSweepingK(false);
+        };
+    }
+
+    // --- NEW: Clustering Worker Setup (DBSCAN, agglomerative, GMM) ---
+    if (!clusteringWorkerRef.current) {
+        addLogMessage('Initializing Clustering worker...', 'info');
+        clusteringWorkerRef.current = new Worker(/* turbopackIgnore: true */ '/workers/clustering-worker.bundled.js');
+
+        clusteringWorkerRef.current.onmessage = (event) => {
+            const { type, payload } = event.data;
+            addLogMessage(`[Main] Received Clustering worker message: ${type}`);
+
+            switch (type) {
+                case 'clusteringComplete':
+                    const resultPayload = payload as {
+                        method: ClusteringMethod; songIds: string[]; assignments: number[];
+                        numClusters: number; noiseCount: number; centroids: number[][];
+                        memberships: number[][]; merges?: ClusterMerge[]; metrics: WorkerClusterMetrics | null;
+                        details: Record<string, number | boolean>;
+                    };
+                    const resultAssignments: KmeansAssignments = {};
+                    resultPayload.songIds.forEach((id, index) => {
+                        resultAssignments[id] = resultPayload.assignments[index];
+                    });
+                    setKmeansAssignments(resultAssignments);
+                    setKmeansCentroids(resultPayload.centroids);
+                    // A manual edit keeps the iteration of the result it started from
+                    const isManualEdit = resultPayload.details.manualEdit === true;
+                    if (!isManualEdit) setKmeansIteration(0);
+                    // Metrics skip noise points, so their silhouettes follow the non-noise songs
+                    const clusteredIds = resultPayload.songIds.filter((_, index) => resultPayload.assignments[index] !== -1);
+                    setKmeansMetrics(resultPayload.metrics ? toKmeansMetrics(resultPayload.metrics, clusteredIds) : null);
+                    setClusterMemberships(toClusterMemberships(resultPayload.memberships, resultPayload.songIds));
+                    setClusteringMethod(resultPayload.method);
+                    setIsRunningClusteringAlgorithm(false);
+                    // A dendrogram cut keeps the existing tree and only logs quietly
+                    const isTreeCut = resultPayload.details.treeCut === true;
+                    if (resultPayload.merges) {
+                        setClusterTree({ songIds: resultPayload.songIds, merges: resultPayload.merges });
+                    } else if (!isTreeCut && !isManualEdit) {
+                        setClusterTree(null);
+                        clusterTreeDataRef.current = null;
+                    }
+                    if (isTreeCut) {
+                        addLogMessage(`Dendrogram cut at ${resultPayload.numClusters} cluster(s).`, 'info');
+                        setLatestSuccessfulStage('kmeans');
+                        break;
+                    }
+                    if (isManualEdit) {
+                        addLogMessage('Centroids, memberships and metrics recomputed for the edited clusters.', 'complete');
+                        setLatestSuccessfulStage('kmeans');
+                        break;
+                    }
+                    const detailText = Object.entries(resultPayload.details)
+                        .map(([key, value]) => `${key}=${typeof value === 'number' ? Number(value.toFixed(4)) : value}`)
+                        .join(', ');
+                    addLogMessage(`${CLUSTERING_METHOD_NAMES[resultPayload.method]} found ${resultPayload.numClusters} cluster(s)${resultPayload.method === 'dbscan' ? ` and ${resultPayload.noiseCount} noise song(s)` : ''}${detailText ? ` (${detailText})` : ''}.`, 'complete');
+                    if (resultPayload.method === 'dbscan' && resultPayload.numClusters === 0) {
+                        addLogMessage('DBSCAN labelled every song as noise. Increase eps or lower minPts.', 'warn');
+                    }
+                    setLatestSuccessfulStage('kmeans');
+                    break;
+                case 'clusteringError':
+                    setIsRunningClusteringAlgorithm(false);
+                    addLogMessage(`Clustering Worker Error${payload.method ? ` (${CLUSTERING_METHOD_NAMES[payload.method as ClusteringMethod]})` : ''}: ${payload.error}`, 'error');
+                    break;
+                default:
+                    addLogMessage(`Unknown message type from Clustering worker: ${type}`, 'warn');
+            }
+        };
+
+        clusteringWorkerRef.current.onerror = (error) => {
+            addLogMessage(`Clustering Worker onerror: ${error?.message || 'Unknown error'}`, 'error');
+            setIsRunningClusteringAlgorithm(false);
         };
     }
+    // --- END NEW ---
 
     // Initialize Data Processing Worker
     if (!dataProcessingWorkerRef.current) {
@@ -693,6 +1581,18 @@ export default function DashboardPage() {
                 case 'processingComplete':
                     // --- Update state on processing complete --- 
                     setProcessedData({ vectors: payload.processedVectors, songIds: payload.songIds });
+                    setScalerParams(payload.scalerParams ?? null); // NEW: Keep the fitted scaler for classification
+                    // --- NEW: Columns removed by feature selection leave the raw matrix too ---
+                    if (payload.featureSelection?.removedColumns.length > 0) {
+                        const removed: { name: string, reason: string, laplacianScore: number | null }[] = payload.featureSelection.removedColumns;
+                        setUnprocessedData(prev => prev && dropMatrixColumns(prev, removed.map(column => column.name)));
+                        const byReason = (reason: string) => removed.filter(column => column.reason === reason).map(column => column.name);
+                        addLogMessage(`Feature selection kept ${payload.featureSelection.keptColumns.length} column(s) and removed ${removed.length}.`, 'complete');
+                        [['variance', 'low variance'], ['nearConstant', 'near-constant'], ['laplacian', 'outside the Laplacian-score top N']].forEach(([reason, label]) => {
+                            const names = byReason(reason);
+                            if (names.length > 0) addLogMessage(`Removed ${names.length} ${label} column(s): ${names.join(', ')}`, 'info');
+                        });
+                    }
                     addLogMessage(`Data processing complete. Stored ${payload.processedVectors?.length} processed vectors.`, 'complete');
                     // --- NEW: Reset K-Means as reprocessing invalidates it ---
                     handleResetKmeans(); 
@@ -711,6 +1611,33 @@ export default function DashboardPage() {
                      // Keep unprocessedData as it might still be useful or user might retry
                     // ----------------------------------------
                     break;
+                // --- NEW: Correlation matrix for the heatmap and redundancy report ---
+                case 'correlationComplete':
+                    setFeatureCorrelation({ columnNames: payload.columnNames, matrix: payload.matrix });
+                    addLogMessage(`Computed feature correlations for ${payload.columnNames.length} numerical column(s).`, 'info');
+                    break;
+                case 'correlationError':
+                    addLogMessage(`Feature correlation failed: ${payload.error}`, 'warn');
+                    setFeatureCorrelation(null);
+                    break;
+                // --- NEW: Classification pipeline (scaling step) ---
+                case 'transformComplete':
+                    if (classificationRequestRef.current) {
+                        const request = classificationRequestRef.current;
+                        request.scaledVector = payload.transformedVectors[0];
+                        addLogMessage(`[Classify] Scaled ${request.songName}. Projecting with fitted ${request.reducerModel.method.toUpperCase()} model...`, 'info');
+                        druidWorkerRef.current?.postMessage({
+                            type: 'projectVectors',
+                            payload: { vectors: payload.transformedVectors, songIds: payload.songIds, model: request.reducerModel }
+                        });
+                    }
+                    break;
+                case 'transformError':
+                    addLogMessage(`[Classify] Scaling failed: ${payload.error}`, 'error');
+                    classificationRequestRef.current = null;
+                    setIsClassifying(false);
+                    break;
+                // ----------------------------------------------------
                 case 'dataProcessingWorkerReady':
                      addLogMessage('Data Processing worker reported ready.', 'complete');
                      break;
@@ -745,6 +1672,11 @@ export default function DashboardPage() {
           kmeansWorkerRef.current.terminate();
           kmeansWorkerRef.current = null;
       }
+      if (clusteringWorkerRef.current) {
+          addLogMessage('Terminating Clustering worker...', 'info');
+          clusteringWorkerRef.current.terminate();
+          clusteringWorkerRef.current = null;
+      }
       if (dataProcessingWorkerRef.current) {
           addLogMessage('Terminating Data Processing Worker...', 'info');
           dataProcessingWorkerRef.current.terminate();
@@ -867,9 +1799,16 @@ export default function DashboardPage() {
       addLogMessage('Resetting K-Means state on main thread...', 'info');
       setIsClustering(false);
       setIsKmeansInitialized(false);
+      setIsKmeansAutoRunning(false);
       setKmeansIteration(0);
       setKmeansCentroids([]);
       setKmeansAssignments({});
+      setKmeansMetrics(null);
+      setClusteringMethod('kmeans');
+      setClusterMemberships(null);
+      setConstraintViolations([]);
+      setClusterTree(null);
+      setClassificationResult(null); // A classification is only meaningful for the centroids it was made against
 
       // Optionally send reset message to worker
       if (sendMessageToWorker && kmeansWorkerRef.current) {
@@ -956,7 +1895,7 @@ export default function DashboardPage() {
     // Automatically generate raw data matrix if possible
     if (finalActiveFeatures.length > 0) {
         addLogMessage('Automatically preparing raw data matrix after feature acquisition...', 'info');
-        const matrixResult = prepareMatrix(finalActiveFeatures, addLogMessage);
+        const matrixResult = prepareMatrix(finalActiveFeatures, addLogMessage, imputationStrategy, id => songs.find(song => song.id === id)?.name ?? id);
         if (matrixResult) {
             setUnprocessedData(matrixResult);
             addLogMessage('Raw data matrix successfully prepared.', 'complete');
@@ -1020,7 +1959,7 @@ export default function DashboardPage() {
   // Also include states read inside (activeSongIds, songFeatures) and setters used.
   // handleResetKmeans is NOT called here anymore, it's called *before* extraction starts.
   }, [
-      featureStatus, activeSongIds, songFeatures, songs, // State read
+      featureStatus, activeSongIds, songFeatures, songs, imputationStrategy, // State read
       addLogMessage, setAvailableFeatureKeys, setIsProcessing, setProcessingSongIds, 
       setUnprocessedData, setLatestSuccessfulStage // Setters/Callbacks
       // Removed: isProcessing, processingSongIds, extractionStartTimeRef (refs don't trigger effects)
@@ -1112,6 +2051,13 @@ export default function DashboardPage() {
         delete newState[songIdToRemove];
         return newState;
     });
+    setKmeansSeedSongIds(prev => {
+        if (!prev.has(songIdToRemove)) return prev;
+        const next = new Set(prev);
+        next.delete(songIdToRemove);
+        return next;
+    });
+    setClusterConstraints(prev => prev.filter(c => c.a !== songIdToRemove && c.b !== songIdToRemove));
      // Remove from K-Means assignments
     setKmeansAssignments(prev => {
         const newState = { ...prev };
@@ -1126,7 +2072,11 @@ export default function DashboardPage() {
         if (songIndex === -1) return prev;
         const newVectors = prev.vectors.filter((_, index) => index !== songIndex);
         const newSongIds = prev.songIds.filter(id => id !== songIdToRemove);
-        return newVectors.length > 0 ? { vectors: newVectors, songIds: newSongIds, isOHEColumn: prev.isOHEColumn } : null;
+        // Keep the imputation markers of the remaining songs
+        const imputedFeatures = prev.imputedFeatures && Object.fromEntries(
+            Object.entries(prev.imputedFeatures).filter(([id]) => id !== songIdToRemove)
+        );
+        return newVectors.length > 0 ? { ...prev, vectors: newVectors, songIds: newSongIds, imputedFeatures } : null;
     });
     setProcessedData(prev => {
         if (!prev) return null;
@@ -1316,6 +2266,9 @@ export default function DashboardPage() {
     setReducedDataPoints({});
     handleResetKmeans(); // Reset K-Means state and worker
     setReductionDimensions(0);
+    setScalerParams(null);
+    setReducerModel(null);
+    setExtractedFeatureIds([...selectedFeatures]); // Remembered so new songs can be classified with the same features
     const initialStatusUpdates = Array.from(currentActiveIds).reduce((acc, songId) => {
         acc[songId] = 'idle';
         return acc;
@@ -1509,6 +2462,7 @@ export default function DashboardPage() {
       addLogMessage, setAvailableFeatureKeys, setUnprocessedData, setProcessedData,
       setReducedDataPoints, handleResetKmeans, setReductionDimensions,
       setFeatureStatus, setSongFeatures, setIsProcessing, setProcessingSongIds,
+      setScalerParams, setReducerModel, setExtractedFeatureIds,
       // Dependencies: Refs used
       workerRef,
       // Dependencies: Helper functions
@@ -1519,7 +2473,13 @@ export default function DashboardPage() {
   // --- End REFACTORED handleExtractFeatures ---
 
   // --- NEW Handler to Trigger Data Processing ---
-  const handleStartDataProcessing = useCallback((method: ProcessingMethod, range?: [number, number]) => {
+  const handleStartDataProcessing = useCallback((
+    method: ProcessingMethod,
+    range?: [number, number],
+    weighting?: FeatureWeighting,
+    selection?: FeatureSelectionOptions,
+    columnsToDrop: string[] = droppedColumns
+  ) => {
     // --- REMOVED: Incorrect reset of available keys --- 
     // If we re-process, the available features might change based on active songs 
     // It might be safer to nullify this here, although it should be recalculated 
@@ -1540,6 +2500,7 @@ export default function DashboardPage() {
     }
 
     addLogMessage(`Preparing data for processing method: ${method}...`, 'info');
+    lastProcessingRequestRef.current = { method, range, weighting, selection };
 
     // Get features for active songs that are complete
     const activeFeatures: { id: string; features: Features }[] = [];
@@ -1566,7 +2527,12 @@ export default function DashboardPage() {
     }
 
     // Prepare the numerical matrix using the helper function
-    const matrixResult = prepareMatrix(activeFeatures, addLogMessage);
+    const preparedMatrix = prepareMatrix(activeFeatures, addLogMessage, imputationStrategy, getSongNameById);
+    // NEW: Leave out the columns dropped from the redundancy report
+    const matrixResult = preparedMatrix && dropMatrixColumns(preparedMatrix, columnsToDrop);
+    if (matrixResult && matrixResult !== preparedMatrix) {
+        addLogMessage(`Dropped ${matrixResult.layout.droppedColumns?.length ?? 0} redundant column(s) before processing: ${matrixResult.layout.droppedColumns?.join(', ')}`, 'info');
+    }
 
     if (matrixResult) {
         // Store unprocessed data & clear downstream
@@ -1575,10 +2541,22 @@ export default function DashboardPage() {
         setReducedDataPoints({});
         handleResetKmeans();
         setReductionDimensions(0);
+        setScalerParams(null);
+        setReducerModel(null);
         // REMOVED: Incorrect reset here as well
         // setAvailableFeatureKeys(null); // REMOVED: This was incorrect
         addLogMessage('Stored unprocessed matrix. Cleared downstream results. Sending to worker...', 'info');
 
+        // NEW: Per-column weights from the per-feature weights (needs the column names to map columns to features)
+        const columnWeights = weighting && matrixResult.layout.columnNames
+            ? computeColumnWeights(matrixResult.layout.columnNames, weighting)
+            : undefined;
+        if (weighting && !columnWeights) {
+            addLogMessage('Column names are unavailable; feature weights were not applied.', 'warn');
+        } else if (columnWeights && columnWeights.some(w => w !== 1)) {
+            addLogMessage(`Applying feature weights after ${method} (column weights ${Math.min(...columnWeights).toFixed(3)} to ${Math.max(...columnWeights).toFixed(3)}).`, 'info');
+        }
+
         // Set processing flag and send to worker
         setIsProcessingData(true);
         dataProcessingWorkerRef.current.postMessage({
@@ -1588,7 +2566,10 @@ export default function DashboardPage() {
                 songIds: matrixResult.songIds,
                 isOHEColumn: matrixResult.isOHEColumn, // <-- Send OHE info
                 method: method,
-                ...(range && { range: range })
+                ...(range && { range: range }),
+                ...(columnWeights && { columnWeights }),
+                // NEW: Feature selection runs in the worker before scaling; names let it report removed columns
+                ...(selection && { featureSelection: selection, columnNames: matrixResult.layout.columnNames })
             }
         });
     } else {
@@ -1601,16 +2582,58 @@ export default function DashboardPage() {
 }, [
     // Direct state dependencies read in the function:
     activeSongIds, songFeatures, featureStatus, 
-    isProcessingData, isProcessing, isReducing,
+    isProcessingData, isProcessing, isReducing, droppedColumns, imputationStrategy,
     // Callbacks/Refs used:
-    addLogMessage, dataProcessingWorkerRef,
+    addLogMessage, getSongNameById, dataProcessingWorkerRef,
     // State setters used:
     setUnprocessedData, setProcessedData, setReducedDataPoints, 
     setKmeansAssignments, setKmeansCentroids, setKmeansIteration, 
     setReductionDimensions, setIsProcessingData,
+    setScalerParams, setReducerModel,
     setAvailableFeatureKeys // Add new setter dependency
 ]);
 
+  // --- NEW: Correlation heatmap and redundancy report ---
+  // Correlations follow the raw matrix, so columns dropped earlier no longer appear in them
+  useEffect(() => {
+      const columnNames = unprocessedData?.layout.columnNames;
+      if (!unprocessedData || !columnNames || !dataProcessingWorkerRef.current) {
+          setFeatureCorrelation(null);
+          return;
+      }
+      dataProcessingWorkerRef.current.postMessage({
+          type: 'computeCorrelation',
+          payload: { vectors: unprocessedData.vectors, columnNames, isOHEColumn: unprocessedData.isOHEColumn }
+      });
+  }, [unprocessedData]);
+
+  const redundancyReport = useMemo<RedundancyReport | null>(
+      () => (featureCorrelation ? findRedundantColumns(featureCorrelation, redundancyThreshold) : null),
+      [featureCorrelation, redundancyThreshold]
+  );
+
+  // Re-runs the last processing request with the new column list (the next run uses it otherwise)
+  const reprocessWithDroppedColumns = useCallback((columns: string[]) => {
+      setDroppedColumns(columns);
+      const lastRequest = lastProcessingRequestRef.current;
+      if (lastRequest && unprocessedData) {
+          handleStartDataProcessing(lastRequest.method, lastRequest.range, lastRequest.weighting, lastRequest.selection, columns);
+      }
+  }, [unprocessedData, handleStartDataProcessing]);
+
+  const handleDropRedundantColumns = useCallback(() => {
+      if (!redundancyReport || redundancyReport.columnsToDrop.length === 0) return;
+      addLogMessage(`Dropping ${redundancyReport.columnsToDrop.length} column(s) correlated at |r| >= ${redundancyReport.threshold}.`, 'complete');
+      reprocessWithDroppedColumns(Array.from(new Set([...droppedColumns, ...redundancyReport.columnsToDrop])));
+  }, [redundancyReport, droppedColumns, reprocessWithDroppedColumns, addLogMessage]);
+
+  const handleRestoreDroppedColumns = useCallback(() => {
+      if (droppedColumns.length === 0) return;
+      addLogMessage(`Restoring ${droppedColumns.length} dropped column(s).`, 'complete');
+      reprocessWithDroppedColumns([]);
+  }, [droppedColumns, reprocessWithDroppedColumns, addLogMessage]);
+  // --- END NEW ---
+
   // --- MODIFIED Handler: Trigger dimensionality reduction ---
   const handleReduceDimensions = useCallback((reductionMethod: ReductionMethod, dimensions: number, params?: Record<string, unknown>) => { // <-- Change any to Record<string, unknown>
      // --- Check Preconditions ---
@@ -1631,6 +2654,9 @@ export default function DashboardPage() {
      }
 
      const { vectors: vectorsToReduce, songIds: idsForReduction } = processedData;
+     // NEW: Column names for the PCA loadings (processed columns follow the raw matrix columns)
+     const columnNames = unprocessedData?.layout.columnNames;
+     const reductionColumnNames = columnNames && columnNames.length === vectorsToReduce[0]?.length ? columnNames : undefined;
 
      // Basic check: Need more samples than dimensions
      if (vectorsToReduce.length <= dimensions) {
@@ -1645,7 +2671,8 @@ export default function DashboardPage() {
      }
      // --- Preconditions Met ---
 
-     addLogMessage(`Starting dimensionality reduction with method: ${reductionMethod}, dimensions: ${dimensions}`, 'info');
+     const paramSummary = Object.entries(params ?? {}).map(([key, value]) => `${key}=${value}`).join(', ');
+     addLogMessage(`Starting dimensionality reduction with method: ${reductionMethod}, dimensions: ${dimensions}${paramSummary ? ` (${paramSummary})` : ''}`, 'info');
      setIsReducing(true);
      // Clear previous reduced points for active songs and subsequent clustering results
      setReducedDataPoints(prev => {
@@ -1656,6 +2683,12 @@ export default function DashboardPage() {
      setKmeansAssignments({});
      setKmeansCentroids([]);
      setKmeansIteration(0);
+     setKmeansMetrics(null);
+     setClusterMemberships(null);
+     setConstraintViolations([]);
+     setClusterTree(null);
+     setKSweepResult(null); // Scored on the previous embedding
+     setReducerModel(null); // Replaced by the model returned on completion
      // Keep reductionDimensions state as it is, it will be updated on completion
 
      // Post message to worker using the processedData
@@ -1667,25 +2700,23 @@ export default function DashboardPage() {
              songIds: idsForReduction,
              method: reductionMethod,
              dimensions: dimensions,
+             ...(reductionColumnNames && { columnNames: reductionColumnNames }),
              ...(params && { ...params }) // Include optional params
          }
      });
 
  }, [
-     processedData, isProcessing, isProcessingData, isReducing, 
+     processedData, unprocessedData, isProcessing, isProcessingData, isReducing, 
      addLogMessage, druidWorkerRef,
      setIsReducing, setReducedDataPoints, setKmeansAssignments, setKmeansCentroids, setKmeansIteration,
+     setReducerModel,
      setAvailableFeatureKeys // Add new setter dependency
  ]);
 
-  // --- Clustering Handler (handleRunClustering) ---
-  const handleRunClustering = useCallback((k: number) => {
-      // Check readiness and other processes
-      if (!kmeansWorkerRef.current || isProcessing || isProcessingData || isReducing) {
-          addLogMessage('Cannot start clustering: Another process is active or worker not ready.', 'warn');
-          return;
-      }
-
+  // --- NEW: Rows to cluster (shared by K-Means, the k sweep and the other algorithms) ---
+  // Active songs with reduced points of the current dimension, taken from the chosen space.
+  // Logs why songs were skipped; returns null when nothing can be clustered.
+  const collectClusteringData = useCallback((clusterSpace: ClusterSpace): { id: string, vector: number[] }[] | null => {
       // Filter reducedDataPoints for active songs and check dimensions
       const activeReducedData: { id: string, vector: number[] }[] = [];
       let skippedCount = 0;
@@ -1716,28 +2747,95 @@ export default function DashboardPage() {
       // Check if valid data exists
       if (activeReducedData.length === 0) {
           addLogMessage('No valid reduced data points found for active songs to cluster.', 'warn');
+          return null;
+      }
+
+      // Optionally cluster the scaled full-dimensional vectors of the same songs.
+      // The songs still need reduced points so the result can be shown in the 2D/3D view.
+      let clusterData = activeReducedData;
+      if (clusterSpace === 'processed') {
+          if (!processedData || processedData.vectors.length === 0) {
+              addLogMessage('No processed data available to cluster in the full feature space. Run the Data Processing step first.', 'warn');
+              return null;
+          }
+          const processedIndex = new Map(processedData.songIds.map((id, index) => [id, index]));
+          clusterData = activeReducedData
+              .filter(d => processedIndex.has(d.id))
+              .map(d => ({ id: d.id, vector: processedData.vectors[processedIndex.get(d.id)!] }));
+          if (clusterData.length < activeReducedData.length) {
+              addLogMessage(`Skipping ${activeReducedData.length - clusterData.length} active songs without processed data for full-space clustering.`, 'warn');
+          }
+      }
+      return clusterData;
+
+  }, [activeSongIds, reducedDataPoints, processedData, reductionDimensions, addLogMessage]);
+  // --- END NEW ---
+
+  // --- Clustering Handler (handleRunClustering) ---
+  const handleRunClustering = useCallback((k: number, initOptions: KmeansInitOptions = { initStrategy: 'random' }) => {
+      // Check readiness and other processes
+      if (!kmeansWorkerRef.current || isProcessing || isProcessingData || isReducing) {
+          addLogMessage('Cannot start clustering: Another process is active or worker not ready.', 'warn');
           return;
       }
 
+      // Active songs with reduced points, in the space chosen for clustering
+      const clusterSpace: ClusterSpace = initOptions.clusterSpace ?? 'reduced';
+      const clusterData = collectClusteringData(clusterSpace);
+      if (!clusterData) return;
+
       // Check k value
       if (k <= 0) {
           addLogMessage(`Invalid k value: ${k}. Must be greater than 0.`, 'warn');
           return;
       }
-      if (activeReducedData.length < k) {
-          addLogMessage(`Cannot cluster: Not enough data points (${activeReducedData.length}) for k=${k}. Need at least k points.`, 'warn');
+      if (clusterData.length < k) {
+          addLogMessage(`Cannot cluster: Not enough data points (${clusterData.length}) for k=${k}. Need at least k points.`, 'warn');
           return;
       }
 
       // Prepare data for worker
-      const dataForWorker = activeReducedData.map(d => d.vector);
-      const idsForWorker = activeReducedData.map(d => d.id);
+      const dataForWorker = clusterData.map(d => d.vector);
+      const idsForWorker = clusterData.map(d => d.id);
+
+      // --- NEW: Constraints between songs that are part of this run ---
+      const clusteredSongIds = new Set(idsForWorker);
+      const constraintsForWorker = clusterConstraints.filter(c => clusteredSongIds.has(c.a) && clusteredSongIds.has(c.b));
+      if (constraintsForWorker.length < clusterConstraints.length) {
+          addLogMessage(`Ignoring ${clusterConstraints.length - constraintsForWorker.length} constraint(s) involving inactive songs or songs without reduced data.`, 'warn');
+      }
+
+      // --- NEW: Validate seed songs for manual initialization ---
+      let seedSongIdsForWorker: string[] | undefined;
+      if (initOptions.initStrategy === 'manual') {
+          const clusteredIds = new Set(idsForWorker);
+          seedSongIdsForWorker = Array.from(kmeansSeedSongIds).filter(id => clusteredIds.has(id));
+          if (seedSongIdsForWorker.length < kmeansSeedSongIds.size) {
+              addLogMessage(`Ignoring ${kmeansSeedSongIds.size - seedSongIdsForWorker.length} seed song(s) that are inactive or have no reduced data.`, 'warn');
+          }
+          if (seedSongIdsForWorker.length === 0) {
+              addLogMessage('Manual initialization needs at least one seed song. Mark seed songs in the song list.', 'warn');
+              return;
+          }
+          if (seedSongIdsForWorker.length > k) {
+              addLogMessage(`Too many seed songs (${seedSongIdsForWorker.length}) for k=${k}.`, 'warn');
+              return;
+          }
+      }
+      // ------------------------------------------------------------
 
-      addLogMessage(`Starting K-Means clustering with k=${k} for ${dataForWorker.length} points...`, 'info');
+      addLogMessage(`Starting K-Means clustering with k=${k} for ${dataForWorker.length} points in the ${clusterSpace === 'processed' ? `full ${dataForWorker[0].length}-dimensional feature` : 'reduced'} space (init: ${initOptions.initStrategy}${initOptions.seed !== undefined ? `, seed ${initOptions.seed}` : ''}${(initOptions.nInit ?? 1) > 1 ? `, n_init ${initOptions.nInit}` : ''})...`, 'info');
       setIsClustering(true);
+      setIsKmeansAutoRunning(false); // A re-initialization stops any running auto-run in the worker
       setKmeansIteration(0);
       setKmeansCentroids([]);
       setKmeansAssignments({});
+      setKmeansMetrics(null);
+      setKmeansClusterSpace(clusterSpace);
+      setClusteringMethod('kmeans');
+      setClusterMemberships(null);
+      setConstraintViolations([]);
+      setClusterTree(null);
 
       // Post message to worker (with null check already done)
       // Send Initialize message
@@ -1748,12 +2846,17 @@ export default function DashboardPage() {
               reducedData: dataForWorker,
               songIds: idsForWorker,
               k: k,
+              initStrategy: initOptions.initStrategy,
+              ...(initOptions.seed !== undefined && { seed: initOptions.seed }),
+              ...(initOptions.nInit !== undefined && { nInit: initOptions.nInit }),
+              ...(seedSongIdsForWorker && { seedSongIds: seedSongIdsForWorker }),
+              ...(constraintsForWorker.length > 0 && { constraints: constraintsForWorker })
           }
       });
 
   }, [
-      isProcessing, isProcessingData, isReducing, activeSongIds, reducedDataPoints, 
-      reductionDimensions, addLogMessage, kmeansWorkerRef,
+      isProcessing, isProcessingData, isReducing, collectClusteringData,
+      kmeansSeedSongIds, clusterConstraints, addLogMessage, kmeansWorkerRef,
       setIsClustering, setKmeansIteration, setKmeansCentroids, setKmeansAssignments,
       setAvailableFeatureKeys // Add new setter dependency
   ]);
@@ -1765,7 +2868,7 @@ export default function DashboardPage() {
           addLogMessage('Cannot run next step: K-Means not initialized or worker unavailable.', 'warn');
           return;
       }
-      if (isProcessing || isProcessingData || isReducing) {
+      if (isProcessing || isProcessingData || isReducing || isKmeansAutoRunning) {
           addLogMessage('Cannot run K-Means step while another process is active.', 'warn');
           return;
       }
@@ -1774,11 +2877,489 @@ export default function DashboardPage() {
       kmeansWorkerRef.current.postMessage({ type: 'runNextStep' });
 
   }, [
-      isKmeansInitialized, kmeansIteration, 
+      isKmeansInitialized, kmeansIteration, isKmeansAutoRunning,
       isProcessing, isProcessingData, isReducing, // Check other processes
       addLogMessage, kmeansWorkerRef
   ]);
 
+  // --- NEW: Run DBSCAN, agglomerative or GMM in the clustering worker ---
+  // The result replaces the K-Means assignments, so any K-Means run is reset first.
+  const handleRunClusteringAlgorithm = useCallback((request: ClusteringRequest, clusterSpace: ClusterSpace = 'reduced') => {
+      if (!clusteringWorkerRef.current || isProcessing || isProcessingData || isReducing || isRunningClusteringAlgorithm) {
+          addLogMessage('Cannot start clustering: Another process is active or worker not ready.', 'warn');
+          return;
+      }
+      const clusterData = collectClusteringData(clusterSpace);
+      if (!clusterData) return;
+
+      const requiredPoints = request.method === 'agglomerative' ? request.params.nClusters
+          : request.method === 'gmm' ? request.params.nComponents
+          : 1;
+      if (clusterData.length < requiredPoints) {
+          addLogMessage(`Cannot cluster: Not enough data points (${clusterData.length}) for ${requiredPoints} clusters.`, 'warn');
+          return;
+      }
+
+      if (isClustering) {
+          kmeansWorkerRef.current?.postMessage({ type: 'resetTraining' });
+      }
+      setIsClustering(false);
+      setIsKmeansInitialized(false);
+      setIsKmeansAutoRunning(false);
+      setKmeansIteration(0);
+      setKmeansCentroids([]);
+      setKmeansAssignments({});
+      setKmeansMetrics(null);
+      setClusterMemberships(null);
+      setConstraintViolations([]);
+      setClusterTree(null);
+      setClassificationResult(null);
+      setKmeansClusterSpace(clusterSpace);
+      setIsRunningClusteringAlgorithm(true);
+      clusterTreeDataRef.current = request.method === 'agglomerative' ? clusterData.map(d => d.vector) : null;
+
+      addLogMessage(`Starting ${CLUSTERING_METHOD_NAMES[request.method]} for ${clusterData.length} points in the ${clusterSpace === 'processed' ? 'full feature' : 'reduced'} space...`, 'info');
+      clusteringWorkerRef.current.postMessage({
+          type: 'runClustering',
+          payload: {
+              ...request,
+              data: clusterData.map(d => d.vector),
+              songIds: clusterData.map(d => d.id)
+          }
+      });
+  }, [
+      isProcessing, isProcessingData, isReducing, isRunningClusteringAlgorithm, isClustering,
+      collectClusteringData, addLogMessage
+  ]);
+  // --- END NEW ---
+
+  // --- NEW: Re-cut the agglomerative tree when the dendrogram cut line moves ---
+  const handleCutClusterTree = useCallback((nClusters: number) => {
+      const treeData = clusterTreeDataRef.current;
+      if (!clusteringWorkerRef.current || !clusterTree || !treeData) {
+          addLogMessage('Cannot cut the dendrogram: No agglomerative tree available.', 'warn');
+          return;
+      }
+      setNumClusters(nClusters);
+      clusteringWorkerRef.current.postMessage({
+          type: 'cutTree',
+          payload: { data: treeData, songIds: clusterTree.songIds, merges: clusterTree.merges, nClusters }
+      });
+  }, [clusterTree, addLogMessage]);
+  // --- END NEW ---
+
+  // --- NEW: Manual cluster editing (song list drag & drop, lasso in the plot) ---
+  // Moves songs to `cluster` (-1 = noise, numClusters = new cluster); the clustering worker
+  // then recomputes centroids, memberships and metrics from the edited labels.
+  const handleReassignSongs = useCallback((songIdsToMove: string[], cluster: number) => {
+      if (!clusteringWorkerRef.current || isKmeansAutoRunning || isRunningClusteringAlgorithm) {
+          addLogMessage('Cannot edit clusters while clustering is running.', 'warn');
+          return;
+      }
+      const editedAssignments: KmeansAssignments = { ...kmeansAssignments };
+      const movedIds = songIdsToMove.filter(id => editedAssignments[id] !== undefined && editedAssignments[id] !== cluster);
+      if (movedIds.length === 0) return;
+      movedIds.forEach(id => { editedAssignments[id] = cluster; });
+
+      // Vectors in the space the clusters were computed in, so the centroids stay usable for classification
+      const assignedIds = Object.keys(editedAssignments);
+      const processedIndex = kmeansClusterSpace === 'processed' && processedData
+          ? new Map(processedData.songIds.map((id, index) => [id, index]))
+          : null;
+      const vectors = assignedIds.map(id => (processedIndex
+          ? (processedIndex.has(id) ? processedData!.vectors[processedIndex.get(id)!] : undefined)
+          : reducedDataPoints[id]));
+      if (vectors.some(vector => !vector || vector.length === 0)) {
+          addLogMessage(`Cannot edit clusters: Some clustered songs no longer have ${kmeansClusterSpace === 'processed' ? 'processed' : 'reduced'} data. Re-run clustering first.`, 'warn');
+          return;
+      }
+
+      const clusterName = cluster === -1 ? 'Noise' : (clusterLabels[cluster]?.name || `Cluster ${cluster}`);
+      addLogMessage(`Moved ${movedIds.length} song(s) to ${cluster >= kmeansCentroids.length ? `new cluster ${cluster}` : clusterName}.`, 'info');
+      if (clusteringMethod === 'kmeans' && isKmeansInitialized) {
+          // Further steps would start from the worker's old centroids and undo the edit
+          setIsKmeansInitialized(false);
+          addLogMessage('K-Means stepping stopped after the manual edit. Initialize again to keep iterating.', 'info');
+      }
+      setConstraintViolations([]); // Reported for the assignments before the edit
+      clusteringWorkerRef.current.postMessage({
+          type: 'reassignClusters',
+          payload: {
+              method: clusteringMethod,
+              data: vectors,
+              songIds: assignedIds,
+              assignments: assignedIds.map(id => editedAssignments[id]),
+              numClusters: Math.max(kmeansCentroids.length, cluster + 1),
+              centroids: kmeansCentroids
+          }
+      });
+  }, [
+      kmeansAssignments, kmeansCentroids, kmeansClusterSpace, clusteringMethod, clusterLabels,
+      processedData, reducedDataPoints, isKmeansInitialized, isKmeansAutoRunning, isRunningClusteringAlgorithm, addLogMessage
+  ]);
+
+  // --- NEW: Brushing in the parallel-coordinates / SPLOM views highlights songs in the list ---
+  const handleBrushSongs = useCallback((songIds: string[] | null) => {
+      setBrushedSongIds(songIds ? new Set(songIds) : null);
+  }, []);
+
+  // Name or recolour a cluster; empty fields go back to the defaults
+  const handleUpdateClusterLabel = useCallback((cluster: number, label: ClusterLabel) => {
+      setClusterLabels(prev => {
+          const merged: ClusterLabel = { ...prev[cluster], ...label };
+          const next = { ...prev };
+          if (!merged.name) delete merged.name;
+          if (!merged.color) delete merged.color;
+          if (Object.keys(merged).length === 0) {
+              delete next[cluster];
+          } else {
+              next[cluster] = merged;
+          }
+          return next;
+      });
+  }, []);
+  // --- END NEW ---
+
+  // --- NEW: Sweep k and score each value to suggest the number of clusters ---
+  const handleSuggestK = useCallback((kMin: number, kMax: number, initOptions: KmeansInitOptions = { initStrategy: 'kmeans++' }) => {
+      if (!kmeansWorkerRef.current || isProcessing || isProcessingData || isReducing || isSweepingK) {
+          addLogMessage('Cannot sweep k: Another process is active or worker not ready.', 'warn');
+          return;
+      }
+
+      // Sweep the same rows, in the same space, that the clustering would use
+      const clusterSpace: ClusterSpace = initOptions.clusterSpace ?? 'reduced';
+      const sweepRows = collectClusteringData(clusterSpace);
+      if (!sweepRows) return;
+      const sweepData = sweepRows.map(row => row.vector);
+      if (!Number.isInteger(kMin) || !Number.isInteger(kMax) || kMin < 1 || kMax < kMin) {
+          addLogMessage(`Invalid k range: ${kMin}-${kMax}.`, 'warn');
+          return;
+      }
+      if (kMax > sweepData.length) {
+          addLogMessage(`Cannot sweep up to k=${kMax} with only ${sweepData.length} data points.`, 'warn');
+          return;
+      }
+
+      // Seed songs are chosen for one specific k, so a sweep falls back to k-means++
+      const initStrategy = initOptions.initStrategy === 'manual' ? 'kmeans++' : initOptions.initStrategy;
+      addLogMessage(`Sweeping k=${kMin}..${kMax} for ${sweepData.length} points in the ${clusterSpace === 'processed' ? 'full feature' : 'reduced'} space (init: ${initStrategy}${(initOptions.nInit ?? 1) > 1 ? `, n_init ${initOptions.nInit}` : ''})...`, 'info');
+      setIsSweepingK(true);
+      kmeansWorkerRef.current.postMessage({
+          type: 'sweepK',
+          payload: {
+              reducedData: sweepData,
+              kMin,
+              kMax,
+              initStrategy,
+              ...(initOptions.seed !== undefined && { seed: initOptions.seed }),
+              ...(initOptions.nInit !== undefined && { nInit: initOptions.nInit })
+          }
+      });
+  }, [
+      isProcessing, isProcessingData, isReducing, isSweepingK,
+      collectClusteringData, addLogMessage, kmeansWorkerRef
+  ]);
+
+  // Picking a k on the sweep curve only changes the k used by the next initialization
+  const handleSelectK = useCallback((k: number) => {
+      setNumClusters(k);
+      addLogMessage(`Number of clusters set to k=${k} from the k sweep.`, 'complete');
+  }, [addLogMessage]);
+  // --- END NEW ---
+
+  // --- NEW: Toggle a song as a seed centroid for manual K-Means initialization ---
+  const handleToggleSeedSong = useCallback((songId: string) => {
+      setKmeansSeedSongIds(prev => {
+          const next = new Set(prev);
+          if (next.has(songId)) {
+              next.delete(songId);
+          } else {
+              next.add(songId);
+          }
+          return next;
+      });
+  }, []);
+
+  // --- NEW: Must-link / cannot-link constraints set in the song list ---
+  const handleAddConstraint = useCallback((constraint: ClusterConstraint) => {
+      if (constraint.a === constraint.b) return;
+      const existing = clusterConstraints.find(c => isSamePair(c, constraint));
+      if (existing?.type === constraint.type) {
+          addLogMessage('That constraint already exists.', 'warn');
+          return;
+      }
+      if (existing) {
+          addLogMessage(`Replacing the ${existing.type === 'mustLink' ? 'must-link' : 'cannot-link'} constraint on the same songs.`, 'warn');
+      }
+      setClusterConstraints(prev => [...prev.filter(c => !isSamePair(c, constraint)), constraint]);
+      const nameOf = (id: string) => songs.find(song => song.id === id)?.name ?? id;
+      addLogMessage(`Added ${constraint.type === 'mustLink' ? 'must-link' : 'cannot-link'} constraint: ${nameOf(constraint.a)} / ${nameOf(constraint.b)}. Re-initialize K-Means to apply it.`, 'info');
+  }, [clusterConstraints, songs, addLogMessage]);
+
+  const handleRemoveConstraint = useCallback((constraint: ClusterConstraint) => {
+      setClusterConstraints(prev => prev.filter(c => !(isSamePair(c, constraint) && c.type === constraint.type)));
+  }, []);
+
+  const handleClearConstraints = useCallback(() => {
+      setClusterConstraints([]);
+  }, []);
+  // --- END NEW ---
+
+  // --- NEW: Handler to Run K-Means Until Convergence ---
+  const handleRunKmeansToConvergence = useCallback((tolerance: number, maxIterations: number) => {
+      if (!isKmeansInitialized || !kmeansWorkerRef.current) {
+          addLogMessage('Cannot auto-run: K-Means not initialized or worker unavailable.', 'warn');
+          return;
+      }
+      if (isProcessing || isProcessingData || isReducing || isKmeansAutoRunning) {
+          addLogMessage('Cannot auto-run K-Means while another process is active.', 'warn');
+          return;
+      }
+      if (!(tolerance >= 0) || !Number.isInteger(maxIterations) || maxIterations <= 0) {
+          addLogMessage(`Invalid auto-run settings: tolerance=${tolerance}, max iterations=${maxIterations}.`, 'warn');
+          return;
+      }
+
+      addLogMessage(`Running K-Means to convergence (tolerance ${tolerance}, max ${maxIterations} iterations)...`, 'info');
+      setIsKmeansAutoRunning(true);
+      kmeansWorkerRef.current.postMessage({ type: 'runToConvergence', payload: { tolerance, maxIterations } });
+
+  }, [
+      isKmeansInitialized, isKmeansAutoRunning,
+      isProcessing, isProcessingData, isReducing,
+      addLogMessage, kmeansWorkerRef
+  ]);
+
+  // --- NEW: New Song Classification Handlers ---
+  const handleClassifyClick = useCallback(() => {
+      addLogMessage('Classify button clicked, triggering file input.', 'info');
+      classifyFileInputRef.current?.click();
+  }, [addLogMessage]);
+
+  // Runs an uploaded song through the trained pipeline:
+  // Essentia extraction -> fitted scaler -> fitted reducer -> nearest K-Means centroid
+  const handleClassifySong = useCallback(async (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = ''; // Allow selecting the same file again
+      if (!file) return;
+
+      if (!file.type.startsWith('audio/')) {
+          addLogMessage(`[Classify] Skipped non-audio file: ${file.name}`, 'warn');
+          return;
+      }
+      if (!essentiaWorkerReady || !workerRef.current) {
+          addLogMessage('[Classify] Essentia worker not ready. Classification aborted.', 'warn');
+          return;
+      }
+      if (isClassifying || isProcessing || isProcessingData || isReducing) {
+          addLogMessage('[Classify] Cannot classify while another process is active.', 'warn');
+          return;
+      }
+      if (kmeansCentroids.length === 0) {
+          addLogMessage('[Classify] No trained K-Means model. Run clustering or load a model first.', 'warn');
+          return;
+      }
+      if (clusteringMethod !== 'kmeans') {
+          addLogMessage(`[Classify] Nearest-centroid classification needs a K-Means model, not ${CLUSTERING_METHOD_NAMES[clusteringMethod]}.`, 'warn');
+          return;
+      }
+      if (!unprocessedData || !scalerParams || !reducerModel || extractedFeatureIds.length === 0) {
+          addLogMessage('[Classify] Fitted scaler or reducer missing. Re-run processing and reduction first.', 'warn');
+          return;
+      }
+
+      const objectURL = URL.createObjectURL(file);
+      const classifySong: Song = { id: objectURL, name: file.name, url: objectURL, source: 'user' };
+      classificationRequestRef.current = {
+          songId: classifySong.id,
+          songName: classifySong.name,
+          layout: unprocessedData.layout,
+          scalerParams,
+          reducerModel,
+          centroids: kmeansCentroids,
+          clusterSpace: kmeansClusterSpace
+      };
+      setIsClassifying(true);
+      setClassificationResult(null);
+      addLogMessage(`[Classify] Classifying ${file.name} against ${kmeansCentroids.length} trained clusters...`, 'info');
+
+      const audioBuffer = await getDecodedAudio(classifySong);
+      URL.revokeObjectURL(objectURL); // The audio is decoded, the URL is no longer needed
+      if (!audioBuffer) {
+          classificationRequestRef.current = null;
+          setIsClassifying(false);
+          return;
+      }
+
+      workerRef.current.postMessage({
+          type: 'extractFeatures',
+          payload: {
+              songId: classifySong.id,
+              audioVector: Array.from(audioBuffer.getChannelData(0)),
+              sampleRate: audioBuffer.sampleRate,
+              featuresToExtract: extractedFeatureIds
+          }
+      });
+  }, [
+      essentiaWorkerReady, isClassifying, isProcessing, isProcessingData, isReducing,
+      kmeansCentroids, kmeansClusterSpace, clusteringMethod, unprocessedData, scalerParams, reducerModel, extractedFeatureIds,
+      addLogMessage, getDecodedAudio
+  ]);
+  // --- END NEW ---
+
+  // --- NEW: Model Bundle Handlers ---
+  const canSaveModel = useMemo(() => {
+      return kmeansCentroids.length > 0 && Object.keys(kmeansAssignments).length > 0 &&
+          unprocessedData != null && processedData != null && scalerParams != null && reducerModel != null;
+  }, [kmeansCentroids, kmeansAssignments, unprocessedData, processedData, scalerParams, reducerModel]);
+
+  const handleSaveModel = useCallback(() => {
+      if (!canSaveModel || !unprocessedData || !processedData || !scalerParams || !reducerModel) {
+          addLogMessage('[Model Bundle] Nothing to save. Run the full pipeline up to K-Means first.', 'warn');
+          return;
+      }
+
+      const runSongIds = new Set(processedData.songIds);
+      const bundleSongFeatures: Record<string, Features> = {};
+      runSongIds.forEach(id => {
+          const features = songFeatures[id];
+          if (features) bundleSongFeatures[id] = features;
+      });
+      const bundleReducedPoints: Record<string, number[]> = {};
+      runSongIds.forEach(id => {
+          if (reducedDataPoints[id]) bundleReducedPoints[id] = reducedDataPoints[id];
+      });
+
+      const bundle: ModelBundle = {
+          version: MODEL_BUNDLE_VERSION,
+          createdAt: new Date().toISOString(),
+          featureIds: extractedFeatureIds,
+          availableFeatureKeys,
+          songs: songs.filter(song => runSongIds.has(song.id)),
+          songFeatures: bundleSongFeatures,
+          unprocessedData,
+          processedData,
+          scalerParams,
+          processingRequest: {
+              weighting: lastProcessingRequestRef.current?.weighting,
+              selection: lastProcessingRequestRef.current?.selection
+          },
+          reducedDataPoints: bundleReducedPoints,
+          reducerModel,
+          kmeans: {
+              k: kmeansCentroids.length,
+              iteration: kmeansIteration,
+              centroids: kmeansCentroids,
+              assignments: kmeansAssignments,
+              clusterSpace: kmeansClusterSpace,
+              method: clusteringMethod,
+              ...(Object.keys(clusterLabels).length > 0 && { clusterLabels })
+          }
+      };
+
+      const blob = new Blob([JSON.stringify(bundle)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `music-cluster-model-k${bundle.kmeans.k}-${bundle.createdAt.slice(0, 10)}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      addLogMessage(`[Model Bundle] Saved model with ${bundle.songs.length} songs and k=${bundle.kmeans.k}.`, 'complete');
+  }, [
+      canSaveModel, unprocessedData, processedData, scalerParams, reducerModel,
+      songs, songFeatures, reducedDataPoints, extractedFeatureIds, availableFeatureKeys,
+      kmeansCentroids, kmeansIteration, kmeansAssignments, kmeansClusterSpace, clusteringMethod, clusterLabels, addLogMessage
+  ]);
+
+  const handleLoadModelClick = useCallback(() => {
+      addLogMessage('Load model button clicked, triggering file input.', 'info');
+      bundleFileInputRef.current?.click();
+  }, [addLogMessage]);
+
+  // Restores every stage from a bundle file. Workers are not involved; only the K-Means
+  // worker is reset so it does not keep training state from a different run.
+  const handleLoadModel = useCallback(async (event: ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      event.target.value = ''; // Allow selecting the same file again
+      if (!file) return;
+
+      if (isProcessing || isProcessingData || isReducing || isClassifying) {
+          addLogMessage('[Model Bundle] Cannot load a model while another process is active.', 'warn');
+          return;
+      }
+
+      let bundle: ModelBundle;
+      try {
+          bundle = parseModelBundle(JSON.parse(await file.text()));
+      } catch (error: unknown) {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          addLogMessage(`[Model Bundle] Failed to load ${file.name}: ${errorMessage}`, 'error');
+          return;
+      }
+
+      // Songs: keep the current library and add any bundle songs that are missing
+      const existingIds = new Set(songs.map(s => s.id));
+      const missingSongs = bundle.songs.filter(song => !existingIds.has(song.id));
+      if (missingSongs.length > 0) {
+          setSongs(prev => [...prev, ...missingSongs]);
+      }
+      const unavailableUserSongs = missingSongs.filter(song => song.source === 'user').length;
+      if (unavailableUserSongs > 0) {
+          addLogMessage(`[Model Bundle] ${unavailableUserSongs} uploaded song(s) restored without audio. Their features and clusters are still available.`, 'warn');
+      }
+
+      const bundleSongIds = bundle.processedData.songIds;
+      setActiveSongIds(new Set(bundleSongIds));
+      setSongFeatures(prev => ({ ...prev, ...bundle.songFeatures }));
+      setFeatureStatus(prev => ({
+          ...prev,
+          ...Object.fromEntries(Object.keys(bundle.songFeatures).map(id => [id, 'complete' as FeatureStatus]))
+      }));
+      setExtractedFeatureIds(bundle.featureIds);
+      setRestoredFeatureIds(bundle.featureIds);
+      setAvailableFeatureKeys(bundle.availableFeatureKeys);
+
+      setUnprocessedData(bundle.unprocessedData);
+      setProcessedData(bundle.processedData);
+      setScalerParams(bundle.scalerParams);
+      setDroppedColumns(bundle.unprocessedData.layout.droppedColumns ?? []);
+      setImputationStrategy(bundle.unprocessedData.layout.imputation?.strategy ?? 'none'); // Matrix rebuilds must match the saved scaler
+      lastProcessingRequestRef.current = {
+          method: bundle.scalerParams.method,
+          range: bundle.scalerParams.range,
+          ...bundle.processingRequest
+      };
+      setReducedDataPoints(bundle.reducedDataPoints);
+      setReductionDimensions(bundle.reducerModel.dimensions);
+      setReducerModel(bundle.reducerModel);
+
+      // The worker holds no dataset for these centroids, so stepping stays disabled until re-initialized
+      kmeansWorkerRef.current?.postMessage({ type: 'resetTraining' });
+      setIsClustering(false);
+      setIsKmeansInitialized(false);
+      setKmeansIteration(bundle.kmeans.iteration);
+      setKmeansCentroids(bundle.kmeans.centroids);
+      setKmeansAssignments(bundle.kmeans.assignments);
+      setKmeansClusterSpace(bundle.kmeans.clusterSpace ?? 'reduced');
+      setClusteringMethod(bundle.kmeans.method ?? 'kmeans');
+      setClusterLabels(bundle.kmeans.clusterLabels ?? {});
+      setClusterMemberships(null);
+      setConstraintViolations([]);
+      setClusterTree(null);
+      setKmeansMetrics(null); // Recomputed on the next initialization
+      setKSweepResult(null);
+      setNumClusters(bundle.kmeans.k);
+      setClassificationResult(null);
+
+      setLatestSuccessfulStage('kmeans');
+      setVisualizationDisplayStage('kmeans');
+      addLogMessage(`[Model Bundle] Restored model from ${file.name} (${bundleSongIds.length} songs, k=${bundle.kmeans.k}, saved ${bundle.createdAt}).`, 'complete');
+  }, [
+      isProcessing, isProcessingData, isReducing, isClassifying, songs, addLogMessage
+  ]);
+  // --- END NEW ---
+
   // --- Derived State (Moved Before Handlers Using Them) ---
   const hasFeaturesForActiveSongs = useMemo(() => {
     return Array.from(activeSongIds).some(id =>
@@ -1790,6 +3371,53 @@ export default function DashboardPage() {
       return processedData != null && processedData.vectors.length > 0;
   }, [processedData]);
 
+  // --- NEW: Centroids as drawn in the reduced view ---
+  // Full-space centroids cannot be plotted directly, so each cluster is shown at the mean
+  // of its songs' reduced coordinates. Empty clusters get an empty entry (not drawn).
+  const displayCentroids = useMemo(() => {
+      if (kmeansClusterSpace === 'reduced') return kmeansCentroids;
+      const sums: number[][] = kmeansCentroids.map(() => []);
+      const counts = kmeansCentroids.map(() => 0);
+      Object.entries(kmeansAssignments).forEach(([id, cluster]) => {
+          const point = reducedDataPoints[id];
+          if (!point || cluster < 0 || cluster >= sums.length) return;
+          if (counts[cluster] === 0) sums[cluster] = point.map(() => 0);
+          point.forEach((value, d) => { sums[cluster][d] += value; });
+          counts[cluster]++;
+      });
+      return sums.map((sum, cluster) => sum.map(value => value / counts[cluster]));
+  }, [kmeansClusterSpace, kmeansCentroids, kmeansAssignments, reducedDataPoints]);
+  // --- END NEW ---
+
+  // --- NEW: Plain-language description of each cluster from the raw feature columns ---
+  const clusterDescriptions = useMemo<ClusterDescription[]>(() => {
+      if (!unprocessedData || unprocessedData.vectors.length === 0 || Object.keys(kmeansAssignments).length === 0) return [];
+      return describeClusters(unprocessedData, kmeansAssignments);
+  }, [unprocessedData, kmeansAssignments]);
+  // --- END NEW ---
+
+  // --- NEW: Feature keys that still have columns after redundancy drops and feature selection ---
+  // Keys outside the matrix (e.g. categorical features only used for colouring) stay available;
+  // imputed features are added, since they are in the matrix although some songs lack them
+  const keptFeatureKeys = useMemo<string[] | null>(() => {
+      const layout = unprocessedData?.layout;
+      if (!availableFeatureKeys || !layout?.columnNames || (!layout.droppedColumns?.length && !layout.imputation)) return availableFeatureKeys;
+      const keysWithColumns = new Set(layout.columnNames.map(dataKeyOfColumn));
+      const matrixKeys = new Set<string>(layout.featureKeys);
+      const imputedKeys = layout.featureKeys.filter(key => !availableFeatureKeys.includes(key) && keysWithColumns.has(key));
+      return [...availableFeatureKeys.filter(key => !matrixKeys.has(key) || keysWithColumns.has(key)), ...imputedKeys];
+  }, [availableFeatureKeys, unprocessedData]);
+  // --- END NEW ---
+
+  // --- NEW: Weight of every processed column by name, so the visualization can show them ---
+  const columnWeights = useMemo<Record<string, number> | null>(() => {
+      const columnNames = unprocessedData?.layout.columnNames;
+      const weights = scalerParams?.columnWeights;
+      if (!columnNames || !weights || weights.length !== columnNames.length) return null;
+      return Object.fromEntries(columnNames.map((name, i) => [name, weights[i]]));
+  }, [unprocessedData, scalerParams]);
+  // --- END NEW ---
+
   const hasReducedDataForActiveSongs = useMemo(() => {
       const targetDim = reductionDimensions;
       return Array.from(activeSongIds).some(id => {
@@ -1919,6 +3547,24 @@ export default function DashboardPage() {
           onChange={handleFileChange}
           className="hidden"
         />
+       {/* NEW: Hidden File Input for classifying a single new song */}
+       <input
+          ref={classifyFileInputRef}
+          id="classify-upload"
+          type="file"
+          accept="audio/*"
+          onChange={handleClassifySong}
+          className="hidden"
+        />
+       {/* NEW: Hidden File Input for loading a saved model bundle */}
+       <input
+          ref={bundleFileInputRef}
+          id="model-bundle-upload"
+          type="file"
+          accept="application/json,.json"
+          onChange={handleLoadModel}
+          className="hidden"
+        />
 
       {/* Header/Top Controls Placeholder */}
       <div
@@ -1958,8 +3604,10 @@ export default function DashboardPage() {
                  {isProcessing ? 'Extracting... ' : ''}
                  {isProcessingData ? 'Processing Data... ' : ''}
                  {isReducing ? 'Reducing... ' : ''}
-                 {isClustering ? `Clustering (Iter: ${kmeansIteration})... ` : ''}
-                 {cacheStatus !== 'loading' && !isProcessing && !isProcessingData && !isReducing && !isClustering ? 'What\'s Next?' : ''}
+                 {isClustering ? `Clustering (Iter: ${kmeansIteration}${isKmeansAutoRunning ? ', auto' : ''})... ` : ''}
+                 {isRunningClusteringAlgorithm ? 'Clustering... ' : ''}
+                 {isClassifying ? 'Classifying... ' : ''}
+                 {cacheStatus !== 'loading' && !isProcessing && !isProcessingData && !isReducing && !isClustering && !isRunningClusteringAlgorithm && !isClassifying ? 'What\'s Next?' : ''}
             </span>
             {/* Overall Counts (remain useful) */}
             {/* Show processing progress count only during feature extraction */}
@@ -2017,6 +3665,20 @@ export default function DashboardPage() {
             onClearAll={handleClearAll}
             onShowDetails={handleShowDetails}
             kmeansAssignments={kmeansAssignments} // <-- ADD THIS PROP
+            clusterMemberships={clusterMemberships} // NEW: Top-2 memberships per song
+            clusterConstraints={clusterConstraints} // NEW: Must-link / cannot-link pairs
+            constraintViolations={constraintViolations}
+            onAddConstraint={handleAddConstraint}
+            onRemoveConstraint={handleRemoveConstraint}
+            onClearConstraints={handleClearConstraints}
+            clusterLabels={clusterLabels} // NEW: Cluster names/colours and manual editing
+            onReassignSongs={handleReassignSongs}
+            onUpdateClusterLabel={handleUpdateClusterLabel}
+            highlightedSongIds={brushedSongIds} // NEW: Songs brushed in the matrix views
+            onClearHighlight={() => handleBrushSongs(null)}
+            kmeansSeedSongIds={kmeansSeedSongIds} // NEW: Seeds for manual K-Means init
+            onToggleSeedSong={handleToggleSeedSong}
+            imputedFeatures={unprocessedData?.imputedFeatures ?? {}} // NEW: Songs with filled-in feature values
             // --- NEW: Pass Audio Props ---
             onPlayRequest={handlePlayRequest}
             currentlyPlayingSongId={currentlyPlayingSongId}
@@ -2036,13 +3698,35 @@ export default function DashboardPage() {
             // Existing props for clustering results
             reducedDataPoints={reducedDataPoints}
             reductionDimensions={reductionDimensions}
+            pcaReport={reducerModel?.pcaReport ?? null} // NEW: Scree plot and "PC1 (34%)" axis labels
             kmeansAssignments={kmeansAssignments}
-            kmeansCentroids={kmeansCentroids}
+            kmeansCentroids={displayCentroids} // Reduced-space positions, also for full-space clustering
+            kmeansClusterSpace={kmeansClusterSpace}
+            clusteringMethod={clusteringMethod} // NEW: Algorithm behind the assignments (noise = -1)
+            clusterMemberships={clusterMemberships}
+            clusterTree={clusterTree} // NEW: Dendrogram of the last agglomerative run
+            onCutClusterTree={handleCutClusterTree}
+            clusterLabels={clusterLabels}
+            onReassignSongs={handleReassignSongs}
+            clusterDescriptions={clusterDescriptions} // NEW: Summaries shown in the legend
+            onBrushSongs={handleBrushSongs} // NEW: Brushed songs are highlighted in the song list
+            columnWeights={columnWeights} // NEW: Feature weights of the processed columns
+            featureCorrelation={featureCorrelation} // NEW: Correlation heatmap and redundancy report
+            redundancyReport={redundancyReport}
+            onRedundancyThresholdChange={setRedundancyThreshold}
+            droppedColumns={droppedColumns}
+            onDropRedundantColumns={handleDropRedundantColumns}
+            onRestoreDroppedColumns={handleRestoreDroppedColumns}
             kmeansIteration={kmeansIteration}
+            kmeansMetrics={kmeansMetrics} // NEW: Cluster-quality metrics strip
+            kSweepResult={kSweepResult} // NEW: Elbow / silhouette curves
+            selectedK={numClusters}
+            onSelectK={handleSelectK}
             latestSuccessfulStage={latestSuccessfulStage}
             visualizationDisplayStage={visualizationDisplayStage} // NEW: Pass user's selected stage
             onStageSelect={handleVisualizationStageSelect} // NEW: Pass handler for stage selection
-            availableFeatureKeys={availableFeatureKeys} // <-- Pass new prop
+            availableFeatureKeys={keptFeatureKeys} // Only features with columns left after dropping / selection
+            classificationResult={classificationResult} // NEW: Marker for a classified song
           />
 
           {/* Controls Panel (Right Column, Full Height, Max Width)*/}
@@ -2062,21 +3746,55 @@ export default function DashboardPage() {
             isProcessingData={isProcessingData}
             hasProcessedData={hasProcessedData}
             onProcessData={handleStartDataProcessing}
+            imputationStrategy={imputationStrategy}
+            onImputationStrategyChange={setImputationStrategy}
             // K-Means Step Control Props
             isKmeansInitialized={isKmeansInitialized}
             onNextStep={handleNextKmeansStep}
+            isKmeansAutoRunning={isKmeansAutoRunning}
+            onRunToConvergence={handleRunKmeansToConvergence}
+            seedSongCount={kmeansSeedSongIds.size}
+            constraintCount={clusterConstraints.length}
+            numClusters={numClusters}
+            onNumClustersChange={setNumClusters}
+            isSweepingK={isSweepingK}
+            onSuggestK={handleSuggestK}
+            isRunningClusteringAlgorithm={isRunningClusteringAlgorithm}
+            onRunClusteringAlgorithm={handleRunClusteringAlgorithm}
             // Pass isClustering to potentially disable init button while clustering is active
             isClusteringActive={isClustering}
             // --- NEW: Pass algo explanation handler ---
             onShowAlgoExplanation={handleShowAlgoExplanation} 
             // -----------------------------------------
+            // --- NEW: New Song Classification Props ---
+            canClassify={clusteringMethod === 'kmeans' && kmeansCentroids.length > 0 && scalerParams != null && reducerModel != null}
+            isClassifying={isClassifying}
+            classificationResult={classificationResult}
+            onClassifySong={handleClassifyClick}
+            // ------------------------------------------
+            // --- NEW: Model Bundle Props ---
+            canSaveModel={canSaveModel}
+            onSaveModel={handleSaveModel}
+            onLoadModel={handleLoadModelClick}
+            restoredFeatureIds={restoredFeatureIds}
+            // -------------------------------
           />
 
-          {/* Log Panel (Middle Column, Bottom Row) */}
-          <LogPanel
-            className="col-span-1 row-span-1 h-[20vh] ml-4 mr-4" // Updated spans
-            logs={filteredLogMessages}
-          />
+          {/* Log Panel and Cluster Summary (Middle Column, Bottom Row) */}
+          <div className="col-span-1 row-span-1 h-[20vh] ml-4 mr-4 flex gap-4 min-w-0">
+            <LogPanel
+              className="flex-1 min-w-0 h-full" // Updated spans
+              logs={filteredLogMessages}
+            />
+            {/* NEW: What each cluster is about, once there are clusters */}
+            {clusterDescriptions.length > 0 && (
+              <ClusterSummaryPanel
+                className="flex-1 min-w-0 h-full"
+                descriptions={clusterDescriptions}
+                clusterLabels={clusterLabels}
+              />
+            )}
+          </div>
         </div>
       </div>
 
@@ -0,0 +1,65 @@
+// songcluster/src/components/ClusterSummaryPanel.tsx
+import React from 'react';
+import BasePanel from './ui/BasePanel';
+import { ClusterDescription, ClusterLabels } from '@/app/page';
+
+interface ClusterSummaryPanelProps {
+  descriptions: ClusterDescription[]; // One per (non-noise) cluster
+  clusterLabels: ClusterLabels; // User-given names and colours
+  className?: string;
+}
+
+// Color definitions (should match VisualizationPanel)
+const plotlyColors = [
+  '#1f77b4', '#ff7f0e', '#2ca02c', '#d62728', '#9467bd', '#8c564b', '#e377c2', '#7f7f7f', '#bcbd22', '#17becf',
+  '#aec7e8', '#ffbb78', '#98df8a', '#ff9896', '#c5b0d5', '#c49c94', '#f7b6d2', '#c7c7c7', '#dbdb8d', '#9edae5',
+  '#393b79', '#843c39', '#5254a3', '#8c6d31', '#637939', '#8ca252', '#b5cf6b', '#cedb9c', '#8c6d31', '#bd9e39'
+];
+
+// Bars are scaled so this many standard deviations fill the whole width
+const MAX_BAR_Z = 3;
+
+const ClusterSummaryPanel: React.FC<ClusterSummaryPanelProps> = ({ descriptions, clusterLabels, className }) => {
+  const panelClassName = `flex flex-col mt-2 ${className || ''}`.replace('p-4', '').replace('relative', '').trim();
+
+  return (
+    <BasePanel
+      className={panelClassName}
+      data-augmented-ui="tl-clip tr-clip br-clip bl-clip border"
+      style={{ '--aug-border-bg': 'var(--foreground)',
+        '--aug-border-x': '1px' } as React.CSSProperties}
+    >
+      <h2 className="ml-2 text-lg font-semibold mb-2 text-[var(--accent-secondary)]">Cluster Summary</h2>
+      <div className="flex-grow overflow-y-auto p-2 text-xs hide-scrollbar">
+        {descriptions.map(({ cluster, size, summary, deviations }) => {
+          const color = clusterLabels[cluster]?.color ?? plotlyColors[cluster % plotlyColors.length];
+          const name = clusterLabels[cluster]?.name || `Cluster ${cluster}`;
+          return (
+            <div key={cluster} className="mb-2 pl-2" style={{ borderLeft: `3px solid ${color}` }}>
+              <div className="flex items-baseline gap-2">
+                <span className="font-semibold" style={{ color }}>{name}</span>
+                <span className="text-gray-400">{size} song(s)</span>
+              </div>
+              <p className="text-gray-200">{summary}</p>
+              {/* Strongest deviations from the collection mean, in standard deviations */}
+              {deviations.map(({ column, label, zScore }) => (
+                <div key={column} className="flex items-center gap-2 text-gray-400" title={`${column}: ${zScore >= 0 ? '+' : ''}${zScore.toFixed(2)} SD from the mean of all clustered songs`}>
+                  <span className="w-40 truncate">{label}</span>
+                  <div className="flex-grow h-1.5 bg-gray-700/50">
+                    <div
+                      className={`h-full ${zScore >= 0 ? 'bg-green-400/70' : 'bg-red-400/70'}`}
+                      style={{ width: `${Math.min(Math.abs(zScore) / MAX_BAR_Z, 1) * 100}%` }}
+                    />
+                  </div>
+                  <span className="w-10 text-right">{zScore >= 0 ? '+' : ''}{zScore.toFixed(1)}σ</span>
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </BasePanel>
+  );
+};
+
+export default ClusterSummaryPanel;
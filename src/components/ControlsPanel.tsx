@@ -1,12 +1,51 @@
-import React, { useState, useMemo, useCallback } from 'react';
+import React, { useState, useMemo, useCallback, useEffect } from 'react';
 import { CogIcon, InformationCircleIcon, BeakerIcon, PlayIcon, StopIcon, ArrowPathIcon, SparklesIcon, ChevronDownIcon, ChevronUpIcon } from '@heroicons/react/24/solid';
 import BasePanel from '@/components/ui/BasePanel';
 import Button from '@/components/ui/Button';
 
 // Type for reduction method (assuming it's defined elsewhere or should be here)
-type ReductionMethod = 'pca' | 'tsne' | 'umap';
+type ReductionMethod = 'pca' | 'tsne' | 'umap' | 'mds' | 'isomap' | 'lle' | 'trimap' | 'ltsa';
 // Type for data processing method
-type ProcessingMethod = 'none' | 'standardize' | 'normalize';
+type ProcessingMethod = 'none' | 'standardize' | 'normalize' | 'robust' | 'log1p' | 'yeoJohnson' | 'l2';
+// Missing-value imputation when building the matrix, mirroring page.tsx
+type ImputationStrategy = 'none' | 'mean' | 'median' | 'knn' | 'indicator';
+// Feature selection before scaling, mirroring page.tsx
+interface FeatureSelectionOptions {
+  varianceThreshold?: number;
+  nearConstantShare?: number;
+  laplacianTopN?: number;
+  laplacianNeighbors?: number;
+}
+// Feature weights applied after scaling, mirroring page.tsx
+interface FeatureWeighting {
+  weights: Record<string, number>; // Feature ID -> weight
+  balanceByColumnCount: boolean;
+}
+// K-Means centroid initialization, mirroring page.tsx
+type KmeansInitStrategy = 'random' | 'kmeans++' | 'farthest' | 'manual';
+type ClusterSpace = 'reduced' | 'processed';
+interface KmeansInitOptions {
+  initStrategy: KmeansInitStrategy;
+  seed?: number;
+  nInit?: number;
+  clusterSpace?: ClusterSpace;
+}
+// Clustering algorithms and their parameters, mirroring page.tsx
+type ClusteringMethod = 'kmeans' | 'dbscan' | 'agglomerative' | 'gmm';
+type ClusteringLinkage = 'ward' | 'average' | 'complete';
+type ClusteringRequest =
+  | { method: 'dbscan', params: { eps?: number, minPts: number } }
+  | { method: 'agglomerative', params: { nClusters: number, linkage: ClusteringLinkage } }
+  | { method: 'gmm', params: { nComponents: number, maxIterations: number, tolerance: number, seed?: number } };
+// Result of classifying a new song, mirroring page.tsx
+interface ClassificationResult {
+  songName: string;
+  cluster: number;
+  distance: number;
+  runnerUpCluster: number | null;
+  runnerUpDistance: number | null;
+  reducedPoint: number[];
+}
 
 // Define props based on analysis of page.tsx
 interface ControlsPanelProps {
@@ -22,10 +61,12 @@ interface ControlsPanelProps {
   hasReducedDataForActiveSongs: boolean;
   hasProcessedData: boolean; // Data has been processed (NEW derived state)
   onExtractFeatures: (selectedFeatures: Set<string>) => void;
-  onProcessData: (method: ProcessingMethod, range?: [number, number]) => void; // (NEW)
+  onProcessData: (method: ProcessingMethod, range?: [number, number], weighting?: FeatureWeighting, selection?: FeatureSelectionOptions) => void; // (NEW)
+  imputationStrategy: ImputationStrategy; // Owned by page.tsx, which also builds the matrix after extraction
+  onImputationStrategyChange: (strategy: ImputationStrategy) => void;
   // Type for the reduction method, mirroring page.tsx
   onReduceDimensions: (method: ReductionMethod, dimensions: number, params?: Record<string, unknown>) => void;
-  onRunClustering: (k: number) => void; // Handler to start clustering
+  onRunClustering: (k: number, initOptions?: KmeansInitOptions) => void; // Handler to start clustering
   onShowExplanation: (featureId: string) => void; // For MIR features
   onShowAlgoExplanation: (algorithmId: string) => void; // <-- ADDED: For algorithms
   className?: string; // Allow passing className for layout adjustments
@@ -33,6 +74,27 @@ interface ControlsPanelProps {
   isKmeansInitialized: boolean;
   onNextStep: () => void;
   isClusteringActive: boolean; // New flag specifically for K-Means activity state
+  isKmeansAutoRunning: boolean; // True while the worker runs steps until convergence
+  onRunToConvergence: (tolerance: number, maxIterations: number) => void;
+  seedSongCount: number; // Songs marked as seeds in the song list
+  constraintCount: number; // Must-link / cannot-link pairs set in the song list
+  numClusters: number; // k, owned by page.tsx so the k sweep plot can set it
+  onNumClustersChange: (k: number) => void;
+  isSweepingK: boolean;
+  onSuggestK: (kMin: number, kMax: number, initOptions?: KmeansInitOptions) => void;
+  // --- NEW Props for the other clustering algorithms ---
+  isRunningClusteringAlgorithm: boolean;
+  onRunClusteringAlgorithm: (request: ClusteringRequest, clusterSpace: ClusterSpace) => void;
+  // --- NEW Props for New Song Classification ---
+  canClassify: boolean; // A trained K-Means model with fitted scaler/reducer exists
+  isClassifying: boolean;
+  classificationResult: ClassificationResult | null;
+  onClassifySong: () => void; // Opens the file picker for the song to classify
+  // --- NEW Props for Saving/Loading a Model Bundle ---
+  canSaveModel: boolean;
+  onSaveModel: () => void;
+  onLoadModel: () => void; // Opens the file picker for a saved bundle
+  restoredFeatureIds: string[] | null; // Feature selection restored from a loaded bundle
 }
 
 // Placeholder for available MIR features
@@ -59,13 +121,137 @@ const availableMirFeatures = [
   { id: 'spectralFlux', name: 'Spectral Flux'},
 ];
 
-// Placeholder for available Dim Reduction algorithms
-const availableDimReducers = [
+// Available data processing methods; ids double as algorithmExplanations.json keys
+const availableProcessingMethods: { id: ProcessingMethod, name: string }[] = [
+  { id: 'standardize', name: 'Standardize (Z-score)' },
+  { id: 'normalize', name: 'Normalize (Min-Max)' },
+  { id: 'robust', name: 'Robust (Median/IQR)' },
+  { id: 'log1p', name: 'Log1p' },
+  { id: 'yeoJohnson', name: 'Yeo-Johnson' },
+  { id: 'l2', name: 'L2 Row Norm' },
+];
+
+// Ways to fill feature values missing from some songs (e.g. a failed tuning frequency estimate)
+const availableImputationStrategies: { id: ImputationStrategy, name: string, title: string }[] = [
+  { id: 'none', name: 'Drop Feature', title: 'Leave out every feature that is missing from any song' },
+  { id: 'mean', name: 'Mean', title: 'Fill missing values with the column mean' },
+  { id: 'median', name: 'Median', title: 'Fill missing values with the column median' },
+  { id: 'knn', name: 'k-NN', title: 'Fill missing values from the 5 most similar songs' },
+  { id: 'indicator', name: 'Mean + Indicator', title: 'Fill with the column mean and add a 0/1 "missing" column per affected feature' },
+];
+
+// Upper bound of a feature weight (0 removes a feature from distances)
+const MAX_FEATURE_WEIGHT = 10;
+
+// Available K-Means initialization strategies
+const availableInitStrategies: { id: KmeansInitStrategy, name: string }[] = [
+  { id: 'random', name: 'Random' },
+  { id: 'kmeans++', name: 'k-means++' },
+  { id: 'farthest', name: 'Farthest Point' },
+  { id: 'manual', name: 'Seed Songs' },
+];
+
+// Spaces clustering can run in; results are always shown in the reduced view
+const availableClusterSpaces: { id: ClusterSpace, name: string, title: string }[] = [
+  { id: 'reduced', name: 'Reduced', title: 'Project then cluster: cluster the 2D/3D embedding' },
+  { id: 'processed', name: 'Full Features', title: 'Cluster then project: cluster the scaled full-dimensional features' },
+];
+
+// Available clustering algorithms; ids double as algorithmExplanations.json keys
+const availableClusteringAlgorithms: { id: ClusteringMethod, name: string }[] = [
+  { id: 'kmeans', name: 'K-Means' },
+  { id: 'dbscan', name: 'DBSCAN' },
+  { id: 'agglomerative', name: 'Agglomerative' },
+  { id: 'gmm', name: 'GMM' },
+];
+
+// Linkage criteria for agglomerative clustering
+const availableLinkages: { id: ClusteringLinkage, name: string }[] = [
+  { id: 'ward', name: 'Ward' },
+  { id: 'average', name: 'Average' },
+  { id: 'complete', name: 'Complete' },
+];
+
+// Available Dim Reduction algorithms; ids double as algorithmExplanations.json keys
+const availableDimReducers: { id: ReductionMethod, name: string }[] = [
   { id: 'pca', name: 'PCA' },
   { id: 'tsne', name: 't-SNE' },
   { id: 'umap', name: 'UMAP' },
+  { id: 'mds', name: 'MDS' },
+  { id: 'isomap', name: 'Isomap' },
+  { id: 'lle', name: 'LLE' },
+  { id: 'trimap', name: 'TriMap' },
+  { id: 'ltsa', name: 'LTSA' },
+];
+
+// --- NEW: Method-specific reducer parameters ---
+// Inputs are kept as strings while editing and parsed when the reduction starts
+interface ReducerParamField {
+  key: string;             // Payload key read by the druid worker
+  label: string;
+  title: string;
+  defaultValue: string;    // Empty = let the worker pick
+  placeholder?: string;
+  integer?: boolean;
+  positive?: boolean;      // Must be above zero
+  min?: number;            // Inclusive bounds
+  max?: number;
+  belowSongCount?: boolean; // Must be below the number of songs
+  neighborCount?: boolean; // Must lie above the target dimensions and below the song count
+  options?: { id: string, name: string }[]; // Radio choices instead of a text input
+  checkbox?: boolean;      // On/off switch; the input holds 'true' or 'false'
+}
+
+const neighborsField: ReducerParamField = {
+  key: 'neighbors',
+  label: 'Neighbours',
+  title: 'Size of the neighbourhood graph. Leave empty to use a tenth of the songs.',
+  defaultValue: '',
+  placeholder: 'auto',
+  integer: true,
+  neighborCount: true
+};
+
+const distanceMetricOptions = [
+  { id: 'euclidean', name: 'Euclidean' },
+  { id: 'manhattan', name: 'Manhattan' },
+  { id: 'cosine', name: 'Cosine' },
+  { id: 'chebyshev', name: 'Chebyshev' },
 ];
 
+const reducerParamFields: Partial<Record<ReductionMethod, ReducerParamField[]>> = {
+  pca: [
+    { key: 'whiten', label: 'Whitening', title: 'Scale every component to unit variance, so each axis counts equally in distances', defaultValue: 'false', checkbox: true },
+  ],
+  tsne: [
+    { key: 'perplexity', label: 'Perplexity', title: 'Effective number of neighbours per song. Must be below the number of songs. Leave empty to use 30, or a third of the songs in small libraries.', defaultValue: '', placeholder: 'auto', positive: true, belowSongCount: true },
+    { key: 'learningRate', label: 'Learning Rate', title: 'Step size of the gradient descent', defaultValue: '10', positive: true },
+    { key: 'iterations', label: 'Iterations', title: 'Number of optimisation steps', defaultValue: '500', integer: true, min: 1, max: 5000 },
+    { key: 'exaggeration', label: 'Exaggeration', title: 'Factor applied to the attractive forces during the first 100 iterations, to separate clusters early', defaultValue: '4', min: 1, max: 50 },
+  ],
+  umap: [
+    { key: 'neighbors', label: 'Neighbours', title: 'Size of the local neighbourhood; larger values favour global structure.', defaultValue: '5', integer: true, neighborCount: true },
+    { key: 'minDist', label: 'Min Dist', title: 'How tightly points may be packed in the embedding (0 to 1)', defaultValue: '0.1', min: 0, max: 1 },
+    { key: 'metric', label: 'Distance', title: 'Distance between song vectors used to find neighbours', defaultValue: 'euclidean', options: distanceMetricOptions },
+    { key: 'epochs', label: 'Epochs', title: 'Number of training epochs', defaultValue: '350', integer: true, min: 1, max: 5000 },
+  ],
+  mds: [{
+    key: 'metric',
+    label: 'Distance',
+    title: 'Distance between song vectors that MDS tries to preserve',
+    defaultValue: 'euclidean',
+    options: distanceMetricOptions
+  }],
+  isomap: [neighborsField],
+  lle: [neighborsField],
+  ltsa: [neighborsField],
+  trimap: [
+    { key: 'weightAdj', label: 'Weight Adj.', title: 'Scaling of the triplet weights; larger values flatten them', defaultValue: '500', positive: true },
+    { key: 'tripletMultiplier', label: 'Triplets', title: 'Triplets sampled per song and neighbour', defaultValue: '5', integer: true, min: 1 },
+  ],
+};
+// --- END NEW ---
+
 const ControlsPanel: React.FC<ControlsPanelProps> = ({ 
   isProcessing,
   isProcessingData,
@@ -78,6 +264,8 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({
   hasProcessedData,
   onExtractFeatures,
   onProcessData,
+  imputationStrategy,
+  onImputationStrategyChange,
   onReduceDimensions,
   onRunClustering,
   onShowExplanation,
@@ -86,18 +274,75 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({
   // --- NEW Props for Manual K-Means Control ---
   isKmeansInitialized,
   onNextStep,
-  isClusteringActive
+  isClusteringActive,
+  isKmeansAutoRunning,
+  onRunToConvergence,
+  seedSongCount,
+  constraintCount,
+  numClusters,
+  onNumClustersChange,
+  isSweepingK,
+  onSuggestK,
+  isRunningClusteringAlgorithm,
+  onRunClusteringAlgorithm,
+  // --- NEW Props for New Song Classification ---
+  canClassify,
+  isClassifying,
+  classificationResult,
+  onClassifySong,
+  // --- NEW Props for Saving/Loading a Model Bundle ---
+  canSaveModel,
+  onSaveModel,
+  onLoadModel,
+  restoredFeatureIds
 }) => {
   // State for selected controls
   const [selectedMirFeatures, setSelectedMirFeatures] = useState<Set<string>>(() => new Set(['mfcc'])); // Default MFCC
   const [selectedDimReducer, setSelectedDimReducer] = useState<ReductionMethod>('tsne'); // Default t-SNE
   const [targetDimensions, setTargetDimensions] = useState<number>(2); // Default 2D
-  const [numClusters, setNumClusters] = useState<number>(3); // Default k=3
+  const [reducerParamInputs, setReducerParamInputs] = useState<Partial<Record<ReductionMethod, Record<string, string>>>>({}); // Missing = field default
+  // --- NEW: Range swept by "Suggest k" ---
+  const [sweepKMin, setSweepKMin] = useState<number>(2);
+  const [sweepKMax, setSweepKMax] = useState<number>(10);
+  // --- NEW: Centroid initialization settings ---
+  const [selectedInitStrategy, setSelectedInitStrategy] = useState<KmeansInitStrategy>('random');
+  const [initSeedInput, setInitSeedInput] = useState<string>(''); // Empty = not reproducible
+  const [numRestarts, setNumRestarts] = useState<number>(1); // n_init
+  const [selectedClusterSpace, setSelectedClusterSpace] = useState<ClusterSpace>('reduced');
+  // --- NEW: Auto-run (run to convergence) settings ---
+  const [convergenceTolerance, setConvergenceTolerance] = useState<number>(0.0001);
+  const [maxIterations, setMaxIterations] = useState<number>(100);
+  // --- NEW: Algorithm choice and the parameters of the non-K-Means algorithms ---
+  const [selectedClusteringAlgorithm, setSelectedClusteringAlgorithm] = useState<ClusteringMethod>('kmeans');
+  const [dbscanEpsInput, setDbscanEpsInput] = useState<string>(''); // Empty = estimate from the k-distance curve
+  const [dbscanMinPts, setDbscanMinPts] = useState<number>(4);
+  const [selectedLinkage, setSelectedLinkage] = useState<ClusteringLinkage>('ward');
 
   // --- NEW: State for Data Processing Method ---
   const [selectedProcessingMethod, setSelectedProcessingMethod] = useState<ProcessingMethod>('standardize');
   const [selectedNormalizationRange, setSelectedNormalizationRange] = useState<'[0,1]' | '[-1,1]'>('[0,1]');
   // -------------------------------------------
+  // --- NEW: Feature weights (per MIR feature ID) ---
+  const [isWeightsOpen, setIsWeightsOpen] = useState<boolean>(false);
+  const [featureWeights, setFeatureWeights] = useState<Record<string, number>>({}); // Missing = 1
+  const [balanceWeightsByColumnCount, setBalanceWeightsByColumnCount] = useState<boolean>(false);
+  // -------------------------------------------
+  // --- NEW: Feature selection before scaling (empty input = pass disabled) ---
+  const [isSelectionOpen, setIsSelectionOpen] = useState<boolean>(false);
+  const [isFeatureSelectionEnabled, setIsFeatureSelectionEnabled] = useState<boolean>(false);
+  const [varianceThresholdInput, setVarianceThresholdInput] = useState<string>('0.001');
+  const [nearConstantShareInput, setNearConstantShareInput] = useState<string>('0.95');
+  const [laplacianTopNInput, setLaplacianTopNInput] = useState<string>('');
+  const [laplacianNeighbors, setLaplacianNeighbors] = useState<number>(5);
+  // -------------------------------------------
+
+  // --- NEW: Reflect the feature selection of a loaded model bundle ---
+  useEffect(() => {
+    if (restoredFeatureIds) {
+      setSelectedMirFeatures(new Set(restoredFeatureIds));
+    }
+  }, [restoredFeatureIds]);
+  // ------------------------------------------------------------------
 
   const handleMirFeatureToggle = (featureId: string) => {
     setSelectedMirFeatures(prev => {
@@ -117,38 +362,205 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({
     const value = parseInt(e.target.value, 10);
     // Allow value to be 1 or more
     if (!isNaN(value) && value >= 1) {
-        setNumClusters(value);
+        onNumClustersChange(value);
     } else if (e.target.value === '' || value === 0) {
-        setNumClusters(1); // Reset to 1 if empty or 0
+        onNumClustersChange(1); // Reset to 1 if empty or 0
+    }
+  };
+
+  // --- NEW: Initialization options shared by clustering and the k sweep ---
+  const getInitOptions = (): KmeansInitOptions => {
+    const seed = initSeedInput.trim() === '' ? undefined : parseInt(initSeedInput, 10);
+    return {
+      initStrategy: selectedInitStrategy,
+      nInit: numRestarts,
+      clusterSpace: selectedClusterSpace,
+      ...(seed !== undefined && !isNaN(seed) && { seed })
+    };
+  };
+
+  // --- NEW: Start clustering with the chosen initialization ---
+  const handleInitializeClustering = () => {
+    onRunClustering(numClusters, getInitOptions());
+  };
+
+  // --- NEW: Handlers for the k sweep range ---
+  const handleSweepKMinChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseInt(e.target.value, 10);
+    if (!isNaN(value) && value >= 1) {
+        setSweepKMin(value);
+    }
+  };
+
+  const handleSweepKMaxChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseInt(e.target.value, 10);
+    if (!isNaN(value) && value >= 1) {
+        setSweepKMax(value);
     }
   };
 
+  const handleNumRestartsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseInt(e.target.value, 10);
+    if (!isNaN(value) && value >= 1) {
+        setNumRestarts(value);
+    } else if (e.target.value === '' || value === 0) {
+        setNumRestarts(1);
+    }
+  };
+
+  // --- NEW: Handlers for auto-run settings ---
+  const handleToleranceChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseFloat(e.target.value);
+    if (!isNaN(value) && value >= 0) {
+        setConvergenceTolerance(value);
+    }
+  };
+
+  const handleMaxIterationsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseInt(e.target.value, 10);
+    if (!isNaN(value) && value >= 1) {
+        setMaxIterations(value);
+    } else if (e.target.value === '' || value === 0) {
+        setMaxIterations(1);
+    }
+  };
+  const handleDbscanMinPtsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseInt(e.target.value, 10);
+    if (!isNaN(value) && value >= 1) {
+        setDbscanMinPts(value);
+    } else if (e.target.value === '' || value === 0) {
+        setDbscanMinPts(1);
+    }
+  };
+  // ---------------------------------------------
+
+  // --- NEW: Build the request for DBSCAN, agglomerative or GMM ---
+  const handleRunClusteringAlgorithm = () => {
+    const space = selectedClusterSpace;
+    switch (selectedClusteringAlgorithm) {
+      case 'dbscan': {
+        const eps = dbscanEpsInput.trim() === '' ? undefined : parseFloat(dbscanEpsInput);
+        onRunClusteringAlgorithm({ method: 'dbscan', params: { minPts: dbscanMinPts, ...(eps !== undefined && { eps }) } }, space);
+        break;
+      }
+      case 'agglomerative':
+        onRunClusteringAlgorithm({ method: 'agglomerative', params: { nClusters: numClusters, linkage: selectedLinkage } }, space);
+        break;
+      case 'gmm': {
+        const { seed } = getInitOptions();
+        onRunClusteringAlgorithm({
+          method: 'gmm',
+          params: { nComponents: numClusters, maxIterations, tolerance: convergenceTolerance, ...(seed !== undefined && { seed }) }
+        }, space);
+        break;
+      }
+    }
+  };
+  // ---------------------------------------------
+
   // --- NEW: Handler for starting data processing ---
   const handleStartProcessing = () => {
     const range = selectedProcessingMethod === 'normalize' 
                     ? (selectedNormalizationRange === '[0,1]' ? [0, 1] as [number, number] : [-1, 1] as [number, number])
                     : undefined;
-    onProcessData(selectedProcessingMethod, range);
+    onProcessData(
+      selectedProcessingMethod,
+      range,
+      { weights: featureWeights, balanceByColumnCount: balanceWeightsByColumnCount },
+      isFeatureSelectionEnabled ? getFeatureSelectionOptions() : undefined
+    );
   };
+
+  // --- NEW: Feature selection inputs ---
+  const varianceThreshold = varianceThresholdInput.trim() === '' ? undefined : parseFloat(varianceThresholdInput);
+  const nearConstantShare = nearConstantShareInput.trim() === '' ? undefined : parseFloat(nearConstantShareInput);
+  const laplacianTopN = laplacianTopNInput.trim() === '' ? undefined : parseInt(laplacianTopNInput, 10);
+  const isFeatureSelectionValid = !isFeatureSelectionEnabled || (
+    (varianceThreshold === undefined || (varianceThreshold >= 0 && varianceThreshold < 0.25)) &&
+    (nearConstantShare === undefined || (nearConstantShare > 0 && nearConstantShare <= 1)) &&
+    (laplacianTopN === undefined || (/^\d+$/.test(laplacianTopNInput.trim()) && laplacianTopN >= 1))
+  );
+  const getFeatureSelectionOptions = (): FeatureSelectionOptions => ({
+    ...(varianceThreshold !== undefined && { varianceThreshold }),
+    ...(nearConstantShare !== undefined && { nearConstantShare }),
+    ...(laplacianTopN !== undefined && { laplacianTopN, laplacianNeighbors })
+  });
+
+  const handleLaplacianNeighborsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseInt(e.target.value, 10);
+    if (!isNaN(value) && value >= 1) {
+        setLaplacianNeighbors(value);
+    }
+  };
+
+  const handleFeatureWeightChange = (featureId: string, e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseFloat(e.target.value);
+    if (!isNaN(value) && value >= 0) {
+        setFeatureWeights(prev => ({ ...prev, [featureId]: Math.min(value, MAX_FEATURE_WEIGHT) }));
+    }
+  };
+  const hasCustomWeights = balanceWeightsByColumnCount || Object.values(featureWeights).some(w => w !== 1);
+  // ---------------------------------------------
+
+  // --- NEW: Reducer parameter inputs ---
+  const selectedReducerParamFields = reducerParamFields[selectedDimReducer] ?? [];
+  const getReducerParamInput = (field: ReducerParamField): string =>
+    reducerParamInputs[selectedDimReducer]?.[field.key] ?? field.defaultValue;
+  const handleReducerParamChange = (field: ReducerParamField, value: string) => {
+    setReducerParamInputs(prev => ({ ...prev, [selectedDimReducer]: { ...prev[selectedDimReducer], [field.key]: value } }));
+  };
+  const isReducerParamValid = (field: ReducerParamField): boolean => {
+    const input = getReducerParamInput(field).trim();
+    if (field.options) return field.options.some(option => option.id === input);
+    if (field.checkbox) return true;
+    if (input === '') return field.defaultValue === '';
+    const value = Number(input);
+    if (!Number.isFinite(value) || (field.integer && !Number.isInteger(value))) return false;
+    if ((field.positive && value <= 0) || (field.min !== undefined && value < field.min) || (field.max !== undefined && value > field.max)) return false;
+    if (field.belowSongCount && value >= activeSongCount) return false;
+    return !field.neighborCount || (value > targetDimensions && value < activeSongCount);
+  };
+  const areReducerParamsValid = selectedReducerParamFields.every(isReducerParamValid);
   // ---------------------------------------------
 
   // Handler to trigger dimension reduction
   const handleProceedReduction = () => {
-    // TODO: Add logic here later to gather method-specific parameters if needed (e.g., perplexity)
-    const params = {}; // Placeholder for extra parameters
+    const params: Record<string, unknown> = {};
+    selectedReducerParamFields.forEach(field => {
+      const input = getReducerParamInput(field).trim();
+      if (input === '') return; // Worker default
+      params[field.key] = field.options ? input : field.checkbox ? input === 'true' : Number(input);
+    });
     onReduceDimensions(selectedDimReducer, targetDimensions, params);
   };
 
-  const canProcessData = hasFeaturesForActiveSongs && !isProcessing && !isReducing;
+  const canProcessData = hasFeaturesForActiveSongs && !isProcessing && !isReducing && isFeatureSelectionValid;
 
   // Determine if the reduction button should be enabled
-  const canReduceDimensions = hasProcessedData && !isProcessing && !isProcessingData;
+  const canReduceDimensions = hasProcessedData && !isProcessing && !isProcessingData && areReducerParamsValid;
 
   // --- NEW: Determine if K-Means can be *initialized* --- 
-  const canInitializeCluster = !isProcessing && !isProcessingData && !isReducing && activeSongCount > 0 && hasReducedDataForActiveSongs && numClusters > 0;
+  const isSeedInputValid = initSeedInput.trim() === '' || /^\d+$/.test(initSeedInput.trim());
+  const hasValidSeedSongs = selectedInitStrategy !== 'manual' || (seedSongCount > 0 && seedSongCount <= numClusters);
+  const canInitializeCluster = !isProcessing && !isProcessingData && !isReducing && activeSongCount > 0 && hasReducedDataForActiveSongs && numClusters > 0 && isSeedInputValid && hasValidSeedSongs;
+
+  // --- NEW: Determine if k can be swept ---
+  const isSweepRangeValid = sweepKMin >= 1 && sweepKMax > sweepKMin && sweepKMax <= activeSongCount;
+  const canSuggestK = !isProcessing && !isProcessingData && !isReducing && !isSweepingK && hasReducedDataForActiveSongs && isSweepRangeValid && isSeedInputValid;
+
+  // --- NEW: Determine if DBSCAN, agglomerative or GMM can run ---
+  const isEpsInputValid = dbscanEpsInput.trim() === '' || parseFloat(dbscanEpsInput) > 0;
+  const areAlgorithmParamsValid = selectedClusteringAlgorithm === 'dbscan'
+    ? isEpsInputValid
+    : numClusters <= activeSongCount && (selectedClusteringAlgorithm !== 'gmm' || isSeedInputValid);
+  const canRunClusteringAlgorithm = !isProcessing && !isProcessingData && !isReducing && !isRunningClusteringAlgorithm && activeSongCount > 0 && hasReducedDataForActiveSongs && areAlgorithmParamsValid;
+  const selectedAlgorithmName = availableClusteringAlgorithms.find(a => a.id === selectedClusteringAlgorithm)?.name ?? selectedClusteringAlgorithm;
 
   // --- NEW: Determine if the "Next Step" button should be enabled --- 
-  const canRunNextStep = isKmeansInitialized && !isProcessing && !isProcessingData && !isReducing;
+  const canRunNextStep = isKmeansInitialized && !isKmeansAutoRunning && !isProcessing && !isProcessingData && !isReducing;
+
+  // --- NEW: Determine if a new song can be classified ---
+  const canClassifySong = canClassify && essentiaWorkerReady && !isClassifying && !isProcessing && !isProcessingData && !isReducing;
 
   return (
     <BasePanel
@@ -246,7 +658,7 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({
             <div className="mb-2">
                 <span className="text-xs block mb-1 text-[var(--text-secondary)]">Method:</span>
                 <div className="flex gap-2 flex-wrap">
-                    {['standardize', 'normalize'].map(method => (
+                    {availableProcessingMethods.map(({ id: method, name }) => (
                         <div key={method} className="relative group flex items-center">
                             <label className="text-xs pl-1 py-1 cursor-pointer border border-gray-700 hover:border-[var(--accent-primary)]/50 data-[checked=true]:bg-[var(--accent-primary)]/20 data-[checked=true]:border-[var(--accent-primary)]" data-checked={selectedProcessingMethod === method}>
                                 <input 
@@ -258,12 +670,12 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({
                                     className="hidden"
                                     disabled={isProcessing}
                                 />
-                                {method === 'standardize' ? 'Standardize (Z-score)' : 'Normalize (Min-Max)'}
+                                {name}
                             </label>
                             <button
                                 onClick={() => onShowAlgoExplanation(method)}
                                 className="absolute right-0 top-1/2 -translate-y-1/2 ml-1 px-1 py-0.5 text-xs bg-gray-700 hover:bg-gray-600 text-[var(--text-secondary)] hover:text-[var(--text-primary)] border border-blue-900/50 invisible group-hover:visible disabled:opacity-[var(--disabled-opacity)] disabled:cursor-not-allowed z-10"
-                                title={`Explain ${method === 'standardize' ? 'Standardization' : 'Normalization'}`}
+                                title={`Explain ${name}`}
                                 disabled={isProcessing || isProcessingData || isReducing}
                             >
                                 ?
@@ -294,6 +706,142 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({
                     </div>
                 </div>
             )}
+            {/* NEW: Missing values, filled in while the matrix is built */}
+            <div className="mb-2">
+                <span className="text-xs block mb-1 text-[var(--text-secondary)]">Missing Values:</span>
+                <div className="flex gap-2 flex-wrap">
+                    {availableImputationStrategies.map(strategy => (
+                        <label key={strategy.id} title={strategy.title} className="text-xs px-1 py-1 cursor-pointer border border-gray-700 hover:border-[var(--accent-primary)]/50 data-[checked=true]:bg-[var(--accent-primary)]/20 data-[checked=true]:border-[var(--accent-primary)]" data-checked={imputationStrategy === strategy.id}>
+                            <input
+                                type="radio"
+                                name="imputationStrategy"
+                                value={strategy.id}
+                                checked={imputationStrategy === strategy.id}
+                                onChange={(e) => onImputationStrategyChange(e.target.value as ImputationStrategy)}
+                                className="hidden"
+                                disabled={isProcessing || isProcessingData}
+                            />
+                            {strategy.name}
+                        </label>
+                    ))}
+                </div>
+            </div>
+            {/* NEW: Feature selection, applied before scaling */}
+            <div className="mb-2">
+                <button
+                    onClick={() => setIsSelectionOpen(open => !open)}
+                    className="flex items-center gap-1 text-xs text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+                    title="Remove uninformative columns before scaling; one-hot columns are always kept"
+                >
+                    {isSelectionOpen ? <ChevronUpIcon className="h-3 w-3" /> : <ChevronDownIcon className="h-3 w-3" />}
+                    Feature Selection{isFeatureSelectionEnabled ? ' (on)' : ''}
+                </button>
+                {isSelectionOpen && (
+                    <div className="mt-1 ml-4 flex flex-col gap-1 text-xs">
+                        <label className="flex items-center gap-1 text-[var(--text-secondary)] cursor-pointer">
+                            <input
+                                type="checkbox"
+                                checked={isFeatureSelectionEnabled}
+                                onChange={(e) => setIsFeatureSelectionEnabled(e.target.checked)}
+                                className="h-3 w-3"
+                                disabled={isProcessingData}
+                            />
+                            Select features before processing
+                        </label>
+                        <label className="flex items-center justify-between gap-2" title="Remove columns whose variance, after rescaling to [0, 1], is at or below this value. Empty = skip">
+                            <span className="text-[var(--text-secondary)]">Variance ≤</span>
+                            <input
+                                type="text"
+                                value={varianceThresholdInput}
+                                onChange={(e) => setVarianceThresholdInput(e.target.value)}
+                                placeholder="off"
+                                className={`p-1 bg-gray-400/10 border text-xs w-16 ${varianceThreshold === undefined || (varianceThreshold >= 0 && varianceThreshold < 0.25) ? 'border-gray-400/50' : 'border-red-500'}`}
+                                disabled={!isFeatureSelectionEnabled || isProcessingData}
+                            />
+                        </label>
+                        <label className="flex items-center justify-between gap-2" title="Remove columns where a single value covers at least this share of songs. Empty = skip">
+                            <span className="text-[var(--text-secondary)]">Near-constant share ≥</span>
+                            <input
+                                type="text"
+                                value={nearConstantShareInput}
+                                onChange={(e) => setNearConstantShareInput(e.target.value)}
+                                placeholder="off"
+                                className={`p-1 bg-gray-400/10 border text-xs w-16 ${nearConstantShare === undefined || (nearConstantShare > 0 && nearConstantShare <= 1) ? 'border-gray-400/50' : 'border-red-500'}`}
+                                disabled={!isFeatureSelectionEnabled || isProcessingData}
+                            />
+                        </label>
+                        <label className="flex items-center justify-between gap-2" title="Keep only the N numerical columns with the best Laplacian score (columns that best preserve the neighbourhoods between songs). Empty = keep all">
+                            <span className="text-[var(--text-secondary)]">Laplacian top N</span>
+                            <input
+                                type="text"
+                                value={laplacianTopNInput}
+                                onChange={(e) => setLaplacianTopNInput(e.target.value)}
+                                placeholder="all"
+                                className={`p-1 bg-gray-400/10 border text-xs w-16 ${laplacianTopN === undefined || (/^\d+$/.test(laplacianTopNInput.trim()) && laplacianTopN >= 1) ? 'border-gray-400/50' : 'border-red-500'}`}
+                                disabled={!isFeatureSelectionEnabled || isProcessingData}
+                            />
+                        </label>
+                        <label className="flex items-center justify-between gap-2" title="Neighbours per song in the graph behind the Laplacian score">
+                            <span className="text-[var(--text-secondary)]">Neighbours (k)</span>
+                            <input
+                                type="number"
+                                min={1}
+                                value={laplacianNeighbors}
+                                onChange={handleLaplacianNeighborsChange}
+                                className="p-1 bg-gray-400/10 border border-gray-400/50 text-xs w-16"
+                                disabled={!isFeatureSelectionEnabled || laplacianTopN === undefined || isProcessingData}
+                            />
+                        </label>
+                    </div>
+                )}
+            </div>
+            {/* NEW: Feature weights, applied after scaling */}
+            <div className="mb-3">
+                <button
+                    onClick={() => setIsWeightsOpen(open => !open)}
+                    className="flex items-center gap-1 text-xs text-[var(--text-secondary)] hover:text-[var(--text-primary)]"
+                    title="Weight each feature's columns after scaling; features with many columns (MFCC, mel bands) otherwise dominate distances"
+                >
+                    {isWeightsOpen ? <ChevronUpIcon className="h-3 w-3" /> : <ChevronDownIcon className="h-3 w-3" />}
+                    Feature Weights{hasCustomWeights ? ' (custom)' : ''}
+                </button>
+                {isWeightsOpen && (
+                    <div className="mt-1 ml-4 flex flex-col gap-1">
+                        {availableMirFeatures.filter(feature => selectedMirFeatures.has(feature.id)).map(feature => (
+                            <label key={feature.id} className="flex items-center justify-between gap-2 text-xs">
+                                <span className="text-[var(--text-secondary)] truncate">{feature.name}</span>
+                                <input
+                                    type="number"
+                                    min={0}
+                                    max={MAX_FEATURE_WEIGHT}
+                                    step={0.1}
+                                    value={featureWeights[feature.id] ?? 1}
+                                    onChange={(e) => handleFeatureWeightChange(feature.id, e)}
+                                    className="p-1 bg-gray-400/10 border border-gray-400/50 text-xs w-16"
+                                    disabled={isProcessingData}
+                                />
+                            </label>
+                        ))}
+                        <label className="flex items-center gap-1 text-xs text-[var(--text-secondary)] cursor-pointer" title="Divide each feature's weight by the square root of its column count, so every feature contributes equally to squared distances">
+                            <input
+                                type="checkbox"
+                                checked={balanceWeightsByColumnCount}
+                                onChange={(e) => setBalanceWeightsByColumnCount(e.target.checked)}
+                                className="h-3 w-3"
+                                disabled={isProcessingData}
+                            />
+                            Balance by column count
+                        </label>
+                        <button
+                            onClick={() => { setFeatureWeights({}); setBalanceWeightsByColumnCount(false); }}
+                            disabled={!hasCustomWeights || isProcessingData}
+                            className="self-start text-xs text-[var(--accent-primary)] hover:underline disabled:opacity-[var(--disabled-opacity)] disabled:cursor-not-allowed"
+                        >
+                            Reset weights
+                        </button>
+                    </div>
+                )}
+            </div>
             {/* Process Data Button */} 
             <Button
                 variant="primary"
@@ -306,6 +854,7 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({
                     isProcessing ? "Feature extraction active..." :
                     isReducing ? "Dimension reduction active..." :
                     isProcessingData ? "Processing data..." :
+                    !isFeatureSelectionValid ? "Fix the feature selection settings" :
                     "Process selected data"
                 }
             >
@@ -385,6 +934,58 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({
                 </div>
             </div>
           </div>
+          {/* --- NEW: Method-specific parameters --- */}
+          {selectedReducerParamFields.length > 0 && (
+            <div className="flex flex-wrap gap-x-4 gap-y-2 mb-2 items-center">
+              {selectedReducerParamFields.map(field => field.checkbox ? (
+                <label key={field.key} className="flex items-center gap-1 text-xs text-[var(--text-secondary)] cursor-pointer" title={field.title}>
+                    <input
+                        type="checkbox"
+                        checked={getReducerParamInput(field) === 'true'}
+                        onChange={(e) => handleReducerParamChange(field, String(e.target.checked))}
+                        className="h-3 w-3"
+                        disabled={isProcessing || isProcessingData || isReducing}
+                    />
+                    {field.label}
+                </label>
+              ) : field.options ? (
+                <div key={field.key} title={field.title}>
+                  <span className="text-xs block mb-1 text-[var(--text-secondary)]">{field.label}:</span>
+                  <div className="flex gap-2 flex-wrap">
+                      {field.options.map(option => (
+                          <label key={option.id} className="text-xs px-1 py-1 cursor-pointer border border-gray-700 hover:border-[var(--accent-primary)]/50 data-[checked=true]:bg-[var(--accent-primary)]/20 data-[checked=true]:border-[var(--accent-primary)]" data-checked={getReducerParamInput(field) === option.id}>
+                              <input 
+                                  type="radio" 
+                                  name={`reducerParam-${field.key}`}
+                                  value={option.id}
+                                  checked={getReducerParamInput(field) === option.id}
+                                  onChange={(e) => handleReducerParamChange(field, e.target.value)}
+                                  className="hidden"
+                                  disabled={isProcessing || isProcessingData || isReducing}
+                              />
+                              {option.name}
+                          </label>
+                      ))}
+                  </div>
+                </div>
+              ) : (
+                <div key={field.key} className="flex items-center gap-2">
+                  <label htmlFor={`reducer-param-${field.key}`} className="text-xs text-[var(--text-secondary)] flex-shrink-0">{field.label}:</label>
+                  <input
+                    id={`reducer-param-${field.key}`}
+                    type="text"
+                    inputMode={field.integer ? 'numeric' : 'decimal'}
+                    placeholder={field.placeholder}
+                    value={getReducerParamInput(field)}
+                    onChange={(e) => handleReducerParamChange(field, e.target.value)}
+                    className={`p-1 bg-gray-400/10 border text-xs w-16 ${isReducerParamValid(field) ? 'border-gray-400/50' : 'border-red-500'}`}
+                    title={field.neighborCount ? `${field.title} Must be between ${targetDimensions + 1} and ${activeSongCount - 1}.` : field.belowSongCount ? `${field.title} (${activeSongCount} songs)` : field.title}
+                    disabled={isProcessing || isProcessingData || isReducing}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
           {/* ADDED Proceed Button - Updated Logic */}
           <Button
                 variant="primary"
@@ -398,6 +999,7 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({
                     isProcessing ? "Feature extraction active..." :
                     isProcessingData ? "Data processing active..." :
                     isReducing ? "Reducing dimensions..." :
+                    !areReducerParamsValid ? "Fix the highlighted reducer parameters" :
                     "Run selected reduction method"
                 }
             >
@@ -405,22 +1007,44 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({
             </Button>
         </div>
 
-        {/* === K-Means Clustering === */}
+        {/* === Clustering === */}
         <div 
             className="mb-4 p-3 relative group"
             data-augmented-ui="tl-clip br-clip border"
             style={{ '--aug-border-bg': 'var(--foreground)',
             '--aug-border-all': '1px',
               '--aug-border-y': '2px' } as React.CSSProperties} >
-          <h3 className="text-md font-semibold ml-2 mb-2 text-[var(--accent-primary)]">K-Means Clustering</h3>
+          <h3 className="text-md font-semibold ml-2 mb-2 text-[var(--accent-primary)]">Clustering</h3>
           <button
-              onClick={() => onShowAlgoExplanation('kmeans')}
+              onClick={() => onShowAlgoExplanation(selectedClusteringAlgorithm)}
               className="absolute top-1 right-1 px-1 py-0.5 text-xs bg-gray-700 hover:bg-gray-600 text-[var(--text-secondary)] hover:text-[var(--text-primary)] border border-blue-900/50 invisible group-hover:visible disabled:opacity-[var(--disabled-opacity)] disabled:cursor-not-allowed z-10"
-              title="Explain K-Means Clustering"
+              title={`Explain ${selectedAlgorithmName}`}
               
           >
               ?
           </button>
+          {/* --- NEW: Algorithm choice --- */}
+          <div className="mb-2">
+            <span className="text-xs block mb-1 text-[var(--text-secondary)]">Algorithm:</span>
+            <div className="flex gap-2 flex-wrap">
+                {availableClusteringAlgorithms.map(algorithm => (
+                    <label key={algorithm.id} className="text-xs px-1 py-1 cursor-pointer border border-gray-700 hover:border-[var(--accent-primary)]/50 data-[checked=true]:bg-[var(--accent-primary)]/20 data-[checked=true]:border-[var(--accent-primary)]" data-checked={selectedClusteringAlgorithm === algorithm.id}>
+                        <input 
+                            type="radio" 
+                            name="clusteringAlgorithm" 
+                            value={algorithm.id}
+                            checked={selectedClusteringAlgorithm === algorithm.id}
+                            onChange={(e) => setSelectedClusteringAlgorithm(e.target.value as ClusteringMethod)}
+                            className="hidden"
+                            disabled={isProcessing || isProcessingData || isReducing || isRunningClusteringAlgorithm}
+                        />
+                        {algorithm.name}
+                    </label>
+                ))}
+            </div>
+          </div>
+          {/* DBSCAN finds the number of clusters itself */}
+          {selectedClusteringAlgorithm !== 'dbscan' && (
           <div className="flex items-center gap-3 mb-2">
             <label htmlFor="num-clusters" className="text-xs text-[var(--text-secondary)] flex-shrink-0">Number of Clusters (k):</label>
             <input
@@ -432,45 +1056,397 @@ const ControlsPanel: React.FC<ControlsPanelProps> = ({
               disabled={!hasReducedDataForActiveSongs || isProcessing || isReducing || isProcessingData}
             />
           </div>
-          {/* --- Replacing Initialize Clustering with Button Component (Preserving Logic) --- */}
+          )}
+          {/* --- NEW: Space to cluster in --- */}
+          <div className="mb-2">
+            <span className="text-xs block mb-1 text-[var(--text-secondary)]">Cluster On:</span>
+            <div className="flex gap-2 flex-wrap">
+                {availableClusterSpaces.map(space => (
+                    <label key={space.id} title={space.title} className="text-xs px-1 py-1 cursor-pointer border border-gray-700 hover:border-[var(--accent-primary)]/50 data-[checked=true]:bg-[var(--accent-primary)]/20 data-[checked=true]:border-[var(--accent-primary)]" data-checked={selectedClusterSpace === space.id}>
+                        <input 
+                            type="radio" 
+                            name="kmeansClusterSpace" 
+                            value={space.id}
+                            checked={selectedClusterSpace === space.id}
+                            onChange={(e) => setSelectedClusterSpace(e.target.value as ClusterSpace)}
+                            className="hidden"
+                            disabled={isProcessing || isProcessingData || isReducing || (space.id === 'processed' && !hasProcessedData)}
+                        />
+                        {space.name}
+                    </label>
+                ))}
+            </div>
+          </div>
+          {/* K-Means: stepped training with its own initialization settings */}
+          {selectedClusteringAlgorithm === 'kmeans' && (
+          <>
+            {/* --- NEW: Suggest k by sweeping a range --- */}
+            <div className="flex items-center gap-2 mb-2">
+              <label htmlFor="sweep-k-min" className="text-xs text-[var(--text-secondary)] flex-shrink-0">Sweep k:</label>
+              <input
+                id="sweep-k-min"
+                type="number"
+                min={1}
+                value={sweepKMin}
+                onChange={handleSweepKMinChange}
+                className="p-1 bg-gray-400/10 border border-gray-400/50 text-xs w-12"
+                disabled={!hasReducedDataForActiveSongs || isSweepingK}
+              />
+              <span className="text-xs text-[var(--text-secondary)]">to</span>
+              <input
+                id="sweep-k-max"
+                type="number"
+                min={2}
+                value={sweepKMax}
+                onChange={handleSweepKMaxChange}
+                className={`p-1 bg-gray-400/10 border text-xs w-12 ${isSweepRangeValid || !hasReducedDataForActiveSongs ? 'border-gray-400/50' : 'border-red-500'}`}
+                disabled={!hasReducedDataForActiveSongs || isSweepingK}
+              />
+              <Button
+                  variant="secondary"
+                  enableTilt={true}
+                  onClick={() => onSuggestK(sweepKMin, sweepKMax, getInitOptions())}
+                  disabled={!canSuggestK}
+                  className="flex-grow text-xs"
+                  title={
+                      !hasReducedDataForActiveSongs ? "Reduce dimensions first" :
+                      !isSweepRangeValid ? `Range must satisfy 1 <= min < max <= ${activeSongCount} (active songs)` :
+                      isSweepingK ? "Sweep in progress..." :
+                      "Run K-Means to convergence for every k in the range and plot inertia and silhouette"
+                  }
+              >
+                  {isSweepingK ? 'Sweeping...' : 'Suggest k'}
+              </Button>
+            </div>
+            {/* --- NEW: Initialization strategy and seed --- */}
+            <div className="mb-2">
+              <span className="text-xs block mb-1 text-[var(--text-secondary)]">Initialization:</span>
+              <div className="flex gap-2 flex-wrap">
+                  {availableInitStrategies.map(strategy => (
+                      <label key={strategy.id} className="text-xs px-1 py-1 cursor-pointer border border-gray-700 hover:border-[var(--accent-primary)]/50 data-[checked=true]:bg-[var(--accent-primary)]/20 data-[checked=true]:border-[var(--accent-primary)]" data-checked={selectedInitStrategy === strategy.id}>
+                          <input 
+                              type="radio" 
+                              name="kmeansInitStrategy" 
+                              value={strategy.id}
+                              checked={selectedInitStrategy === strategy.id}
+                              onChange={(e) => setSelectedInitStrategy(e.target.value as KmeansInitStrategy)}
+                              className="hidden"
+                              disabled={isProcessing || isProcessingData || isReducing}
+                          />
+                          {strategy.name}
+                      </label>
+                  ))}
+              </div>
+            </div>
+            <div className="flex items-center gap-3 mb-2">
+              <label htmlFor="kmeans-seed" className="text-xs text-[var(--text-secondary)] flex-shrink-0">Random Seed:</label>
+              <input
+                id="kmeans-seed"
+                type="text"
+                inputMode="numeric"
+                placeholder="none"
+                value={initSeedInput}
+                onChange={(e) => setInitSeedInput(e.target.value)}
+                className={`p-1 bg-gray-400/10 border text-xs w-16 flex-grow ${isSeedInputValid ? 'border-gray-400/50' : 'border-red-500'}`}
+                title="Non-negative integer. The same seed and data always give the same clusters."
+                disabled={!hasReducedDataForActiveSongs || isProcessing || isReducing || isProcessingData}
+              />
+              <label htmlFor="kmeans-restarts" className="text-xs text-[var(--text-secondary)] flex-shrink-0">Restarts:</label>
+              <input
+                id="kmeans-restarts"
+                type="number"
+                min={1}
+                value={numRestarts}
+                onChange={handleNumRestartsChange}
+                className="p-1 bg-gray-400/10 border border-gray-400/50 text-xs w-12"
+                title="Number of initializations to try (n_init). The one with the lowest inertia is kept."
+                disabled={!hasReducedDataForActiveSongs || isProcessing || isReducing || isProcessingData}
+              />
+            </div>
+            {selectedInitStrategy === 'manual' && (
+              <p className={`text-xs mb-2 ${hasValidSeedSongs ? 'text-[var(--text-secondary)]' : 'text-yellow-400'}`}>
+                {seedSongCount} seed song(s) marked in the song list{seedSongCount < numClusters ? '; remaining centroids use k-means++.' : '.'}
+              </p>
+            )}
+            {/* NEW: Constraints are honoured by the K-Means assignment step */}
+            {constraintCount > 0 && (
+              <p className="text-xs mb-2 text-[var(--text-secondary)]">
+                {constraintCount} must-link / cannot-link constraint(s) set in the song list.
+              </p>
+            )}
+            {/* --- Replacing Initialize Clustering with Button Component (Preserving Logic) --- */}
+            <Button
+                variant="primary"
+                enableTilt={true}
+                onClick={handleInitializeClustering}
+                disabled={!canInitializeCluster}
+                className="w-full text-sm"
+                title={
+                    !hasFeaturesForActiveSongs ? "Extract features first" :
+                    !hasProcessedData ? "Process data first" :
+                    !hasReducedDataForActiveSongs ? "Reduce dimensions first" :
+                    numClusters <= 0 ? "Set k > 0" :
+                    !isSeedInputValid ? "Seed must be a non-negative integer" :
+                    !hasValidSeedSongs ? `Mark between 1 and ${numClusters} seed songs in the song list` :
+                    isProcessing ? "MIR processing..." :
+                    isProcessingData ? "Processing data..." :
+                    isReducing ? "Reducing dimensions..." :
+                    isClusteringActive ? "Re-Initialize K-Means (will reset current progress)" :
+                    "Initialize K-Means Clustering"
+                  }
+            >
+                {isClusteringActive ? 'Re-Initialize Clustering' : `Initialize Clustering (k=${numClusters})`}
+            </Button>
+
+            {/* --- NEW: Auto-run settings --- */}
+            <div className="flex items-center gap-2 mt-2">
+              <label htmlFor="kmeans-tolerance" className="text-xs text-[var(--text-secondary)] flex-shrink-0">Tolerance:</label>
+              <input
+                id="kmeans-tolerance"
+                type="number"
+                min={0}
+                step={0.0001}
+                value={convergenceTolerance}
+                onChange={handleToleranceChange}
+                className="p-1 bg-gray-400/10 border border-gray-400/50 text-xs w-20 flex-grow"
+                disabled={!isKmeansInitialized || isKmeansAutoRunning}
+              />
+              <label htmlFor="kmeans-max-iterations" className="text-xs text-[var(--text-secondary)] flex-shrink-0">Max Iter:</label>
+              <input
+                id="kmeans-max-iterations"
+                type="number"
+                min={1}
+                value={maxIterations}
+                onChange={handleMaxIterationsChange}
+                className="p-1 bg-gray-400/10 border border-gray-400/50 text-xs w-14 flex-grow"
+                disabled={!isKmeansInitialized || isKmeansAutoRunning}
+              />
+            </div>
+
+            <div className="flex gap-2 mt-2">
+              {/* --- Replacing Next Step with Button Component (Preserving Logic) --- */}
+              <Button
+                  variant="secondary"
+                  enableTilt={true}
+                  onClick={onNextStep}
+                  disabled={!canRunNextStep}
+                  className="flex-1 text-sm"
+                  title={
+                      !isKmeansInitialized ? "Initialize clustering first" :
+                      isKmeansAutoRunning ? "Auto-run in progress..." :
+                      isProcessing ? "MIR processing active..." :
+                      isProcessingData ? "Data processing active..." :
+                      isReducing ? "Reduction active..." :
+                      "Run next K-Means step"
+                  }
+              >
+                  Next Step
+              </Button>
+              {/* --- NEW: Run until convergence --- */}
+              <Button
+                  variant="secondary"
+                  enableTilt={true}
+                  onClick={() => onRunToConvergence(convergenceTolerance, maxIterations)}
+                  disabled={!canRunNextStep}
+                  className="flex-1 text-sm"
+                  title={
+                      !isKmeansInitialized ? "Initialize clustering first" :
+                      isKmeansAutoRunning ? "Auto-run in progress..." :
+                      "Run steps until assignments stop changing or the centroid shift falls below the tolerance"
+                  }
+              >
+                  {isKmeansAutoRunning ? 'Running...' : 'Auto-run'}
+              </Button>
+            </div>
+          </>
+          )}
+
+          {/* --- NEW: DBSCAN, agglomerative and GMM run in one shot --- */}
+          {selectedClusteringAlgorithm !== 'kmeans' && (
+          <>
+            {selectedClusteringAlgorithm === 'dbscan' && (
+              <div className="flex items-center gap-2 mb-2">
+                <label htmlFor="dbscan-eps" className="text-xs text-[var(--text-secondary)] flex-shrink-0">Eps:</label>
+                <input
+                  id="dbscan-eps"
+                  type="text"
+                  inputMode="decimal"
+                  placeholder="auto"
+                  value={dbscanEpsInput}
+                  onChange={(e) => setDbscanEpsInput(e.target.value)}
+                  className={`p-1 bg-gray-400/10 border text-xs w-16 flex-grow ${isEpsInputValid ? 'border-gray-400/50' : 'border-red-500'}`}
+                  title="Neighbourhood radius. Leave empty to estimate it from the k-distance curve."
+                  disabled={!hasReducedDataForActiveSongs || isRunningClusteringAlgorithm}
+                />
+                <label htmlFor="dbscan-min-pts" className="text-xs text-[var(--text-secondary)] flex-shrink-0">Min Points:</label>
+                <input
+                  id="dbscan-min-pts"
+                  type="number"
+                  min={1}
+                  value={dbscanMinPts}
+                  onChange={handleDbscanMinPtsChange}
+                  className="p-1 bg-gray-400/10 border border-gray-400/50 text-xs w-12"
+                  title="Songs (including itself) within eps needed for a song to seed a cluster"
+                  disabled={!hasReducedDataForActiveSongs || isRunningClusteringAlgorithm}
+                />
+              </div>
+            )}
+            {selectedClusteringAlgorithm === 'agglomerative' && (
+              <div className="mb-2">
+                <span className="text-xs block mb-1 text-[var(--text-secondary)]">Linkage:</span>
+                <div className="flex gap-2 flex-wrap">
+                    {availableLinkages.map(linkage => (
+                        <label key={linkage.id} className="text-xs px-1 py-1 cursor-pointer border border-gray-700 hover:border-[var(--accent-primary)]/50 data-[checked=true]:bg-[var(--accent-primary)]/20 data-[checked=true]:border-[var(--accent-primary)]" data-checked={selectedLinkage === linkage.id}>
+                            <input 
+                                type="radio" 
+                                name="agglomerativeLinkage" 
+                                value={linkage.id}
+                                checked={selectedLinkage === linkage.id}
+                                onChange={(e) => setSelectedLinkage(e.target.value as ClusteringLinkage)}
+                                className="hidden"
+                                disabled={isRunningClusteringAlgorithm}
+                            />
+                            {linkage.name}
+                        </label>
+                    ))}
+                </div>
+              </div>
+            )}
+            {selectedClusteringAlgorithm === 'gmm' && (
+              <>
+                <div className="flex items-center gap-2 mb-2">
+                  <label htmlFor="gmm-tolerance" className="text-xs text-[var(--text-secondary)] flex-shrink-0">Tolerance:</label>
+                  <input
+                    id="gmm-tolerance"
+                    type="number"
+                    min={0}
+                    step={0.0001}
+                    value={convergenceTolerance}
+                    onChange={handleToleranceChange}
+                    className="p-1 bg-gray-400/10 border border-gray-400/50 text-xs w-20 flex-grow"
+                    title="Stop when the mean log-likelihood improves by less than this"
+                    disabled={!hasReducedDataForActiveSongs || isRunningClusteringAlgorithm}
+                  />
+                  <label htmlFor="gmm-max-iterations" className="text-xs text-[var(--text-secondary)] flex-shrink-0">Max Iter:</label>
+                  <input
+                    id="gmm-max-iterations"
+                    type="number"
+                    min={1}
+                    value={maxIterations}
+                    onChange={handleMaxIterationsChange}
+                    className="p-1 bg-gray-400/10 border border-gray-400/50 text-xs w-14 flex-grow"
+                    disabled={!hasReducedDataForActiveSongs || isRunningClusteringAlgorithm}
+                  />
+                </div>
+                <div className="flex items-center gap-3 mb-2">
+                  <label htmlFor="gmm-seed" className="text-xs text-[var(--text-secondary)] flex-shrink-0">Random Seed:</label>
+                  <input
+                    id="gmm-seed"
+                    type="text"
+                    inputMode="numeric"
+                    placeholder="none"
+                    value={initSeedInput}
+                    onChange={(e) => setInitSeedInput(e.target.value)}
+                    className={`p-1 bg-gray-400/10 border text-xs w-16 flex-grow ${isSeedInputValid ? 'border-gray-400/50' : 'border-red-500'}`}
+                    title="Non-negative integer. Seeds the k-means++ placement of the component means."
+                    disabled={!hasReducedDataForActiveSongs || isRunningClusteringAlgorithm}
+                  />
+                </div>
+              </>
+            )}
+            <Button
+                variant="primary"
+                enableTilt={true}
+                onClick={handleRunClusteringAlgorithm}
+                disabled={!canRunClusteringAlgorithm}
+                className="w-full text-sm"
+                title={
+                    !hasFeaturesForActiveSongs ? "Extract features first" :
+                    !hasProcessedData ? "Process data first" :
+                    !hasReducedDataForActiveSongs ? "Reduce dimensions first" :
+                    !isEpsInputValid && selectedClusteringAlgorithm === 'dbscan' ? "Eps must be a positive number or empty" :
+                    !isSeedInputValid && selectedClusteringAlgorithm === 'gmm' ? "Seed must be a non-negative integer" :
+                    numClusters > activeSongCount && selectedClusteringAlgorithm !== 'dbscan' ? `k must not exceed ${activeSongCount} (active songs)` :
+                    isRunningClusteringAlgorithm ? "Clustering in progress..." :
+                    `Run ${selectedAlgorithmName} (replaces the current clusters)`
+                  }
+            >
+                {isRunningClusteringAlgorithm ? 'Clustering...' : `Run ${selectedAlgorithmName}${selectedClusteringAlgorithm === 'dbscan' ? '' : ` (k=${numClusters})`}`}
+            </Button>
+          </>
+          )}
+        </div>
+
+        {/* === NEW: Classify New Song === */}
+        <div 
+            className="mb-4 p-3 flex flex-col"
+            data-augmented-ui="tl-clip br-clip border"
+            style={{ '--aug-border-bg': 'var(--foreground)',
+            '--aug-border-all': '1px',
+              '--aug-border-y': '2px' } as React.CSSProperties} >
+          <h3 className="text-md font-semibold ml-2 mb-2 text-[var(--accent-primary)]">Classify New Song</h3>
           <Button
               variant="primary"
               enableTilt={true}
-              onClick={() => onRunClustering(numClusters)}
-              disabled={!canInitializeCluster}
+              onClick={onClassifySong}
+              disabled={!canClassifySong}
               className="w-full text-sm"
               title={
-                  !hasFeaturesForActiveSongs ? "Extract features first" :
-                  !hasProcessedData ? "Process data first" :
-                  !hasReducedDataForActiveSongs ? "Reduce dimensions first" :
-                  numClusters <= 0 ? "Set k > 0" :
-                  isProcessing ? "MIR processing..." :
-                  isProcessingData ? "Processing data..." :
-                  isReducing ? "Reducing dimensions..." :
-                  isClusteringActive ? "Re-Initialize K-Means (will reset current progress)" :
-                  "Initialize K-Means Clustering"
+                  !canClassify ? "Run processing, reduction and K-Means clustering first" :
+                  !essentiaWorkerReady ? "Essentia worker not ready" :
+                  isClassifying ? "Classification in progress..." :
+                  "Upload a song and assign it to the nearest trained cluster"
                 }
           >
-              {isClusteringActive ? 'Re-Initialize Clustering' : `Initialize Clustering (k=${numClusters})`}
+              {isClassifying ? 'Classifying...' : 'Upload & Classify'}
           </Button>
+          {classificationResult && (
+            <div className="mt-2 text-xs text-[var(--text-secondary)] space-y-0.5">
+              <p className="truncate" title={classificationResult.songName}>{classificationResult.songName}</p>
+              <p>
+                Nearest: <span className="text-[var(--text-primary)]">Cluster {classificationResult.cluster}</span>
+                {' '}(distance {classificationResult.distance.toFixed(3)})
+              </p>
+              {classificationResult.runnerUpCluster !== null && classificationResult.runnerUpDistance !== null && (
+                <p>
+                  Runner-up: Cluster {classificationResult.runnerUpCluster}
+                  {' '}(distance {classificationResult.runnerUpDistance.toFixed(3)})
+                </p>
+              )}
+            </div>
+          )}
+        </div>
 
-          {/* --- Replacing Next Step with Button Component (Preserving Logic) --- */}
+        {/* === NEW: Model Bundle === */}
+        <div 
+            className="mb-4 p-3 flex flex-col"
+            data-augmented-ui="tl-clip br-clip border"
+            style={{ '--aug-border-bg': 'var(--foreground)',
+            '--aug-border-all': '1px',
+              '--aug-border-y': '2px' } as React.CSSProperties} >
+          <h3 className="text-md font-semibold ml-2 mb-2 text-[var(--accent-primary)]">Trained Model</h3>
+          <div className="flex gap-2">
             <Button
                 variant="secondary"
                 enableTilt={true}
-                onClick={onNextStep}
-                disabled={!canRunNextStep}
-                className="w-full text-sm mt-2"
-                title={
-                    !isKmeansInitialized ? "Initialize clustering first" :
-                    isProcessing ? "MIR processing active..." :
-                    isProcessingData ? "Data processing active..." :
-                    isReducing ? "Reduction active..." :
-                    "Run next K-Means step"
-                }
-          >
-              Next Step
+                onClick={onSaveModel}
+                disabled={!canSaveModel}
+                className="flex-1 text-sm"
+                title={!canSaveModel ? "Run the pipeline up to K-Means first" : "Download features, scaler, reducer and clusters as a JSON bundle"}
+            >
+                Save Model
             </Button>
+            <Button
+                variant="secondary"
+                enableTilt={true}
+                onClick={onLoadModel}
+                disabled={isProcessing || isProcessingData || isReducing || isClassifying}
+                className="flex-1 text-sm"
+                title="Restore a previously saved model bundle"
+            >
+                Load Model
+            </Button>
+          </div>
         </div>
       </div>
 
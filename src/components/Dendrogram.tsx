@@ -0,0 +1,223 @@
+// songcluster/src/components/Dendrogram.tsx
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { ClusterTree, KmeansAssignments } from '@/app/page';
+
+interface DendrogramProps {
+  tree: ClusterTree;
+  songNames: Record<string, string>; // Leaf labels
+  assignments: KmeansAssignments; // Current flat clusters, used to color leaves and branches
+  numClusters: number; // Clusters of the current cut
+  onCut: (nClusters: number) => void; // Called whenever dragging the cut line changes the cluster count
+  colors: string[]; // Cluster palette shared with the scatter plot
+  className?: string;
+}
+
+const MARGIN = { top: 30, right: 20, bottom: 110, left: 50 };
+const BRANCH_COLOR = '#888888'; // Branches above the cut join different clusters
+const MAX_LABEL_LENGTH = 18;
+
+// Positions every node of the merge tree: leaves are spread along x in traversal order
+// (so branches never cross), merges sit above the midpoint of their children.
+const layoutTree = (tree: ClusterTree) => {
+  const n = tree.songIds.length;
+  const { merges } = tree;
+  const numNodes = n + merges.length;
+  const rootId = numNodes - 1;
+
+  const leafOrder: number[] = [];
+  const stack = [rootId];
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    if (node < n) {
+      leafOrder.push(node);
+    } else {
+      const merge = merges[node - n];
+      stack.push(merge.b, merge.a); // Visit a before b
+    }
+  }
+
+  const xOf: number[] = Array(numNodes).fill(0);
+  const heightOf: number[] = Array(numNodes).fill(0);
+  leafOrder.forEach((leaf, position) => { xOf[leaf] = position; });
+  merges.forEach((merge, m) => {
+    xOf[n + m] = (xOf[merge.a] + xOf[merge.b]) / 2;
+    heightOf[n + m] = merge.distance;
+  });
+
+  const maxHeight = merges.reduce((max, merge) => Math.max(max, merge.distance), 0);
+  return { n, leafOrder, xOf, heightOf, maxHeight };
+};
+
+const Dendrogram: React.FC<DendrogramProps> = ({ tree, songNames, assignments, numClusters, onCut, colors, className }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [size, setSize] = useState<{ width: number, height: number }>({ width: 0, height: 0 });
+  const yScaleRef = useRef<d3.ScaleLinear<number, number> | null>(null);
+  const isDraggingRef = useRef<boolean>(false);
+  // Latest props for the d3 drag handlers, which are only attached when the tree is redrawn
+  const onCutRef = useRef(onCut);
+  const numClustersRef = useRef(numClusters);
+  onCutRef.current = onCut;
+  numClustersRef.current = numClusters;
+
+  const layout = useMemo(() => layoutTree(tree), [tree]);
+  const yDomainMax = layout.maxHeight > 0 ? layout.maxHeight * 1.05 : 1;
+
+  // Height of a cut line that leaves `k` clusters: halfway between the merges on either side
+  const cutHeightFor = useMemo(() => (k: number): number => {
+    const { merges } = tree;
+    const applied = Math.min(Math.max(layout.n - k, 0), merges.length);
+    const below = applied > 0 ? merges[applied - 1].distance : 0;
+    const above = applied < merges.length ? merges[applied].distance : yDomainMax;
+    return (below + above) / 2;
+  }, [tree, layout.n, yDomainMax]);
+
+  // Clusters left when every merge at or below `threshold` is applied
+  const clustersAt = useMemo(() => (threshold: number): number =>
+    Math.max(1, layout.n - tree.merges.filter(merge => merge.distance <= threshold).length),
+  [tree, layout.n]);
+
+  // Track the container size so the tree fills the plot area
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(entries => {
+      const { width, height } = entries[0].contentRect;
+      setSize({ width, height });
+    });
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Draw axis, branches, leaf labels and the draggable cut line
+  useEffect(() => {
+    const svgElement = svgRef.current;
+    const { width, height } = size;
+    if (!svgElement || width === 0 || height === 0) return;
+
+    const svg = d3.select(svgElement);
+    svg.selectAll('*').remove();
+
+    const { n, leafOrder, xOf, heightOf } = layout;
+    const x = d3.scaleLinear().domain([-0.5, Math.max(n - 0.5, 0.5)]).range([MARGIN.left, width - MARGIN.right]);
+    const y = d3.scaleLinear().domain([0, yDomainMax]).range([height - MARGIN.bottom, MARGIN.top]);
+    yScaleRef.current = y;
+
+    const axis = svg.append('g')
+      .attr('transform', `translate(${MARGIN.left - 5},0)`)
+      .call(d3.axisLeft(y).ticks(5));
+    axis.selectAll('path, line').attr('stroke', '#cccccc');
+    axis.selectAll('text').attr('fill', '#cccccc');
+    svg.append('text')
+      .attr('transform', `translate(12,${(MARGIN.top + height - MARGIN.bottom) / 2}) rotate(-90)`)
+      .attr('text-anchor', 'middle')
+      .attr('fill', '#cccccc')
+      .attr('font-size', 11)
+      .text('Merge distance');
+
+    svg.append('g')
+      .attr('class', 'dendrogram-links')
+      .selectAll('path')
+      .data(tree.merges.map((merge, m) => ({ merge, id: n + m })))
+      .join('path')
+      .attr('d', ({ merge, id }) =>
+        `M${x(xOf[merge.a])},${y(heightOf[merge.a])}V${y(heightOf[id])}H${x(xOf[merge.b])}V${y(heightOf[merge.b])}`)
+      .attr('fill', 'none')
+      .attr('stroke', BRANCH_COLOR)
+      .attr('stroke-width', 1.2);
+
+    const step = x(1) - x(0);
+    svg.append('g')
+      .attr('class', 'dendrogram-labels')
+      .selectAll('text')
+      .data(leafOrder)
+      .join('text')
+      .attr('transform', leaf => `translate(${x(xOf[leaf])},${y(0) + 6}) rotate(-90)`)
+      .attr('text-anchor', 'end')
+      .attr('dominant-baseline', 'middle')
+      .attr('font-size', Math.max(4, Math.min(10, step * 0.9)))
+      .attr('fill', '#cccccc')
+      .text(leaf => {
+        const name = songNames[tree.songIds[leaf]] ?? tree.songIds[leaf];
+        return name.length > MAX_LABEL_LENGTH ? `${name.slice(0, MAX_LABEL_LENGTH - 1)}…` : name;
+      })
+      .append('title')
+      .text(leaf => songNames[tree.songIds[leaf]] ?? tree.songIds[leaf]);
+
+    // Cut line: the wide transparent stroke makes it easy to grab
+    const cut = svg.append('g')
+      .attr('class', 'dendrogram-cut')
+      .attr('transform', `translate(0,${y(cutHeightFor(numClustersRef.current))})`)
+      .style('cursor', 'ns-resize');
+    cut.append('line')
+      .attr('x1', MARGIN.left).attr('x2', width - MARGIN.right)
+      .attr('stroke', 'transparent').attr('stroke-width', 12);
+    cut.append('line')
+      .attr('x1', MARGIN.left).attr('x2', width - MARGIN.right)
+      .attr('stroke', 'var(--accent-secondary)').attr('stroke-width', 1.5).attr('stroke-dasharray', '6 3');
+    cut.append('text')
+      .attr('class', 'dendrogram-cut-label')
+      .attr('x', width - MARGIN.right).attr('y', -4)
+      .attr('text-anchor', 'end')
+      .attr('fill', 'var(--accent-secondary)')
+      .attr('font-size', 11)
+      .text(`k = ${numClustersRef.current}`);
+
+    let lastK = numClustersRef.current;
+    cut.call(d3.drag<SVGGElement, unknown>()
+      .on('start', () => { isDraggingRef.current = true; })
+      .on('drag', (event: d3.D3DragEvent<SVGGElement, unknown, unknown>) => {
+        const yPosition = Math.min(Math.max(event.y, MARGIN.top), y(0));
+        const k = clustersAt(y.invert(yPosition));
+        cut.attr('transform', `translate(0,${yPosition})`);
+        cut.select('.dendrogram-cut-label').text(`k = ${k}`);
+        if (k !== lastK) {
+          lastK = k;
+          onCutRef.current(k);
+        }
+      })
+      .on('end', () => {
+        isDraggingRef.current = false;
+        // Snap to the middle of the gap for the chosen k
+        cut.attr('transform', `translate(0,${y(cutHeightFor(lastK))})`);
+      }));
+  }, [size, layout, tree, songNames, yDomainMax, cutHeightFor, clustersAt]);
+
+  // Color leaves and every branch whose leaves share one cluster
+  useEffect(() => {
+    const svgElement = svgRef.current;
+    if (!svgElement) return;
+    const nodeCluster: (number | null)[] = tree.songIds.map(id => assignments[id] ?? null);
+    tree.merges.forEach(merge => {
+      const clusterA = nodeCluster[merge.a];
+      nodeCluster.push(clusterA !== null && clusterA === nodeCluster[merge.b] ? clusterA : null);
+    });
+    const colorOf = (cluster: number | null) => (cluster === null || cluster < 0 ? BRANCH_COLOR : colors[cluster % colors.length]);
+
+    const svg = d3.select(svgElement);
+    svg.select('.dendrogram-links').selectAll<SVGPathElement, { id: number }>('path')
+      .attr('stroke', ({ id }) => colorOf(nodeCluster[id]));
+    svg.select('.dendrogram-labels').selectAll<SVGTextElement, number>('text')
+      .attr('fill', leaf => colorOf(nodeCluster[leaf]));
+    // Also re-run after every redraw (same dependencies as the drawing effect)
+  }, [assignments, tree, layout, colors, size, songNames, yDomainMax, cutHeightFor, clustersAt]);
+
+  // Follow cluster count changes made elsewhere (k input, k sweep) while not dragging
+  useEffect(() => {
+    const svgElement = svgRef.current;
+    const y = yScaleRef.current;
+    if (!svgElement || !y || isDraggingRef.current) return;
+    const cut = d3.select(svgElement).select('.dendrogram-cut');
+    cut.attr('transform', `translate(0,${y(cutHeightFor(numClusters))})`);
+    cut.select('.dendrogram-cut-label').text(`k = ${numClusters}`);
+  }, [numClusters, cutHeightFor, size]);
+
+  return (
+    <div ref={containerRef} className={`w-full h-full min-h-0 ${className || ''}`}>
+      <svg ref={svgRef} width={size.width} height={size.height} />
+    </div>
+  );
+};
+
+export default Dendrogram;
@@ -1,5 +1,5 @@
 import React, { useState, DragEvent, useCallback, useMemo } from 'react';
-import { PlayIcon, PauseIcon, TrashIcon, InformationCircleIcon, ArrowUpTrayIcon } from '@heroicons/react/24/solid';
+import { PlayIcon, PauseIcon, TrashIcon, InformationCircleIcon, ArrowUpTrayIcon, MapPinIcon, LinkIcon, NoSymbolIcon, XMarkIcon, ExclamationTriangleIcon } from '@heroicons/react/24/solid';
 import Marquee from "react-fast-marquee";
 import BasePanel from './ui/BasePanel'; // <-- Import BasePanel
 import Button from './ui/Button'; // <-- Import Button
@@ -16,6 +16,21 @@ type FeatureStatus = 'idle' | 'processing' | 'complete' | 'error';
 interface KmeansAssignments {
     [songId: string]: number; // Map songId to cluster index
 }
+// Must-link / cannot-link pairs, mirroring page.tsx
+type ConstraintType = 'mustLink' | 'cannotLink';
+interface ClusterConstraint {
+    type: ConstraintType;
+    a: string;
+    b: string;
+}
+interface ConstraintViolation extends ClusterConstraint {
+    reason: 'contradiction' | 'noFeasibleCluster';
+}
+// User-given cluster names and colours, mirroring page.tsx
+interface ClusterLabel {
+    name?: string;
+    color?: string;
+}
 
 // Define props based on analysis of page.tsx
 interface SongListPanelProps {
@@ -23,6 +38,25 @@ interface SongListPanelProps {
   featureStatus: Record<string, FeatureStatus>;
   activeSongIds: Set<string>; // Set of IDs for songs included in processing
   kmeansAssignments: KmeansAssignments; // <-- ADDED PROP
+  clusterMemberships: Record<string, number[]> | null; // NEW: Soft membership per song ([cluster] -> weight)
+  // --- NEW: Must-link / cannot-link constraints for K-Means ---
+  clusterConstraints: ClusterConstraint[];
+  constraintViolations: ConstraintViolation[];
+  onAddConstraint: (constraint: ClusterConstraint) => void;
+  onRemoveConstraint: (constraint: ClusterConstraint) => void;
+  onClearConstraints: () => void;
+  // --- NEW: Manual cluster editing and labels ---
+  clusterLabels: Record<number, ClusterLabel>;
+  onReassignSongs: (songIds: string[], cluster: number) => void; // Drag a song onto another cluster
+  onUpdateClusterLabel: (cluster: number, label: ClusterLabel) => void;
+  // --- NEW: Songs brushed in the parallel-coordinates / SPLOM views ---
+  highlightedSongIds: Set<string> | null;
+  onClearHighlight: () => void;
+  // --- NEW: Seed songs for manual K-Means initialization ---
+  kmeansSeedSongIds: Set<string>;
+  onToggleSeedSong: (songId: string) => void;
+  // --- NEW: Features filled in by missing-value imputation (song ID -> feature keys) ---
+  imputedFeatures: Record<string, string[]>;
   isProcessing: boolean;
   onToggleSongActive: (songId: string) => void;
   onRemoveSong: (songId: string) => void;
@@ -39,6 +73,23 @@ interface SongListPanelProps {
   className?: string; // Allow passing className for layout adjustments
 }
 
+// --- NEW: DBSCAN marks noise songs with cluster -1; they get their own grey ---
+const NOISE_LABEL = -1;
+const NOISE_COLOR = '#6b7280';
+// --- END NEW ---
+
+// --- NEW: Songs whose two strongest memberships are this close are "between clusters" ---
+const BORDERLINE_MEMBERSHIP_MARGIN = 0.2;
+
+// The two strongest memberships of a song, strongest first
+const topTwoMemberships = (membership: number[]): { cluster: number, weight: number }[] =>
+  membership
+    .map((weight, cluster) => ({ cluster, weight }))
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, 2)
+    .filter(({ weight }) => weight > 0);
+// --------------------------------------------------------
+
 // --- ADDED: Color definitions (should match VisualizationPanel) ---
 const plotlyColors = [
   '#1f77b4',  // Muted blue
@@ -73,6 +124,9 @@ const plotlyColors = [
   '#bd9e39'   // Gold
 ];
 
+// --- NEW: Drag data type for moving songs between clusters (files use the browser's own type) ---
+const SONG_DRAG_TYPE = 'application/x-music-cluster-song';
+
 // --- ADDED: Helper function to convert hex to RGBA ---
 const hexToRgba = (hex: string, alpha: number): string => {
   const r = parseInt(hex.slice(1, 3), 16);
@@ -87,6 +141,20 @@ const SongListPanel: React.FC<SongListPanelProps> = ({
   featureStatus, 
   activeSongIds,
   kmeansAssignments, // <-- Destructure added prop
+  clusterMemberships,
+  clusterConstraints,
+  constraintViolations,
+  onAddConstraint,
+  onRemoveConstraint,
+  onClearConstraints,
+  clusterLabels,
+  onReassignSongs,
+  onUpdateClusterLabel,
+  highlightedSongIds,
+  onClearHighlight,
+  kmeansSeedSongIds,
+  onToggleSeedSong,
+  imputedFeatures,
   isProcessing,
   onToggleSongActive,
   onRemoveSong, 
@@ -103,7 +171,10 @@ const SongListPanel: React.FC<SongListPanelProps> = ({
   className 
 }) => {
   const [isDraggingOver, setIsDraggingOver] = useState(false);
+  // --- NEW: First song of a constraint being created (the second click completes the pair) ---
+  const [pendingConstraint, setPendingConstraint] = useState<{ type: ConstraintType, songId: string } | null>(null);
   const [hoveredItemId, setHoveredItemId] = useState<string | null>(null);
+  const [dropTargetCluster, setDropTargetCluster] = useState<number | null>(null); // Cluster under a dragged song
 
   // Sort songs: user songs first, then default songs (alphabetically within groups)
   const sortedSongs = useMemo(() => {
@@ -116,8 +187,10 @@ const SongListPanel: React.FC<SongListPanelProps> = ({
       
       // NEW: Secondary sort (within active songs): by cluster index
       if (aIsActive && bIsActive) {
-          const clusterA = kmeansAssignments[a.id];
-          const clusterB = kmeansAssignments[b.id];
+          // Noise songs go after every cluster
+          const toSortKey = (cluster: number | undefined) => (cluster === NOISE_LABEL ? Infinity : cluster);
+          const clusterA = toSortKey(kmeansAssignments[a.id]);
+          const clusterB = toSortKey(kmeansAssignments[b.id]);
 
           // Put assigned songs before unassigned
           if (clusterA !== undefined && clusterB === undefined) return -1;
@@ -141,10 +214,73 @@ const SongListPanel: React.FC<SongListPanelProps> = ({
     });
   }, [songs, activeSongIds, kmeansAssignments]);
 
+  // --- NEW: Cluster colours/names (user labels first, then the palette) and group sizes ---
+  const clusterColorOf = useCallback((cluster: number) =>
+    cluster === NOISE_LABEL ? NOISE_COLOR : (clusterLabels[cluster]?.color ?? plotlyColors[cluster % plotlyColors.length]),
+  [clusterLabels]);
+  const clusterNameOf = useCallback((cluster: number) =>
+    cluster === NOISE_LABEL ? 'Noise' : (clusterLabels[cluster]?.name || `Cluster ${cluster}`),
+  [clusterLabels]);
+
+  const clusterSizes = useMemo(() => {
+    const sizes = new Map<number, number>();
+    activeSongIds.forEach(id => {
+      const cluster = kmeansAssignments[id];
+      if (cluster !== undefined) sizes.set(cluster, (sizes.get(cluster) ?? 0) + 1);
+    });
+    return sizes;
+  }, [activeSongIds, kmeansAssignments]);
+
+  // Dragging a clustered song onto a row or header of another cluster moves it there
+  const handleSongDragStart = (event: DragEvent<HTMLLIElement>, songId: string) => {
+    event.dataTransfer.setData(SONG_DRAG_TYPE, songId);
+    event.dataTransfer.effectAllowed = 'move';
+  };
+
+  const handleClusterDragOver = (event: DragEvent<HTMLLIElement>, cluster: number | undefined) => {
+    if (cluster === undefined || !event.dataTransfer.types.includes(SONG_DRAG_TYPE)) return;
+    event.preventDefault();
+    event.stopPropagation();
+    event.dataTransfer.dropEffect = 'move';
+    if (dropTargetCluster !== cluster) setDropTargetCluster(cluster);
+  };
+
+  const handleClusterDrop = (event: DragEvent<HTMLLIElement>, cluster: number | undefined) => {
+    const songId = event.dataTransfer.getData(SONG_DRAG_TYPE);
+    setDropTargetCluster(null);
+    if (cluster === undefined || !songId) return;
+    event.preventDefault();
+    event.stopPropagation();
+    onReassignSongs([songId], cluster);
+  };
+  // --------------------------------
+
+  // --- NEW: Constraint helpers ---
+  const songNameOf = useCallback((id: string) => songs.find(song => song.id === id)?.name ?? id, [songs]);
+
+  const isViolated = useCallback((constraint: ClusterConstraint) =>
+    constraintViolations.some(v => v.type === constraint.type &&
+      ((v.a === constraint.a && v.b === constraint.b) || (v.a === constraint.b && v.b === constraint.a))),
+  [constraintViolations]);
+
+  // Click the same constraint button on two songs to link them; click it again on the first song to cancel
+  const handleConstraintClick = (type: ConstraintType, songId: string) => {
+    if (pendingConstraint && pendingConstraint.type === type) {
+      if (pendingConstraint.songId !== songId) {
+        onAddConstraint({ type, a: pendingConstraint.songId, b: songId });
+      }
+      setPendingConstraint(null);
+    } else {
+      setPendingConstraint({ type, songId });
+    }
+  };
+  // --------------------------------
+
   // Drag and Drop Handlers
   const handleDragOver = useCallback((event: DragEvent<HTMLDivElement>) => {
     event.preventDefault(); // Necessary to allow dropping
     event.stopPropagation();
+    if (event.dataTransfer.types.includes(SONG_DRAG_TYPE)) return; // Moving a song between clusters, not adding files
     if (!isDraggingOver) {
       setIsDraggingOver(true);
     }
@@ -164,6 +300,7 @@ const SongListPanel: React.FC<SongListPanelProps> = ({
     event.preventDefault();
     event.stopPropagation();
     setIsDraggingOver(false); // Reset visual state
+    setDropTargetCluster(null);
 
     if (isProcessing) return; // Don't allow drop while processing
 
@@ -232,29 +369,104 @@ const SongListPanel: React.FC<SongListPanelProps> = ({
         </div>
       )}
 
+      {/* NEW: Songs brushed in the plot */}
+      {highlightedSongIds && (
+        <div className="flex items-center justify-between text-xs mb-1 px-2 py-1 border border-[var(--accent-secondary)]/50 flex-shrink-0">
+          <span className="truncate">{highlightedSongIds.size} song(s) in the brushed range</span>
+          <button onClick={onClearHighlight} title="Clear highlight" className="text-gray-400 hover:text-gray-200 p-0.5 flex-shrink-0">
+            <XMarkIcon className="h-3 w-3" />
+          </button>
+        </div>
+      )}
+
+      {/* NEW: Hint while the second song of a constraint is being picked */}
+      {pendingConstraint && (
+        <div className="flex items-center justify-between text-xs mb-1 px-2 py-1 border border-[var(--accent-primary)]/50 flex-shrink-0">
+          <span className="truncate">
+            Pick the song to {pendingConstraint.type === 'mustLink' ? 'must-link' : 'cannot-link'} with {songNameOf(pendingConstraint.songId)}
+          </span>
+          <button onClick={() => setPendingConstraint(null)} title="Cancel" className="text-gray-400 hover:text-gray-200 p-0.5 flex-shrink-0">
+            <XMarkIcon className="h-3 w-3" />
+          </button>
+        </div>
+      )}
+
       {/* Song List Area - Removed flex-grow */}
-      <div className="h-[70vh] min-h-0 overflow-y-scroll mb-2 hide-scrollbar relative z-0"> {/* Ensure list is below hint */}
-         <ul className="h-[70vh] list-none p-0 min-h-0">
+      <div className={`${clusterConstraints.length > 0 ? 'h-[56vh]' : 'h-[70vh]'} min-h-0 overflow-y-scroll mb-2 hide-scrollbar relative z-0`}> {/* Ensure list is below hint */}
+         <ul className="list-none p-0 min-h-0">
             {/* Map over the SORTED 'songs' array */}
-            {sortedSongs.map((song) => { 
+            {sortedSongs.map((song, songIndex) => { 
                 // --- ADDED: Background color logic ---
                 let backgroundColor = 'transparent';
                 const clusterIndex = kmeansAssignments[song.id];
                 if (clusterIndex !== undefined) {
-                    const baseColor = plotlyColors[clusterIndex % plotlyColors.length];
-                    backgroundColor = hexToRgba(baseColor, 0.2); // 30% opacity
+                    const baseColor = clusterColorOf(clusterIndex);
+                    backgroundColor = hexToRgba(baseColor, dropTargetCluster === clusterIndex && activeSongIds.has(song.id) ? 0.45 : 0.2); // Brighter while a song is dragged over its cluster
                 }
+                // NEW: Header above the first song of each cluster (sorted by cluster, active songs first)
+                const previousSong = songIndex > 0 ? sortedSongs[songIndex - 1] : null;
+                const previousCluster = previousSong && activeSongIds.has(previousSong.id) ? kmeansAssignments[previousSong.id] : undefined;
+                const editableCluster = activeSongIds.has(song.id) ? clusterIndex : undefined; // Only active songs can be moved
+                const startsClusterGroup = editableCluster !== undefined && editableCluster !== previousCluster;
                 // Determine if this song is the one currently playing
                 const isCurrentlyPlaying = currentlyPlayingSongId === song.id && isPlaying;
                 const status = featureStatus[song.id] ?? 'idle';
+                const isSeedSong = kmeansSeedSongIds.has(song.id);
+                const topMemberships = clusterMemberships?.[song.id] ? topTwoMemberships(clusterMemberships[song.id]) : [];
+                const isBorderline = topMemberships.length === 2 && topMemberships[0].weight - topMemberships[1].weight < BORDERLINE_MEMBERSHIP_MARGIN;
+                const songConstraints = clusterConstraints.filter(c => c.a === song.id || c.b === song.id);
+                const hasMustLink = songConstraints.some(c => c.type === 'mustLink');
+                const hasCannotLink = songConstraints.some(c => c.type === 'cannotLink');
+                const hasViolation = songConstraints.some(isViolated);
+                const isPendingSong = pendingConstraint?.songId === song.id;
+                // NEW: Brushed songs are outlined; the others fade while a brush is active
+                const isHighlighted = highlightedSongIds?.has(song.id) ?? false;
+                const isDimmed = highlightedSongIds !== null && !isHighlighted;
                 // -------------------------------------
                 return (
+                    <React.Fragment key={song.id}>
+                    {startsClusterGroup && (
+                        <li
+                            className="flex items-center gap-2 text-xs px-2 py-1 border-b border-gray-700/50"
+                            style={{ borderLeft: `3px solid ${clusterColorOf(clusterIndex)}` }}
+                            onDragOver={(e) => handleClusterDragOver(e, clusterIndex)}
+                            onDrop={(e) => handleClusterDrop(e, clusterIndex)}
+                        >
+                            {clusterIndex === NOISE_LABEL ? (
+                                <span className="flex-grow text-[var(--text-secondary)]">Noise</span>
+                            ) : (
+                                <>
+                                    <input
+                                        type="color"
+                                        value={clusterColorOf(clusterIndex)}
+                                        onChange={(e) => onUpdateClusterLabel(clusterIndex, { color: e.target.value })}
+                                        className="h-4 w-4 flex-shrink-0 p-0 border-0 bg-transparent cursor-pointer"
+                                        title="Cluster colour"
+                                    />
+                                    <input
+                                        type="text"
+                                        value={clusterLabels[clusterIndex]?.name ?? ''}
+                                        placeholder={`Cluster ${clusterIndex}`}
+                                        onChange={(e) => onUpdateClusterLabel(clusterIndex, { name: e.target.value })}
+                                        className="flex-grow min-w-0 bg-transparent border-b border-transparent hover:border-gray-500 focus:border-[var(--accent-primary)] focus:outline-none"
+                                        title="Cluster name"
+                                    />
+                                </>
+                            )}
+                            <span className="flex-shrink-0 text-[var(--text-secondary)]">{clusterSizes.get(clusterIndex) ?? 0}</span>
+                        </li>
+                    )}
                     <li 
-                        key={song.id} 
-                        className="group flex justify-between items-center max-h-[5vh] text-xs p-2 pr-2 hover:bg-gray-800/50 border-b border-gray-700/50 relative" 
+                        className={`group flex justify-between items-center max-h-[5vh] text-xs p-2 pr-2 hover:bg-gray-800/50 border-b border-gray-700/50 relative ${isHighlighted ? 'ring-1 ring-inset ring-[var(--accent-secondary)]' : ''} ${isDimmed ? 'opacity-40' : ''}`}
                         style={{ backgroundColor }} 
                         onMouseEnter={() => setHoveredItemId(song.id)}
                         onMouseLeave={() => setHoveredItemId(null)}
+                        draggable={editableCluster !== undefined}
+                        onDragStart={(e) => handleSongDragStart(e, song.id)}
+                        onDragEnd={() => setDropTargetCluster(null)}
+                        onDragOver={(e) => handleClusterDragOver(e, editableCluster)}
+                        onDrop={(e) => handleClusterDrop(e, editableCluster)}
+                        title={editableCluster !== undefined ? 'Drag onto another cluster to move this song' : undefined}
                     >
                         {/* Content Container (In Flow - Checkbox and Text only) */}
                         <div className="flex items-center min-w-0 w-full"> 
@@ -266,6 +478,21 @@ const SongListPanel: React.FC<SongListPanelProps> = ({
                                 className="mr-2 flex-shrink-0 accent-cyan-500 cursor-pointer disabled:cursor-not-allowed"
                                 title={activeSongIds.has(song.id) ? "Exclude from processing" : "Include in processing"}
                             />
+                            {/* NEW: Seed marker for manual K-Means initialization */}
+                            {isSeedSong && (
+                                <MapPinIcon className="h-3 w-3 mr-1 flex-shrink-0 text-yellow-400" title="K-Means seed song" />
+                            )}
+                            {/* NEW: Constraint markers (red when a constraint of this song was broken) */}
+                            {hasMustLink && (
+                                <LinkIcon className={`h-3 w-3 mr-1 flex-shrink-0 ${hasViolation ? 'text-red-500' : 'text-green-400'}`} title="Has must-link constraints" />
+                            )}
+                            {hasCannotLink && (
+                                <NoSymbolIcon className={`h-3 w-3 mr-1 flex-shrink-0 ${hasViolation ? 'text-red-500' : 'text-orange-400'}`} title="Has cannot-link constraints" />
+                            )}
+                            {/* NEW: Imputation marker (some feature values of this song were filled in) */}
+                            {imputedFeatures[song.id] && (
+                                <ExclamationTriangleIcon className="h-3 w-3 mr-1 flex-shrink-0 text-amber-400" title={`Imputed: ${imputedFeatures[song.id].join(', ')}`} />
+                            )}
                             {/* Text now takes all available space in the flow */}
                             <div title={song.name} className="truncate flex-grow min-w-0"> 
                                 {/* Conditionally Render Marquee or Static Text */}
@@ -287,6 +514,21 @@ const SongListPanel: React.FC<SongListPanelProps> = ({
                                     </span>
                                 )}
                             </div>
+                            {/* NEW: Top-2 soft memberships; borderline songs are outlined */}
+                            {topMemberships.length > 0 && (
+                                <span
+                                    className={`ml-1 flex-shrink-0 flex gap-1 text-[10px] px-1 border ${isBorderline ? 'border-yellow-400/70' : 'border-transparent'}`}
+                                    title={isBorderline
+                                        ? `Between ${clusterNameOf(topMemberships[0].cluster)} and ${clusterNameOf(topMemberships[1].cluster)}`
+                                        : 'Strongest cluster memberships'}
+                                >
+                                    {topMemberships.map(({ cluster, weight }) => (
+                                        <span key={cluster} style={{ color: clusterColorOf(cluster) }}>
+                                            {cluster}:{(weight * 100).toFixed(0)}%
+                                        </span>
+                                    ))}
+                                </span>
+                            )}
                         </div>
                         
                         {/* --- Button Container (Absolute Position, Hover Visible, Higher Z-Index) --- */} 
@@ -307,6 +549,35 @@ const SongListPanel: React.FC<SongListPanelProps> = ({
                                     <InformationCircleIcon className="h-4 w-4" />
                                 </button>
                             )}
+                            {/* NEW: Seed Toggle Button */}
+                            {activeSongIds.has(song.id) && (
+                                <button 
+                                    onClick={() => onToggleSeedSong(song.id)}
+                                    title={isSeedSong ? "Unmark as K-Means seed" : "Mark as K-Means seed (manual init)"}
+                                    className={`p-0.5 ${isSeedSong ? 'text-yellow-400 hover:text-yellow-300' : 'text-gray-400 hover:text-yellow-300'}`}
+                                >
+                                    <MapPinIcon className="h-4 w-4" />
+                                </button>
+                            )}
+                            {/* NEW: Constraint Buttons */}
+                            {activeSongIds.has(song.id) && (
+                                <>
+                                    <button 
+                                        onClick={() => handleConstraintClick('mustLink', song.id)}
+                                        title={isPendingSong && pendingConstraint?.type === 'mustLink' ? "Cancel must-link" : pendingConstraint?.type === 'mustLink' ? "Must-link with the picked song" : "Must-link: always cluster with another song"}
+                                        className={`p-0.5 ${isPendingSong && pendingConstraint?.type === 'mustLink' ? 'text-green-400' : 'text-gray-400 hover:text-green-300'}`}
+                                    >
+                                        <LinkIcon className="h-4 w-4" />
+                                    </button>
+                                    <button 
+                                        onClick={() => handleConstraintClick('cannotLink', song.id)}
+                                        title={isPendingSong && pendingConstraint?.type === 'cannotLink' ? "Cancel cannot-link" : pendingConstraint?.type === 'cannotLink' ? "Cannot-link with the picked song" : "Cannot-link: never cluster with another song"}
+                                        className={`p-0.5 ${isPendingSong && pendingConstraint?.type === 'cannotLink' ? 'text-orange-400' : 'text-gray-400 hover:text-orange-300'}`}
+                                    >
+                                        <NoSymbolIcon className="h-4 w-4" />
+                                    </button>
+                                </>
+                            )}
                             {/* Play Button */} 
                             <button 
                                 onClick={() => onPlayRequest(song.id)}
@@ -329,6 +600,7 @@ const SongListPanel: React.FC<SongListPanelProps> = ({
                             </button>
                         </span> 
                     </li>
+                    </React.Fragment>
                 );
             })}
          </ul>
@@ -336,6 +608,37 @@ const SongListPanel: React.FC<SongListPanelProps> = ({
 
       {/* --- Controls Footer Wrapper (Pushes controls to bottom) --- */}
       <div className="mt-auto flex-shrink-0 pt-2"> 
+          {/* NEW: Constraint list */}
+          {clusterConstraints.length > 0 && (
+            <div className="mb-2 text-xs">
+              <div className="flex justify-between items-center mb-1">
+                <span className="text-[var(--text-secondary)]">
+                  Constraints ({clusterConstraints.length}){constraintViolations.length > 0 && <span className="text-red-500"> · {constraintViolations.length} broken</span>}
+                </span>
+                <button onClick={onClearConstraints} className="text-gray-400 hover:text-gray-200" title="Remove all constraints">
+                  Clear
+                </button>
+              </div>
+              <ul className="list-none p-0 max-h-[10vh] overflow-y-auto hide-scrollbar">
+                {clusterConstraints.map(constraint => {
+                  const violated = isViolated(constraint);
+                  return (
+                    <li key={`${constraint.type}-${constraint.a}-${constraint.b}`} className={`flex items-center gap-1 py-0.5 ${violated ? 'text-red-500' : ''}`}>
+                      {constraint.type === 'mustLink'
+                        ? <LinkIcon className="h-3 w-3 flex-shrink-0 text-green-400" title="Must-link" />
+                        : <NoSymbolIcon className="h-3 w-3 flex-shrink-0 text-orange-400" title="Cannot-link" />}
+                      <span className="truncate flex-grow" title={violated ? 'Not satisfied by the current clusters' : undefined}>
+                        {songNameOf(constraint.a)} / {songNameOf(constraint.b)}
+                      </span>
+                      <button onClick={() => onRemoveConstraint(constraint)} className="text-gray-400 hover:text-red-400 p-0.5 flex-shrink-0" title="Remove constraint">
+                        <XMarkIcon className="h-3 w-3" />
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
           {/* Selection Controls Area */}
           <div className="flex justify-between items-center mb-2 flex-shrink-0"> {/* Removed mt-2 */}
             {/* Select/Clear Buttons */}
@@ -1,7 +1,8 @@
 import React, { useMemo, useState, ChangeEvent, useEffect } from 'react';
 import Plot from 'react-plotly.js';
-import { Song, Features, KmeansAssignments } from '@/app/page'; // Assuming types are exported from page
+import { Song, Features, KmeansAssignments, ClassificationResult, KmeansMetrics, KSweepResult, ClusterTree, ClusterLabels, ClusterDescription, FeatureCorrelation, RedundancyReport, PcaReport } from '@/app/page'; // Assuming types are exported from page
 import BasePanel from './ui/BasePanel'; // <-- Import BasePanel
+import Dendrogram from './Dendrogram';
 
 // --- Helper Types (from page.tsx, ensure they are exported or redefine here) ---
 // Type for unprocessed data structure (including OHE info)
@@ -9,6 +10,7 @@ interface UnprocessedDataType {
     vectors: number[][];
     songIds: string[];
     isOHEColumn: boolean[];
+    layout?: { columnNames?: string[] }; // Column names locate features when columns were dropped
 }
 
 // Type for processed data structure
@@ -30,21 +32,47 @@ interface VisualizationPanelProps {
   // --- Existing Data Props ---
   reducedDataPoints: Record<string, number[]>;
   reductionDimensions: number;
+  pcaReport: PcaReport | null; // NEW: Explained variance and loadings when the reduction is PCA
   kmeansAssignments: KmeansAssignments; // Uses the KmeansAssignments type defined (or to be defined) in page.tsx
   kmeansCentroids: number[][];
+  kmeansClusterSpace: 'reduced' | 'processed'; // Space K-Means ran in; points are always drawn in the reduced view
   kmeansIteration: number;
+  clusteringMethod: ClusteringMethod; // Algorithm behind the assignments; DBSCAN labels noise as -1
+  clusterMemberships: Record<string, number[]> | null; // Soft membership per song; drives marker opacity
+  clusterTree: ClusterTree | null; // Merge tree of the last agglomerative run
+  onCutClusterTree: (nClusters: number) => void; // Dendrogram cut line moved
+  clusterLabels: ClusterLabels; // User-given cluster names and colours
+  onReassignSongs: (songIds: string[], cluster: number) => void; // Songs lassoed in the plot moved to a cluster
+  clusterDescriptions: ClusterDescription[]; // Plain-language summary per cluster, shown in the legend
+  onBrushSongs: (songIds: string[] | null) => void; // Songs inside a brushed range (null = no brush)
+  columnWeights: Record<string, number> | null; // Column name -> feature weight applied after scaling
+  featureCorrelation: FeatureCorrelation | null; // Correlations between the raw numerical columns
+  redundancyReport: RedundancyReport | null; // Column pairs above the redundancy threshold
+  onRedundancyThresholdChange: (threshold: number) => void;
+  droppedColumns: string[]; // Columns left out of the matrix before processing
+  onDropRedundantColumns: () => void; // Drops one column of every reported pair and reprocesses
+  onRestoreDroppedColumns: () => void;
+  kmeansMetrics: KmeansMetrics | null; // Cluster-quality metrics for the current assignments
   latestSuccessfulStage: ProcessingStage; // Prop from parent
   // --- NEW: Additional Props ---
   visualizationDisplayStage: ProcessingStage; // The stage the user wants to visualize
   onStageSelect: (stage: ProcessingStage) => void; // Callback for when user changes stage
   // --- NEW: Add the missing prop type ---
   availableFeatureKeys: string[] | null;
+  // --- NEW: Position and cluster of a newly classified song ---
+  classificationResult: ClassificationResult | null;
+  // --- NEW: k sweep curves; clicking a point picks that k ---
+  kSweepResult: KSweepResult | null;
+  selectedK: number;
+  onSelectK: (k: number) => void;
 }
 
 // Define types for internal state
 type DataStage = 'raw' | 'processed' | 'reduction' | 'clustering';
 type DimensionSelection = 2 | 3;
 type AxisScale = 'linear' | 'log';
+type PlotView = 'scatter' | 'kSweep' | 'dendrogram' | 'radar' | 'box' | 'parcoords' | 'splom' | 'correlation' | 'scree';
+type MatrixSource = 'raw' | 'processed'; // Matrix explored by the parallel-coordinates / SPLOM views
 
 // Define possible stages for visualization
 type VisualizationStage = 'features' | 'unprocessed' | 'processed' | 'reduced' | 'clusters';
@@ -79,7 +107,64 @@ const canonicalFeatureOrder: (keyof Features)[] = [
 ];
 // -----------------------------------------------------------
 
+// Formats a metric that may be undefined for degenerate clusterings
+const formatMetric = (value: number | null, digits: number): string =>
+  value === null || !Number.isFinite(value) ? 'n/a' : value.toFixed(digits);
+
+// --- NEW: Clustering algorithms (mirrors page.tsx) ---
+type ClusteringMethod = 'kmeans' | 'dbscan' | 'agglomerative' | 'gmm';
+const CLUSTERING_METHOD_TITLES: Record<ClusteringMethod, string> = {
+  kmeans: 'K-Means Clustering',
+  dbscan: 'DBSCAN Clustering',
+  agglomerative: 'Agglomerative Clustering',
+  gmm: 'Gaussian Mixture Clustering'
+};
+const NOISE_LABEL = -1;
+const NOISE_COLOR = '#6b7280'; // Grey, outside the cluster palette
+// --- END NEW ---
+
+// --- NEW: Marker opacity from soft membership: confident members are opaque, songs between clusters fade ---
+const MIN_MEMBERSHIP_OPACITY = 0.25;
+const MAX_MEMBERSHIP_OPACITY = 0.9;
+
+// 0 when a song belongs equally to every cluster (or is noise), 1 when it belongs to one cluster only
+const membershipConfidence = (membership: number[]): number => {
+  const numClusters = membership.length;
+  if (numClusters < 2) return 1;
+  const uniform = 1 / numClusters;
+  return Math.max(0, (Math.max(...membership) - uniform) / (1 - uniform));
+};
+// --- END NEW ---
+
+// --- NEW: Cluster profile views ---
+const MIN_RADAR_AXES = 3;  // Below this many scalar features the radar falls back to all columns
+const MAX_RADAR_AXES = 24; // Keeps the fallback radar readable (vector features have many columns)
+// Columns shown by default in the multi-feature views (scalar features first)
+const DEFAULT_PARCOORDS_COLUMNS = 12;
+const DEFAULT_SPLOM_COLUMNS = 5;
+const UNCLUSTERED_COLOR = '#1f77b4';
+
+// Restyle events report brushed ranges in several nestings ([a, b], [[a, b]], [[[a, b], [c, d]]], [null]);
+// flattening and pairing the numbers covers all of them
+const toRanges = (value: unknown): [number, number][] => {
+  const numbers = (Array.isArray(value) ? value.flat(3) : [value]).filter((v): v is number => typeof v === 'number');
+  const ranges: [number, number][] = [];
+  for (let i = 0; i + 1 < numbers.length; i += 2) {
+    ranges.push([Math.min(numbers[i], numbers[i + 1]), Math.max(numbers[i], numbers[i + 1])]);
+  }
+  return ranges;
+};
+// --- END NEW ---
+
+// --- NEW: Correlation heatmap ---
+const MIN_REDUNDANCY_THRESHOLD = 0.5;
+const MAX_REDUNDANCY_THRESHOLD = 0.99;
+// Diverging scale: blue for negative, white for none, red for positive correlation
+const CORRELATION_COLORSCALE: [number, string][] = [[0, '#2166ac'], [0.25, '#67a9cf'], [0.5, '#f7f7f7'], [0.75, '#ef8a62'], [1, '#b2182b']];
+// --- END NEW ---
+
 // Define a color scale for clusters - add more colors if needed
+
 const plotlyColors = [
   '#1f77b4',  // Muted blue
   '#ff7f0e',  // Safety orange
@@ -221,15 +306,37 @@ const VisualizationPanel: React.FC<VisualizationPanelProps> = ({
   // Destructure existing props
   reducedDataPoints,
   reductionDimensions,
+  pcaReport,
   kmeansAssignments,
   kmeansCentroids,
+  kmeansClusterSpace,
   kmeansIteration,
+  clusteringMethod,
+  clusterMemberships,
+  clusterTree,
+  onCutClusterTree,
+  clusterLabels,
+  onReassignSongs,
+  clusterDescriptions,
+  onBrushSongs,
+  columnWeights,
+  featureCorrelation,
+  redundancyReport,
+  onRedundancyThresholdChange,
+  droppedColumns,
+  onDropRedundantColumns,
+  onRestoreDroppedColumns,
+  kmeansMetrics,
   latestSuccessfulStage,
   // NEW: Destructure additional props
   visualizationDisplayStage,
   onStageSelect,
   // --- NEW: Add the missing prop type ---
-  availableFeatureKeys
+  availableFeatureKeys,
+  classificationResult,
+  kSweepResult,
+  selectedK,
+  onSelectK
 }) => {
 
   // --- Internal State for Visualization Controls ---
@@ -246,11 +353,32 @@ const VisualizationPanel: React.FC<VisualizationPanelProps> = ({
   const [selectedScaleY, setSelectedScaleY] = useState<AxisScale>('linear');
   const [selectedScaleZ, setSelectedScaleZ] = useState<AxisScale>('linear');
   const [showLegend, setShowLegend] = useState<boolean>(false); // State for legend visibility
+  const [plotView, setPlotView] = useState<PlotView>('scatter'); // Scatter plot or k sweep curves
   const [isFeatureTableVisible, setIsFeatureTableVisible] = useState(false);
   const [featureTableData, setFeatureTableData] = useState<Array<Record<string, any>> | null>(null);
+  // --- NEW: Songs selected with the lasso/box tool, and the cluster to move them to ---
+  const [lassoSongIds, setLassoSongIds] = useState<string[]>([]);
+  const [lassoTargetCluster, setLassoTargetCluster] = useState<number>(0);
+  const [boxPlotColumn, setBoxPlotColumn] = useState<number | null>(null); // Column shown in the box plot view
+  // --- NEW: Parallel coordinates / SPLOM state ---
+  const [matrixSource, setMatrixSource] = useState<MatrixSource>('processed');
+  const [matrixColumnSelection, setMatrixColumnSelection] = useState<number[] | null>(null); // null = defaults
+  const [parcoordsRanges, setParcoordsRanges] = useState<Record<number, [number, number][]>>({}); // Column -> brushed ranges
   // -------------------------------------------------
 
   const songMap = useMemo(() => new Map(songs.map(s => [s.id, s])), [songs]);
+  const songNames = useMemo(() => Object.fromEntries(songs.map(s => [s.id, s.name])), [songs]); // Dendrogram leaf labels
+
+  // --- NEW: Cluster colours and names: user labels first, then the palette / index ---
+  const clusterColorOf = (cluster: number): string =>
+    cluster === NOISE_LABEL ? NOISE_COLOR : (clusterLabels[cluster]?.color ?? plotlyColors[cluster % plotlyColors.length]);
+  const clusterNameOf = (cluster: number): string =>
+    cluster === NOISE_LABEL ? 'Noise' : (clusterLabels[cluster]?.name || `Cluster ${cluster}`);
+  // Palette indexed by cluster for the dendrogram, with user colours applied
+  const clusterPalette = useMemo(() => {
+    const size = Math.max(plotlyColors.length, kmeansCentroids.length);
+    return Array.from({ length: size }, (_, cluster) => clusterLabels[cluster]?.color ?? plotlyColors[cluster % plotlyColors.length]);
+  }, [clusterLabels, kmeansCentroids.length]);
 
   // --- Determine data availability for enabling/disabling controls (MOVED UP) ---
   const isUnprocessedDataAvailable = unprocessedData !== null;
@@ -368,11 +496,42 @@ const VisualizationPanel: React.FC<VisualizationPanelProps> = ({
       }
     });
     
+    // NEW: With named columns (some possibly dropped as redundant), locate each column by name instead of position
+    const columnNames = unprocessedData?.layout?.columnNames;
+    if (columnNames) {
+      const indexOfName = new Map(columnNames.map((name, index) => [name, index]));
+      const located = numerical
+        .map(column => ({
+          ...column,
+          columnIndex: indexOfName.get(column.arrayIndex === undefined ? column.featureKey : `${column.featureKey}[${column.arrayIndex}]`) ?? -1
+        }))
+        .filter(column => column.columnIndex >= 0);
+      return { numerical: located, categorical };
+    }
+
     // console.log('[featureColumnsMap] Result:', { numerical, categorical });
     return { numerical, categorical };
   // --- MODIFIED: Add availableFeatureKeys to dependency array --- 
   }, [availableFeatureKeys, unprocessedData, songFeatures]);
 
+  // --- NEW: Feature weights of the processed columns, grouped per feature for the weights strip ---
+  const weightOfColumn = useMemo(() => {
+    if (!columnWeights) return null;
+    return (column: FeatureColumn): number =>
+      columnWeights[column.arrayIndex === undefined ? column.featureKey : `${column.featureKey}[${column.arrayIndex}]`] ?? 1;
+  }, [columnWeights]);
+  const weightedFeatures = useMemo(() => {
+    if (!weightOfColumn) return [];
+    const fieldMetadataMap = new Map(FEATURE_FIELD_ORDER.map(f => [f.key, f]));
+    const weightOfFeature = new Map<string, number>(); // All columns of a feature share its weight
+    featureColumnsMap.numerical.forEach(column => {
+      if (!weightOfFeature.has(column.featureKey)) weightOfFeature.set(column.featureKey, weightOfColumn(column));
+    });
+    return Array.from(weightOfFeature, ([featureKey, weight]) => ({ name: fieldMetadataMap.get(featureKey)?.prefix ?? featureKey, weight }))
+      .filter(({ weight }) => weight !== 1);
+  }, [weightOfColumn, featureColumnsMap.numerical]);
+  // --- END NEW ---
+
   // Get the category value map (mapping from OHE indices to original values)
   const categoryValueMap = useMemo<CategoryValueMap>(() => {
     const result: CategoryValueMap = {};
@@ -426,7 +585,10 @@ const VisualizationPanel: React.FC<VisualizationPanelProps> = ({
   // --- Dynamic options for controls ---
   const getAvailableColorOptions = useMemo(() => {
     // --- RESTORED: Original implementation --- 
-    let options = [{ value: 'cluster', label: 'Cluster Assignment' }];
+    let options = [
+      { value: 'cluster', label: 'Cluster Assignment' },
+      { value: 'silhouette', label: 'Silhouette (per song)' }
+    ];
     featureColumnsMap.categorical.forEach(category => {
       options.push({ 
         value: `feature:${category}`, 
@@ -436,25 +598,38 @@ const VisualizationPanel: React.FC<VisualizationPanelProps> = ({
     return options;
   }, [featureColumnsMap.categorical]);
 
+  // --- NEW: Reduced axes are principal components with their share of the variance after PCA ---
+  const reducedAxisLabel = useMemo(() => (dimension: number): string => {
+    const ratio = pcaReport?.explainedVarianceRatio[dimension];
+    return ratio === undefined ? `Dimension ${dimension + 1}` : `PC${dimension + 1} (${Math.round(ratio * 100)}%)`;
+  }, [pcaReport]);
+
   const getAvailableAxisFeatures = useMemo(() => {
     // --- RESTORED: Original implementation --- 
     let options: { value: string, label: string }[] = [];
     if (selectedDataStage === 'reduction' || selectedDataStage === 'clustering') { 
       options = [
-        { value: 'dim1', label: 'Dimension 1' }, 
-        { value: 'dim2', label: 'Dimension 2' }
+        { value: 'dim1', label: reducedAxisLabel(0) }, 
+        { value: 'dim2', label: reducedAxisLabel(1) }
       ];
       if (reductionDimensions >= 3) {
-        options.push({ value: 'dim3', label: 'Dimension 3' });
+        options.push({ value: 'dim3', label: reducedAxisLabel(2) });
       }
     } else { 
       options = featureColumnsMap.numerical.map(col => ({
         value: `col:${col.columnIndex}`,
         label: col.name
       }));
+      // NEW: Processed columns carry their feature weight
+      if (selectedDataStage === 'processed' && weightOfColumn) {
+        options = options.map((opt, i) => {
+          const weight = weightOfColumn(featureColumnsMap.numerical[i]);
+          return weight === 1 ? opt : { ...opt, label: `${opt.label} (×${weight.toFixed(2)})` };
+        });
+      }
     }
     return options;
-  }, [selectedDataStage, reductionDimensions, featureColumnsMap.numerical]);
+  }, [selectedDataStage, reductionDimensions, featureColumnsMap.numerical, weightOfColumn, reducedAxisLabel]);
 
   // Set default axis and color selections when stage changes OR features change
   useEffect(() => {
@@ -538,7 +713,21 @@ const VisualizationPanel: React.FC<VisualizationPanelProps> = ({
     
     // Add cluster information if available (for any stage)
     if (kmeansAssignments[songId] !== undefined) {
-      hoverText += `<br><b>Cluster:</b> ${kmeansAssignments[songId]}`;
+      hoverText += `<br><b>Cluster:</b> ${clusterNameOf(kmeansAssignments[songId])}`;
+    }
+    const membership = clusterMemberships?.[songId];
+    if (membership) {
+      const topMemberships = membership
+        .map((p, cluster) => ({ p, cluster }))
+        .sort((a, b) => b.p - a.p)
+        .slice(0, 3)
+        .filter(({ p }) => p >= 0.01);
+      if (topMemberships.length > 0) {
+        hoverText += `<br><b>Membership:</b> ${topMemberships.map(({ p, cluster }) => `${clusterNameOf(cluster)}: ${(p * 100).toFixed(0)}%`).join(', ')}`;
+      }
+    }
+    if (kmeansMetrics?.songSilhouettes[songId] !== undefined) {
+      hoverText += `<br><b>Silhouette:</b> ${kmeansMetrics.songSilhouettes[songId].toFixed(3)}`;
     }
     
     // Add all available MIR features for the song
@@ -644,7 +833,7 @@ const VisualizationPanel: React.FC<VisualizationPanelProps> = ({
            // console.log('[Plot Memo] No clustering data available.'); 
             return { plotData: [], plotLayout: basePlotLayout }; 
           }
-          dataTitle = `K-Means Clustering - Iteration ${kmeansIteration}`;
+          dataTitle = `${CLUSTERING_METHOD_TITLES[clusteringMethod]}${kmeansClusterSpace === 'processed' ? ' (full feature space)' : ''}${clusteringMethod === 'kmeans' ? ` - Iteration ${kmeansIteration}` : ''}`;
           dataPoints = reducedDataPoints;
           songIds = Object.keys(reducedDataPoints);
           break;
@@ -664,7 +853,7 @@ const VisualizationPanel: React.FC<VisualizationPanelProps> = ({
         if (colIdx === null) return defaultPrefix;
         // Use dimension prefix for reduction or clustering stages
         if (selectedDataStage === 'reduction' || selectedDataStage === 'clustering') { 
-          return `${defaultPrefix} ${colIdx + 1}`;
+          return reducedAxisLabel(colIdx);
         } 
         // Otherwise, look up the feature name for raw/processed
         const feature = featureColumnsMap.numerical.find(f => f.columnIndex === colIdx);
@@ -719,6 +908,8 @@ const VisualizationPanel: React.FC<VisualizationPanelProps> = ({
       
       // Determine coloring strategy & Group points
       const colorByCluster = selectedColorBy === 'cluster' && selectedDataStage === 'clustering';
+      // Silhouette is continuous, so all points stay in one trace colored by a scale
+      const colorBySilhouette = selectedColorBy === 'silhouette' && selectedDataStage === 'clustering' && kmeansMetrics !== null;
       const colorByCategorical = selectedColorBy?.startsWith('feature:');
       const categoryKey = colorByCategorical ? selectedColorBy!.substring(8) : null;
      // console.log(`[Plot Memo] Color Strategy: ${selectedColorBy ?? 'Default'}`);
@@ -733,9 +924,11 @@ const VisualizationPanel: React.FC<VisualizationPanelProps> = ({
         let pointColorNeedsAssign = false;
 
         if (colorByCluster && point.cluster !== undefined) {
-          groupName = `Cluster ${point.cluster}`;
+          groupName = point.cluster === NOISE_LABEL ? 'Noise' : `${point.cluster}: ${clusterNameOf(point.cluster)}`; // Index keeps duplicate names apart
+          const summary = clusterDescriptions.find(d => d.cluster === point.cluster)?.summary;
+          if (summary) groupName += ` (${summary})`;
           if (!categoryToColor[groupName]) {
-             categoryToColor[groupName] = plotlyColors[point.cluster % plotlyColors.length];
+             categoryToColor[groupName] = clusterColorOf(point.cluster);
           }
         } else if (colorByCategorical && categoryKey && point.colorCategory && point.colorCategory !== 'N/A') {
           groupName = point.colorCategory;
@@ -761,14 +954,30 @@ const VisualizationPanel: React.FC<VisualizationPanelProps> = ({
       Object.entries(groupedPoints).forEach(([groupName, pointsInGroup]) => {
         if (pointsInGroup.length === 0) return;
         const traceColor = categoryToColor[groupName];
+        // NEW: Fade uncertain members (per-point opacity is only supported by 2D scatter traces)
+        const opacity: number | number[] = selectedDataStage === 'clustering' && clusterMemberships && selectedDimensions === 2
+          ? pointsInGroup.map(p => {
+              const membership = clusterMemberships[p.id];
+              const confidence = membership ? membershipConfidence(membership) : 1;
+              return MIN_MEMBERSHIP_OPACITY + (MAX_MEMBERSHIP_OPACITY - MIN_MEMBERSHIP_OPACITY) * confidence;
+            })
+          : 0.8;
+        const marker: Partial<Plotly.PlotMarker> = colorBySilhouette
+          ? {
+              color: pointsInGroup.map(p => kmeansMetrics!.songSilhouettes[p.id] ?? 0),
+              colorscale: 'RdBu', cmin: -1, cmax: 1, size: 8, opacity,
+              showscale: true, colorbar: { title: 'Silhouette', thickness: 10, len: 0.6 }
+            }
+          : { color: traceColor, size: 8, opacity };
         
         const trace: Partial<Plotly.PlotData> = {
           x: pointsInGroup.map(p => p.x),
           y: pointsInGroup.map(p => p.y),
           type: traceType,
           mode: 'markers',
-          marker: { color: traceColor, size: 8, opacity: 0.8 },
+          marker,
           text: pointsInGroup.map(p => createDetailedHoverText(p.id, p.name, selectedDataStage)),
+          customdata: pointsInGroup.map(p => p.id), // Song ids for lasso selection
           hoverinfo: 'text',
           name: groupName, 
           showlegend: true 
@@ -781,23 +990,48 @@ const VisualizationPanel: React.FC<VisualizationPanelProps> = ({
       
       // Add Centroid Trace (ONLY if clustering)
       if (selectedDataStage === 'clustering' && kmeansCentroids.length > 0) {
+        // Empty entries are clusters with no position in the reduced view (full-space clustering)
+        const drawnCentroids = kmeansCentroids.map((c, i) => ({ c, i })).filter(({ c }) => c.length > 0);
         const centroidTrace: Partial<Plotly.PlotData> = {
-          x: kmeansCentroids.map(c => c[xAxisIndex] || 0),
-          y: kmeansCentroids.map(c => c[yAxisIndex] || 0),
-          z: selectedDimensions === 3 ? kmeansCentroids.map(c => c[zAxisIndex] || 0) : undefined,
+          x: drawnCentroids.map(({ c }) => c[xAxisIndex] || 0),
+          y: drawnCentroids.map(({ c }) => c[yAxisIndex] || 0),
+          z: selectedDimensions === 3 ? drawnCentroids.map(({ c }) => c[zAxisIndex] || 0) : undefined,
           type: traceType,
           mode: 'markers',
           marker: {
-            color: kmeansCentroids.map((c, i) => plotlyColors[i % plotlyColors.length]), 
+            color: drawnCentroids.map(({ i }) => clusterColorOf(i)), 
             size: 14, symbol: 'diamond', opacity: 1, line: { color: '#000000', width: 1 }
           },
-          text: kmeansCentroids.map((c, i) => `Centroid ${i}`),
+          text: drawnCentroids.map(({ i }) => kmeansClusterSpace === 'processed' ? `Centroid of ${clusterNameOf(i)} (mean of cluster in reduced view)` : `Centroid of ${clusterNameOf(i)}`),
           hoverinfo: 'text',
           name: 'Centroids', 
           showlegend: true 
         };
         plotData.push(centroidTrace);
       }
+
+      // --- NEW: Add Classified Song Trace (reduced space, so reduction & clustering stages only) ---
+      if ((selectedDataStage === 'reduction' || selectedDataStage === 'clustering') &&
+          classificationResult && classificationResult.reducedPoint.length > 0) {
+        const point = classificationResult.reducedPoint;
+        const classifiedTrace: Partial<Plotly.PlotData> = {
+          x: [point[xAxisIndex] || 0],
+          y: [point[yAxisIndex] || 0],
+          z: selectedDimensions === 3 ? [point[zAxisIndex] || 0] : undefined,
+          type: traceType,
+          mode: 'markers',
+          marker: {
+            color: selectedDataStage === 'clustering' ? clusterColorOf(classificationResult.cluster) : '#ffffff',
+            size: 16, symbol: selectedDimensions === 3 ? 'diamond-open' : 'star', opacity: 1, line: { color: '#ffffff', width: 2 }
+          },
+          text: [`${classificationResult.songName}<br>Classified: ${clusterNameOf(classificationResult.cluster)}<br>Distance: ${classificationResult.distance.toFixed(3)}`],
+          hoverinfo: 'text',
+          name: 'Classified Song',
+          showlegend: true
+        };
+        plotData.push(classifiedTrace);
+      }
+      // ---------------------------------------------------------------------------------------------
       
       // Configure Layout
       const xAxisConfig = { title: xAxisTitle, type: selectedScaleX, color: '#cccccc', gridcolor: '#555555', zerolinecolor: '#777777' };
@@ -832,18 +1066,20 @@ const VisualizationPanel: React.FC<VisualizationPanelProps> = ({
     }
   }, [
     selectedDataStage, unprocessedData, processedData, reducedDataPoints, kmeansAssignments, 
-    kmeansCentroids, reductionDimensions, kmeansIteration, activeSongIds, songMap, 
+    kmeansCentroids, kmeansClusterSpace, clusteringMethod, reductionDimensions, kmeansIteration, activeSongIds, songMap, 
     selectedDimensions, selectedAxisX, selectedAxisY, selectedAxisZ, selectedScaleX, 
     selectedScaleY, selectedScaleZ, selectedColorBy, featureColumnsMap.numerical, 
     featureColumnsMap.categorical, categoryValueMap, getCategoricalValueForSong, 
     createDetailedHoverText, songFeatures, showLegend, 
-    isReducedDataAvailable, isClusteringDataAvailable
+    isReducedDataAvailable, isClusteringDataAvailable, classificationResult, kmeansMetrics, clusterMemberships, clusterLabels, clusterDescriptions,
+    reducedAxisLabel
   ]);
 
   // --- Control Handlers (Basic Structure) ---
   const handleStageChange = (event: ChangeEvent<HTMLSelectElement>) => {
     const newDataStage = event.target.value as DataStage;
     setSelectedDataStage(newDataStage);
+    setPlotView('scatter');
     
     // NEW: Map DataStage to ProcessingStage and call onStageSelect
     let processingStage: ProcessingStage = null;
@@ -919,6 +1155,466 @@ const VisualizationPanel: React.FC<VisualizationPanelProps> = ({
     }
   }, [visualizationDisplayStage]);
 
+  // --- NEW: Show the k sweep when a new result arrives, and the scatter plot when the pipeline moves on ---
+  useEffect(() => {
+    setPlotView(kSweepResult ? 'kSweep' : 'scatter');
+  }, [kSweepResult]);
+
+  useEffect(() => {
+    setPlotView('scatter');
+  }, [latestSuccessfulStage, visualizationDisplayStage, isClusteringDataAvailable]);
+
+  // --- NEW: Open the dendrogram when an agglomerative run finishes ---
+  useEffect(() => {
+    setPlotView(clusterTree ? 'dendrogram' : 'scatter');
+  }, [clusterTree]);
+
+  // --- NEW: Elbow (inertia) and silhouette curves of the k sweep ---
+  const kSweepPlot = useMemo(() => {
+    if (!kSweepResult || kSweepResult.entries.length === 0) {
+      return { plotData: [], plotLayout: basePlotLayout };
+    }
+    const { entries, recommendedK, elbowK } = kSweepResult;
+    const scored = entries.filter(entry => entry.silhouette !== null);
+    const elbowEntry = entries.find(entry => entry.k === elbowK);
+    const recommendedEntry = entries.find(entry => entry.k === recommendedK);
+
+    const plotData: Partial<Plotly.PlotData>[] = [
+      {
+        x: entries.map(entry => entry.k),
+        y: entries.map(entry => entry.inertia),
+        type: 'scatter',
+        mode: 'lines+markers',
+        name: 'Inertia',
+        marker: { color: plotlyColors[0], size: 8 },
+        line: { color: plotlyColors[0] },
+        text: entries.map(entry => `k=${entry.k}<br>Inertia: ${entry.inertia.toFixed(3)}<br>Iterations: ${entry.iterations}`),
+        hoverinfo: 'text'
+      },
+      {
+        x: scored.map(entry => entry.k),
+        y: scored.map(entry => entry.silhouette as number),
+        type: 'scatter',
+        mode: 'lines+markers',
+        name: 'Silhouette',
+        yaxis: 'y2',
+        marker: { color: plotlyColors[1], size: 8 },
+        line: { color: plotlyColors[1] },
+        text: scored.map(entry => `k=${entry.k}<br>Silhouette: ${(entry.silhouette as number).toFixed(3)}`),
+        hoverinfo: 'text'
+      }
+    ];
+    if (elbowEntry) {
+      plotData.push({
+        x: [elbowEntry.k],
+        y: [elbowEntry.inertia],
+        type: 'scatter',
+        mode: 'markers',
+        name: `Elbow (k=${elbowEntry.k})`,
+        marker: { color: '#ffffff', size: 14, symbol: 'circle-open', line: { color: '#ffffff', width: 2 } },
+        hoverinfo: 'name'
+      });
+    }
+    if (recommendedEntry && recommendedEntry.silhouette !== null) {
+      plotData.push({
+        x: [recommendedEntry.k],
+        y: [recommendedEntry.silhouette],
+        type: 'scatter',
+        mode: 'markers',
+        name: `Recommended (k=${recommendedEntry.k})`,
+        yaxis: 'y2',
+        marker: { color: '#ffffff', size: 16, symbol: 'star', line: { color: plotlyColors[1], width: 1 } },
+        hoverinfo: 'name'
+      });
+    }
+
+    const plotLayout: Partial<Plotly.Layout> = {
+      ...basePlotLayout,
+      title: 'k Sweep - Click a point to use that k',
+      showlegend: true,
+      xaxis: { ...basePlotLayout.xaxis, title: 'Number of clusters (k)', dtick: 1 },
+      yaxis: { ...basePlotLayout.yaxis, title: 'Inertia' },
+      yaxis2: { title: 'Mean silhouette', overlaying: 'y', side: 'right', color: '#cccccc', showgrid: false, zerolinecolor: '#777777' },
+      // Dashed line at the k the next initialization will use
+      shapes: [{
+        type: 'line', xref: 'x', yref: 'paper', x0: selectedK, x1: selectedK, y0: 0, y1: 1,
+        line: { color: '#aaaaaa', width: 1, dash: 'dash' }
+      }]
+    };
+    delete plotLayout.scene;
+    return { plotData, plotLayout };
+  }, [kSweepResult, selectedK]);
+
+  const handleKSweepClick = (event: Readonly<Plotly.PlotMouseEvent>) => {
+    const k = Number(event.points[0]?.x);
+    if (Number.isInteger(k) && k > 0) {
+      onSelectK(k);
+    }
+  };
+  // ---------------------------------------------------------------------------
+
+  // --- NEW: Cluster profiles: radar of standardized cluster means, box plot of one feature per cluster ---
+  // Both use the raw matrix so the values stay comparable whatever scaling was chosen
+  const profileRows = useMemo(() => {
+    if (!unprocessedData) return [];
+    return unprocessedData.songIds
+      .map((id, index) => ({ id, cluster: kmeansAssignments[id], vector: unprocessedData.vectors[index] }))
+      .filter(row => activeSongIds.has(row.id) && row.cluster !== undefined);
+  }, [unprocessedData, kmeansAssignments, activeSongIds]);
+  const profileClusters = useMemo(
+    () => Array.from(new Set(profileRows.map(row => row.cluster))).sort((a, b) => a - b),
+    [profileRows]
+  );
+  const canShowProfiles = profileRows.length > 0 && featureColumnsMap.numerical.length > 0;
+
+  const radarPlot = useMemo(() => {
+    if (!canShowProfiles) return { plotData: [], plotLayout: basePlotLayout };
+    const scalarColumns = featureColumnsMap.numerical.filter(column => column.arrayIndex === undefined);
+    const radarColumns = scalarColumns.length >= MIN_RADAR_AXES
+      ? scalarColumns
+      : featureColumnsMap.numerical.slice(0, MAX_RADAR_AXES);
+
+    // z-score every column over the clustered songs, then average per cluster
+    const stats = radarColumns.map(({ columnIndex }) => {
+      const values = profileRows.map(row => row.vector[columnIndex]);
+      const mean = values.reduce((acc, v) => acc + v, 0) / values.length;
+      const std = Math.sqrt(values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / values.length);
+      return { mean, std };
+    });
+    const theta = radarColumns.map(column => column.name);
+
+    const plotData: Partial<Plotly.PlotData>[] = profileClusters
+      .filter(cluster => cluster !== NOISE_LABEL)
+      .map(cluster => {
+        const members = profileRows.filter(row => row.cluster === cluster);
+        const r = radarColumns.map(({ columnIndex }, i) => {
+          if (!(stats[i].std > 0)) return 0;
+          const mean = members.reduce((acc, row) => acc + row.vector[columnIndex], 0) / members.length;
+          return (mean - stats[i].mean) / stats[i].std;
+        });
+        const color = clusterColorOf(cluster);
+        return {
+          type: 'scatterpolar',
+          r: [...r, r[0]], // Repeat the first axis to close the outline
+          theta: [...theta, theta[0]],
+          fill: 'toself',
+          opacity: 0.6,
+          line: { color },
+          marker: { color, size: 4 },
+          name: clusterNameOf(cluster),
+          text: [...r, r[0]].map((z, i) => `${clusterNameOf(cluster)}<br>${[...theta, theta[0]][i]}: ${z >= 0 ? '+' : ''}${z.toFixed(2)} SD`),
+          hoverinfo: 'text'
+        } as Partial<Plotly.PlotData>;
+      });
+
+    const plotLayout: Partial<Plotly.Layout> = {
+      ...basePlotLayout,
+      title: `Cluster Profiles - Mean of standardized features${scalarColumns.length < MIN_RADAR_AXES ? ` (first ${radarColumns.length} columns)` : ''}`,
+      showlegend: true,
+      polar: {
+        bgcolor: 'rgba(0,0,0,0)',
+        radialaxis: { color: '#cccccc', gridcolor: '#555555', linecolor: '#777777' },
+        angularaxis: { color: '#cccccc', gridcolor: '#555555', linecolor: '#777777' }
+      }
+    };
+    delete plotLayout.xaxis; delete plotLayout.yaxis; delete plotLayout.scene;
+    return { plotData, plotLayout };
+  }, [canShowProfiles, featureColumnsMap.numerical, profileRows, profileClusters, clusterLabels]);
+
+  // Default the box plot to the first numerical column, and reset it when the columns change
+  const boxColumn = featureColumnsMap.numerical.find(column => column.columnIndex === boxPlotColumn) ?? featureColumnsMap.numerical[0];
+
+  const boxPlot = useMemo(() => {
+    if (!canShowProfiles || !boxColumn) return { plotData: [], plotLayout: basePlotLayout };
+    const plotData: Partial<Plotly.PlotData>[] = profileClusters.map(cluster => {
+      const members = profileRows.filter(row => row.cluster === cluster);
+      const color = clusterColorOf(cluster);
+      return {
+        type: 'box',
+        y: members.map(row => row.vector[boxColumn.columnIndex]),
+        name: clusterNameOf(cluster),
+        boxpoints: 'all',
+        jitter: 0.4,
+        pointpos: 0,
+        marker: { color, size: 4 },
+        line: { color },
+        text: members.map(row => songMap.get(row.id)?.name ?? row.id),
+        hoverinfo: 'y+text'
+      } as Partial<Plotly.PlotData>;
+    });
+    const plotLayout: Partial<Plotly.Layout> = {
+      ...basePlotLayout,
+      title: `${boxColumn.name} by Cluster`,
+      showlegend: false,
+      xaxis: { ...basePlotLayout.xaxis, title: 'Cluster' },
+      yaxis: { ...basePlotLayout.yaxis, title: boxColumn.name }
+    };
+    delete plotLayout.scene;
+    return { plotData, plotLayout };
+  }, [canShowProfiles, boxColumn, profileRows, profileClusters, songMap, clusterLabels]);
+  // --- END NEW ---
+
+  // --- NEW: Parallel coordinates and scatter-plot matrix of the raw or processed feature matrix ---
+  const isMatrixView = plotView === 'parcoords' || plotView === 'splom';
+  const matrix = matrixSource === 'raw' ? unprocessedData : (processedData ?? unprocessedData);
+  const matrixRows = useMemo(() => {
+    if (!matrix) return [];
+    return matrix.songIds
+      .map((id, index) => ({ id, cluster: kmeansAssignments[id] as number | undefined, vector: matrix.vectors[index] }))
+      .filter(row => activeSongIds.has(row.id));
+  }, [matrix, kmeansAssignments, activeSongIds]);
+  const canShowMatrixViews = matrixRows.length > 0 && featureColumnsMap.numerical.length > 0;
+
+  // Scalar features first, then vector components, capped per view unless the user picked columns
+  const matrixColumns = useMemo(() => {
+    const numerical = featureColumnsMap.numerical;
+    if (matrixColumnSelection) {
+      return numerical.filter(column => matrixColumnSelection.includes(column.columnIndex));
+    }
+    const ordered = [
+      ...numerical.filter(column => column.arrayIndex === undefined),
+      ...numerical.filter(column => column.arrayIndex !== undefined)
+    ];
+    return ordered.slice(0, plotView === 'splom' ? DEFAULT_SPLOM_COLUMNS : DEFAULT_PARCOORDS_COLUMNS);
+  }, [featureColumnsMap.numerical, matrixColumnSelection, plotView]);
+
+  const toggleMatrixColumn = (columnIndex: number) => {
+    const current = matrixColumns.map(column => column.columnIndex);
+    setMatrixColumnSelection(current.includes(columnIndex)
+      ? current.filter(index => index !== columnIndex)
+      : [...current, columnIndex]);
+  };
+
+  // Discrete cluster colouring: parcoords lines need a numeric value plus a stepped colour scale
+  const matrixColoring = useMemo(() => {
+    const clusters = Array.from(new Set(matrixRows.map(row => row.cluster).filter((c): c is number => c !== undefined))).sort((a, b) => a - b);
+    const groupOf = (cluster: number | undefined) => (cluster === undefined ? clusters.length : clusters.indexOf(cluster));
+    const groupColors = [...clusters.map(cluster => clusterColorOf(cluster)), UNCLUSTERED_COLOR];
+    const numGroups = groupColors.length;
+    const colorscale: [number, string][] = [];
+    groupColors.forEach((color, g) => {
+      colorscale.push([g / numGroups, color], [(g + 1) / numGroups, color]);
+    });
+    return { groupOf, groupColors, numGroups, colorscale };
+  }, [matrixRows, clusterLabels]);
+
+  const parcoordsPlot = useMemo(() => {
+    if (!canShowMatrixViews || matrixColumns.length === 0) return { plotData: [], plotLayout: basePlotLayout };
+    const { groupOf, numGroups, colorscale } = matrixColoring;
+    const trace = {
+      type: 'parcoords',
+      line: {
+        color: matrixRows.map(row => groupOf(row.cluster)),
+        colorscale,
+        cmin: -0.5,
+        cmax: numGroups - 0.5,
+        showscale: false
+      },
+      dimensions: matrixColumns.map(column => ({
+        label: column.name,
+        values: matrixRows.map(row => row.vector[column.columnIndex]),
+        // Keep brushes when the plot is rebuilt
+        ...(parcoordsRanges[column.columnIndex] && { constraintrange: parcoordsRanges[column.columnIndex] })
+      })),
+      labelfont: { color: '#cccccc', size: 10 },
+      tickfont: { color: '#cccccc', size: 9 },
+      rangefont: { color: '#888888', size: 9 }
+    };
+    const plotLayout: Partial<Plotly.Layout> = {
+      ...basePlotLayout,
+      title: `Parallel Coordinates - ${matrix === unprocessedData ? 'Raw Features' : 'Processed Data'} (drag along an axis to brush)`,
+      margin: { l: 60, r: 60, b: 30, t: 90, pad: 4 }
+    };
+    delete plotLayout.xaxis; delete plotLayout.yaxis; delete plotLayout.scene;
+    return { plotData: [trace as unknown as Partial<Plotly.PlotData>], plotLayout };
+  }, [canShowMatrixViews, matrixColumns, matrixRows, matrixColoring, parcoordsRanges, matrix, unprocessedData]);
+
+  const splomPlot = useMemo(() => {
+    if (!canShowMatrixViews || matrixColumns.length < 2) return { plotData: [], plotLayout: basePlotLayout };
+    const { groupOf, groupColors } = matrixColoring;
+    const trace = {
+      type: 'splom',
+      dimensions: matrixColumns.map(column => ({
+        label: column.name,
+        values: matrixRows.map(row => row.vector[column.columnIndex])
+      })),
+      marker: { color: matrixRows.map(row => groupColors[groupOf(row.cluster)]), size: 4, opacity: 0.8 },
+      text: matrixRows.map(row => songMap.get(row.id)?.name ?? row.id),
+      hoverinfo: 'text',
+      diagonal: { visible: false },
+      showupperhalf: false
+    };
+    const plotLayout: Partial<Plotly.Layout> = {
+      ...basePlotLayout,
+      title: `Scatter-Plot Matrix - ${matrix === unprocessedData ? 'Raw Features' : 'Processed Data'} (box/lasso select to brush)`,
+      dragmode: 'select',
+      showlegend: false
+    };
+    delete plotLayout.xaxis; delete plotLayout.yaxis; delete plotLayout.scene;
+    return { plotData: [trace as unknown as Partial<Plotly.PlotData>], plotLayout };
+  }, [canShowMatrixViews, matrixColumns, matrixRows, matrixColoring, songMap, matrix, unprocessedData]);
+
+  const handleParcoordsRestyle = (event: Readonly<Plotly.PlotRestyleEvent>) => {
+    const update = event?.[0] as Record<string, unknown> | undefined;
+    if (!update) return;
+    setParcoordsRanges(prev => {
+      const next = { ...prev };
+      Object.entries(update).forEach(([key, value]) => {
+        const match = key.match(/^dimensions\[(\d+)\]\.constraintrange$/);
+        const column = match ? matrixColumns[parseInt(match[1], 10)] : undefined;
+        if (!column) return;
+        const ranges = toRanges(value);
+        if (ranges.length > 0) {
+          next[column.columnIndex] = ranges;
+        } else {
+          delete next[column.columnIndex];
+        }
+      });
+      return next;
+    });
+  };
+
+  const handleSplomSelected = (event: Readonly<Plotly.PlotSelectionEvent>) => {
+    const ids = (event?.points ?? []).map(point => matrixRows[point.pointIndex]?.id).filter((id): id is string => !!id);
+    onBrushSongs(ids);
+  };
+
+  // Parcoords brushes select the songs inside every brushed axis range
+  useEffect(() => {
+    if (plotView !== 'parcoords') return;
+    const brushed = Object.entries(parcoordsRanges);
+    if (brushed.length === 0) {
+      onBrushSongs(null);
+      return;
+    }
+    onBrushSongs(matrixRows
+      .filter(row => brushed.every(([column, ranges]) => {
+        const value = row.vector[Number(column)];
+        return ranges.some(([low, high]) => value >= low && value <= high);
+      }))
+      .map(row => row.id));
+  }, [parcoordsRanges, matrixRows, plotView, onBrushSongs]);
+
+  // A brush only makes sense for the columns and view it was drawn on
+  useEffect(() => {
+    setParcoordsRanges({});
+    onBrushSongs(null);
+  }, [plotView, matrixSource, matrixColumnSelection, onBrushSongs]);
+  // --- END NEW ---
+
+  // --- NEW: Correlation heatmap of the raw numerical columns ---
+  // Matrix column names ('mfccMeans[3]') shown with the same names as the axis selectors ('MFCC 4')
+  const columnDisplayNames = useMemo(() => new Map(featureColumnsMap.numerical.map(column => [
+    column.arrayIndex === undefined ? column.featureKey : `${column.featureKey}[${column.arrayIndex}]`,
+    column.name
+  ])), [featureColumnsMap.numerical]);
+  const displayNameOf = (columnName: string) => columnDisplayNames.get(columnName) ?? columnName;
+
+  const correlationPlot = useMemo(() => {
+    if (!featureCorrelation || featureCorrelation.columnNames.length === 0) return { plotData: [], plotLayout: basePlotLayout };
+    const labels = featureCorrelation.columnNames.map(name => columnDisplayNames.get(name) ?? name);
+    const trace = {
+      type: 'heatmap',
+      z: featureCorrelation.matrix,
+      x: labels,
+      y: labels,
+      zmin: -1,
+      zmax: 1,
+      colorscale: CORRELATION_COLORSCALE,
+      colorbar: { tickfont: { color: '#cccccc' }, thickness: 12 },
+      hovertemplate: '%{y} / %{x}<br>r = %{z:.3f}<extra></extra>'
+    };
+    const plotLayout: Partial<Plotly.Layout> = {
+      ...basePlotLayout,
+      title: `Feature Correlations - Raw Features (${labels.length} columns)`,
+      xaxis: { ...basePlotLayout.xaxis, tickfont: { size: 8 }, showgrid: false },
+      yaxis: { ...basePlotLayout.yaxis, tickfont: { size: 8 }, showgrid: false, autorange: 'reversed' },
+      margin: { l: 110, r: 20, b: 110, t: 50, pad: 2 },
+      showlegend: false
+    };
+    delete plotLayout.scene;
+    return { plotData: [trace as unknown as Partial<Plotly.PlotData>], plotLayout };
+  }, [featureCorrelation, columnDisplayNames]);
+
+  // --- NEW: Scree plot of the PCA components (bars) with the cumulative explained variance (line) ---
+  const screePlot = useMemo(() => {
+    if (!pcaReport || pcaReport.explainedVarianceRatio.length === 0) return { plotData: [], plotLayout: basePlotLayout };
+    const components = pcaReport.explainedVarianceRatio.map((_, d) => `PC${d + 1}`);
+    const loadingsText = pcaReport.topLoadings.map(loadings =>
+      loadings.map(({ column, loading }) => `${columnDisplayNames.get(column) ?? column}: ${loading >= 0 ? '+' : ''}${loading.toFixed(3)}`).join('<br>')
+    );
+    const plotData: Partial<Plotly.PlotData>[] = [
+      {
+        x: components,
+        y: pcaReport.explainedVarianceRatio.map(ratio => ratio * 100),
+        type: 'bar',
+        name: 'Explained variance',
+        // Components shown in the embedding are highlighted; the rest are computed for the plot only
+        marker: { color: components.map((_, d) => (d < reductionDimensions ? plotlyColors[0] : '#555555')) },
+        text: pcaReport.explainedVarianceRatio.map((ratio, d) => `${components[d]}: ${(ratio * 100).toFixed(1)}%<br>Top loadings:<br>${loadingsText[d]}`),
+        hoverinfo: 'text',
+        textposition: 'none'
+      },
+      {
+        x: components,
+        y: pcaReport.cumulativeVariance.map(ratio => ratio * 100),
+        type: 'scatter',
+        mode: 'lines+markers',
+        name: 'Cumulative',
+        marker: { color: plotlyColors[1], size: 6 },
+        line: { color: plotlyColors[1] },
+        hovertemplate: '%{x}: %{y:.1f}% cumulative<extra></extra>'
+      }
+    ];
+    const plotLayout: Partial<Plotly.Layout> = {
+      ...basePlotLayout,
+      title: 'PCA Scree Plot - Explained Variance per Component',
+      showlegend: true,
+      xaxis: { ...basePlotLayout.xaxis, title: 'Component' },
+      yaxis: { ...basePlotLayout.yaxis, title: 'Variance explained (%)', range: [0, 100] }
+    };
+    delete plotLayout.scene;
+    return { plotData, plotLayout };
+  }, [pcaReport, reductionDimensions, columnDisplayNames]);
+
+  const handleRedundancyThresholdChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const threshold = parseFloat(e.target.value);
+    if (Number.isFinite(threshold)) {
+      onRedundancyThresholdChange(Math.min(Math.max(threshold, MIN_REDUNDANCY_THRESHOLD), MAX_REDUNDANCY_THRESHOLD));
+    }
+  };
+  // --- END NEW ---
+
+  const activePlot = plotView === 'kSweep' ? kSweepPlot
+    : plotView === 'radar' ? radarPlot
+    : plotView === 'box' ? boxPlot
+    : plotView === 'parcoords' ? parcoordsPlot
+    : plotView === 'splom' ? splomPlot
+    : plotView === 'correlation' ? correlationPlot
+    : plotView === 'scree' ? screePlot
+    : plotDataAndLayout;
+
+  // --- NEW: Lasso / box selection of clustered songs (2D clustering view only) ---
+  const canLassoSongs = plotView === 'scatter' && selectedDataStage === 'clustering' && selectedDimensions === 2;
+
+  const handlePlotSelected = (event: Readonly<Plotly.PlotSelectionEvent>) => {
+    // Only song traces carry ids; centroids and the classified song are ignored
+    const ids = (event?.points ?? [])
+      .map(point => point.customdata)
+      .filter((id): id is string => typeof id === 'string' && kmeansAssignments[id] !== undefined);
+    setLassoSongIds(Array.from(new Set(ids)));
+  };
+
+  const handleMoveLassoSongs = () => {
+    onReassignSongs(lassoSongIds, lassoTargetCluster);
+    setLassoSongIds([]);
+  };
+
+  // A selection only refers to the assignments it was made on
+  useEffect(() => {
+    setLassoSongIds([]);
+  }, [selectedDataStage, selectedDimensions, plotView, kmeansCentroids.length]);
+
   return (
     <div
       className={`flex flex-col items-center justify-start ${className || ''}`}
@@ -935,14 +1631,29 @@ const VisualizationPanel: React.FC<VisualizationPanelProps> = ({
               '--aug-border-y': '2px'
             } as React.CSSProperties}
           >
+              {plotView === 'dendrogram' && clusterTree ? (
+                <Dendrogram
+                    tree={clusterTree}
+                    songNames={songNames}
+                    assignments={kmeansAssignments}
+                    numClusters={selectedK}
+                    onCut={onCutClusterTree}
+                    colors={clusterPalette}
+                />
+              ) : (
               <Plot
-                  data={plotDataAndLayout.plotData as Plotly.Data[]}
-                  layout={plotDataAndLayout.plotLayout}
+                  data={activePlot.plotData as Plotly.Data[]}
+                  layout={activePlot.plotLayout}
+                  onClick={plotView === 'kSweep' ? handleKSweepClick : undefined}
+                  onSelected={canLassoSongs ? handlePlotSelected : plotView === 'splom' ? handleSplomSelected : undefined}
+                  onDeselect={() => { setLassoSongIds([]); if (plotView === 'splom') onBrushSongs(null); }}
+                  onRestyle={plotView === 'parcoords' ? handleParcoordsRestyle : undefined}
                   useResizeHandler={true}
                   style={{ width: '100%', height: '100%' }}
                   config={{ responsive: true, displaylogo: false }}
                   className="w-full h-full"
               />
+              )}
           </BasePanel>
       </div>
 
@@ -951,8 +1662,206 @@ const VisualizationPanel: React.FC<VisualizationPanelProps> = ({
         className="w-full flex-shrink-0 p-2 mt-2 border-t border-b border-[var(--accent-secondary)]/50 bg-gray-950/10"
         style={{ backdropFilter: 'blur(2px)' }} // Optional: Add blur for better separation
         >
+          {/* NEW: Cluster-quality metrics strip (clustering stage only) */}
+          {selectedDataStage === 'clustering' && kmeansMetrics && (
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs mb-2 pb-2 border-b border-gray-700/50">
+                <span className="text-gray-400">Quality:</span>
+                <span title="Within-cluster sum of squared distances (lower is tighter)">
+                    <span className="text-gray-400">Inertia</span> {kmeansMetrics.inertia.toFixed(3)}
+                </span>
+                <span title="Mean silhouette in [-1, 1] (higher is better)">
+                    <span className="text-gray-400">Silhouette</span> {formatMetric(kmeansMetrics.silhouette, 3)}
+                </span>
+                <span title="Davies-Bouldin index (lower is better)">
+                    <span className="text-gray-400">Davies-Bouldin</span> {formatMetric(kmeansMetrics.daviesBouldin, 3)}
+                </span>
+                <span title="Calinski-Harabasz index (higher is better)">
+                    <span className="text-gray-400">Calinski-Harabasz</span> {formatMetric(kmeansMetrics.calinskiHarabasz, 2)}
+                </span>
+            </div>
+          )}
+
+          {/* NEW: Feature weights applied after scaling (processed stage only) */}
+          {selectedDataStage === 'processed' && weightedFeatures.length > 0 && (
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs mb-2 pb-2 border-b border-gray-700/50"
+                title="Processed columns are multiplied by these weights after scaling; their share of every distance grows with the square of the weight">
+                <span className="text-gray-400">Weights:</span>
+                {weightedFeatures.map(({ name, weight }) => (
+                  <span key={name}><span className="text-gray-400">{name}</span> ×{weight.toFixed(2)}</span>
+                ))}
+            </div>
+          )}
+
+          {/* NEW: Move songs selected with the lasso/box tool to another cluster */}
+          {canLassoSongs && lassoSongIds.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 text-xs mb-2 pb-2 border-b border-gray-700/50">
+                <span className="text-gray-400">{lassoSongIds.length} selected song(s) →</span>
+                <select
+                    value={lassoTargetCluster}
+                    onChange={(e) => setLassoTargetCluster(parseInt(e.target.value, 10))}
+                    className="bg-gray-800/40 border border-gray-600 px-1 py-0.5 text-xs focus:outline-none focus:border-[var(--accent-secondary)]"
+                >
+                    {kmeansCentroids.map((_, cluster) => (
+                      <option key={cluster} value={cluster}>{clusterNameOf(cluster)}</option>
+                    ))}
+                    <option value={kmeansCentroids.length}>New cluster ({kmeansCentroids.length})</option>
+                    {clusteringMethod === 'dbscan' && <option value={NOISE_LABEL}>Noise</option>}
+                </select>
+                <button
+                    onClick={handleMoveLassoSongs}
+                    className="px-2 py-0.5 bg-[var(--accent-secondary-active)] text-white hover:opacity-80"
+                >Move</button>
+                <button
+                    onClick={() => setLassoSongIds([])}
+                    className="px-2 py-0.5 bg-gray-800/40 hover:bg-gray-500 text-gray-300"
+                >Cancel</button>
+            </div>
+          )}
+
           {/* Control Row 1: ALWAYS contains Data Stage, Dimensionality, and Color selection */}
           <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs mb-2">
+              {/* 0. View (NEW): scatter plot or k sweep curves */}
+              <div className="flex items-center gap-1">
+                  <label htmlFor="plot-view-select" className="text-gray-400">View:</label>
+                  <select
+                      id="plot-view-select"
+                      value={plotView}
+                      onChange={(e) => setPlotView(e.target.value as PlotView)}
+                      className="bg-gray-800/40 border border-gray-600 px-1 py-0.5 text-xs focus:outline-none focus:border-[var(--accent-secondary)]"
+                  >
+                      <option value="scatter">Scatter</option>
+                      <option value="kSweep" disabled={!kSweepResult}>k Sweep</option>
+                      <option value="dendrogram" disabled={!clusterTree}>Dendrogram</option>
+                      <option value="radar" disabled={!canShowProfiles}>Cluster Profiles</option>
+                      <option value="box" disabled={!canShowProfiles}>Feature by Cluster</option>
+                      <option value="parcoords" disabled={!unprocessedData}>Parallel Coordinates</option>
+                      <option value="splom" disabled={!unprocessedData}>Scatter Matrix</option>
+                      <option value="correlation" disabled={!featureCorrelation}>Correlations</option>
+                      <option value="scree" disabled={!pcaReport}>PCA Scree</option>
+                  </select>
+              </div>
+
+              {/* NEW: Matrix and columns for the parallel-coordinates / SPLOM views */}
+              {isMatrixView && (
+                <>
+                  <div className="flex items-center gap-1">
+                      <label htmlFor="matrix-source-select" className="text-gray-400">Matrix:</label>
+                      <select
+                          id="matrix-source-select"
+                          value={matrixSource}
+                          onChange={(e) => setMatrixSource(e.target.value as MatrixSource)}
+                          className="bg-gray-800/40 border border-gray-600 px-1 py-0.5 text-xs focus:outline-none focus:border-[var(--accent-secondary)]"
+                      >
+                          <option value="raw" disabled={!unprocessedData}>Raw</option>
+                          <option value="processed" disabled={!processedData}>Processed</option>
+                      </select>
+                  </div>
+                  <details className="relative">
+                      <summary className="cursor-pointer text-gray-400 select-none">Columns ({matrixColumns.length})</summary>
+                      <div className="absolute bottom-full mb-1 z-20 max-h-60 w-48 overflow-y-auto hide-scrollbar bg-gray-900/95 border border-gray-600 p-1">
+                          <button
+                              onClick={() => setMatrixColumnSelection(null)}
+                              className="w-full text-left px-1 text-[var(--accent-secondary)] hover:underline"
+                          >Reset to defaults</button>
+                          {featureColumnsMap.numerical.map(column => (
+                            <label key={column.columnIndex} className="flex items-center gap-1 px-1 cursor-pointer hover:bg-gray-700/50">
+                                <input
+                                    type="checkbox"
+                                    checked={matrixColumns.some(c => c.columnIndex === column.columnIndex)}
+                                    onChange={() => toggleMatrixColumn(column.columnIndex)}
+                                    className="h-3 w-3"
+                                />
+                                <span className="truncate">{column.name}</span>
+                            </label>
+                          ))}
+                      </div>
+                  </details>
+                </>
+              )}
+
+              {/* NEW: Redundancy report: pairs above the threshold, dropping one column of each */}
+              {plotView === 'correlation' && redundancyReport && (
+                <>
+                  <div className="flex items-center gap-1">
+                      <label htmlFor="redundancy-threshold-input" className="text-gray-400">|r| ≥</label>
+                      <input
+                          id="redundancy-threshold-input"
+                          type="number"
+                          min={MIN_REDUNDANCY_THRESHOLD}
+                          max={MAX_REDUNDANCY_THRESHOLD}
+                          step={0.01}
+                          value={redundancyReport.threshold}
+                          onChange={handleRedundancyThresholdChange}
+                          className="w-14 bg-gray-800/40 border border-gray-600 px-1 py-0.5 text-xs focus:outline-none focus:border-[var(--accent-secondary)]"
+                      />
+                  </div>
+                  <details className="relative">
+                      <summary className="cursor-pointer text-gray-400 select-none">Redundant pairs ({redundancyReport.pairs.length})</summary>
+                      <div className="absolute bottom-full mb-1 z-20 max-h-60 w-72 overflow-y-auto hide-scrollbar bg-gray-900/95 border border-gray-600 p-1">
+                          {redundancyReport.pairs.length === 0 && <p className="px-1 text-gray-400">No pairs above the threshold.</p>}
+                          {redundancyReport.pairs.map(({ a, b, correlation }) => (
+                            <div key={`${a}|${b}`} className="flex items-center gap-1 px-1" title={`${a} / ${b}`}>
+                                <span className={`truncate ${redundancyReport.columnsToDrop.includes(a) ? 'line-through text-gray-500' : ''}`}>{displayNameOf(a)}</span>
+                                <span className="text-gray-500">/</span>
+                                <span className={`truncate ${redundancyReport.columnsToDrop.includes(b) ? 'line-through text-gray-500' : ''}`}>{displayNameOf(b)}</span>
+                                <span className="ml-auto text-gray-400">{correlation.toFixed(3)}</span>
+                            </div>
+                          ))}
+                      </div>
+                  </details>
+                  <button
+                      onClick={onDropRedundantColumns}
+                      disabled={redundancyReport.columnsToDrop.length === 0}
+                      title={redundancyReport.columnsToDrop.map(displayNameOf).join(', ')}
+                      className="px-2 py-0.5 bg-[var(--accent-secondary-active)] text-white hover:opacity-80 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >Drop {redundancyReport.columnsToDrop.length} column(s)</button>
+                  {droppedColumns.length > 0 && (
+                    <button
+                        onClick={onRestoreDroppedColumns}
+                        title={droppedColumns.map(displayNameOf).join(', ')}
+                        className="px-2 py-0.5 bg-gray-800/40 hover:bg-gray-500 text-gray-300"
+                    >Restore {droppedColumns.length} dropped</button>
+                  )}
+                </>
+              )}
+
+              {/* NEW: Columns loading most on each principal component */}
+              {plotView === 'scree' && pcaReport && (
+                <details className="relative">
+                    <summary className="cursor-pointer text-gray-400 select-none">Top loadings</summary>
+                    <div className="absolute bottom-full mb-1 z-20 max-h-60 w-72 overflow-y-auto hide-scrollbar bg-gray-900/95 border border-gray-600 p-1">
+                        {pcaReport.topLoadings.map((loadings, d) => (
+                          <div key={d} className="mb-1 px-1">
+                              <p className={d < reductionDimensions ? 'text-[var(--accent-secondary)]' : 'text-gray-400'}>{reducedAxisLabel(d)}</p>
+                              {loadings.map(({ column, loading }) => (
+                                <div key={column} className="flex items-center gap-1 pl-2" title={column}>
+                                    <span className="truncate">{displayNameOf(column)}</span>
+                                    <span className="ml-auto text-gray-400">{loading >= 0 ? '+' : ''}{loading.toFixed(3)}</span>
+                                </div>
+                              ))}
+                          </div>
+                        ))}
+                    </div>
+                </details>
+              )}
+
+              {/* NEW: Feature shown in the box plot view */}
+              {plotView === 'box' && (
+                <div className="flex items-center gap-1">
+                    <label htmlFor="box-feature-select" className="text-gray-400">Feature:</label>
+                    <select
+                        id="box-feature-select"
+                        value={boxColumn?.columnIndex ?? ''}
+                        onChange={(e) => setBoxPlotColumn(parseInt(e.target.value, 10))}
+                        className="bg-gray-800/40 border border-gray-600 px-1 py-0.5 text-xs focus:outline-none focus:border-[var(--accent-secondary)] min-w-[100px] hide-scrollbar"
+                    >
+                        {featureColumnsMap.numerical.map(column => (
+                          <option key={column.columnIndex} value={column.columnIndex}>{column.name}</option>
+                        ))}
+                    </select>
+                </div>
+              )}
+
               {/* 1. Data Stage */}
               <div className="flex items-center gap-1">
                   <label htmlFor="data-stage-select" className="text-gray-400">Stage:</label>
@@ -999,7 +1908,7 @@ const VisualizationPanel: React.FC<VisualizationPanelProps> = ({
                         <option 
                           key={opt.value} 
                           value={opt.value} 
-                          disabled={selectedDataStage !== 'clustering' && opt.value === 'cluster'}
+                          disabled={selectedDataStage !== 'clustering' && (opt.value === 'cluster' || opt.value === 'silhouette')}
                         >
                           {opt.label}
                         </option>
@@ -1021,7 +1930,7 @@ const VisualizationPanel: React.FC<VisualizationPanelProps> = ({
           </div>
 
           {/* Control Row 2: ALWAYS contains axis controls, conditionally shows Z-axis based on dimension */}
-          <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs">
+          <div className={`flex flex-wrap items-center gap-x-4 gap-y-2 text-xs ${plotView !== 'scatter' ? 'hidden' : ''}`}>
               {/* X-Axis Feature */}
               <div className="flex items-center gap-1">
                   <label htmlFor="axis-x-select" className="text-gray-400">X:</label>
@@ -14,12 +14,35 @@ declare module '@saehrimnir/druidjs' {
         // Add other properties/methods if needed (e.g., rows, cols)
         rows: number;
         cols: number;
+        mult(value: number): Matrix; // Element-wise, returns a new matrix
     }
 
     // Specific DR methods we use
-    export class PCA extends DR {}
-    export class TSNE extends DR {}
-    export class UMAP extends DR {}
+    export class PCA extends DR {
+        principal_components(): Matrix;
+    }
+    export class TSNE extends DR {
+        transform(iterations?: number): Matrix;
+        // Stepwise optimisation, used to control the early exaggeration phase
+        check_init(): this;
+        next(): Matrix;
+        _P: Matrix; // Joint probabilities of the input points, set by init
+        get projection(): Matrix;
+    }
+    export class UMAP extends DR {
+        transform(iterations?: number): Matrix; // Iterations = training epochs
+    }
+    export class MDS extends DR {}
+    export class ISOMAP extends DR {}
+    export class LLE extends DR {}
+    export class LTSA extends DR {}
+    export class TriMap extends DR {}
+
+    // Distance metrics (usable as the `metric` parameter)
+    export function euclidean(a: number[], b: number[]): number;
+    export function manhattan(a: number[], b: number[]): number;
+    export function cosine(a: number[], b: number[]): number;
+    export function chebyshev(a: number[], b: number[]): number;
 
     // Add other exports if used (e.g., distance functions)
 } 
\ No newline at end of file
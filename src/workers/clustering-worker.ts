@@ -0,0 +1,250 @@
+// musiccluster/src/workers/clustering-worker.ts
+// One-shot clustering algorithms that are not stepped like K-Means. Every algorithm
+// returns a label per point in the same shape as the K-Means assignments (noise = -1).
+import { dbscan, DbscanParams, NOISE_LABEL } from './clustering/dbscan';
+import { agglomerative, AgglomerativeParams, cutLinkage, Merge } from './clustering/agglomerative';
+import { fitGmm, GmmParams } from './clustering/gmm';
+import { createRandom } from './clustering/centroid-initialization';
+import { ClusterMetrics, computeClusterMetrics } from './clustering/cluster-metrics';
+import { fuzzyMembership } from './clustering/soft-membership';
+
+console.log('[Clustering Worker] Loading...');
+
+// --- Interfaces for Worker Communication ---
+type ClusteringMethod = 'dbscan' | 'agglomerative' | 'gmm';
+type ResultMethod = ClusteringMethod | 'kmeans'; // Manual edits can start from a K-Means result
+
+type ClusteringParams =
+    | { method: 'dbscan', params: DbscanParams }
+    | { method: 'agglomerative', params: AgglomerativeParams }
+    | { method: 'gmm', params: GmmParams & { seed?: number } };
+
+type RunClusteringPayload = ClusteringParams & {
+    data: number[][];
+    songIds: string[];
+};
+
+// Re-cut an agglomerative merge tree at a new number of clusters without rebuilding it
+interface CutTreePayload {
+    data: number[][]; // Same points, in the same order, as the run that built the tree
+    songIds: string[];
+    merges: Merge[];
+    nClusters: number;
+}
+
+// Songs moved between clusters by hand: centroids, memberships and metrics follow the edited labels
+interface ReassignClustersPayload {
+    method: ResultMethod;      // Algorithm that produced the labels being edited
+    data: number[][];          // Points in the space the clusters were computed in
+    songIds: string[];
+    assignments: number[];     // Edited labels; -1 marks noise
+    numClusters: number;       // Cluster count to keep, so emptied clusters keep their index
+    centroids: number[][];     // Current centroids; kept for clusters that end up empty
+}
+
+// What each algorithm hands back to the worker before the common post-processing
+interface AlgorithmOutput {
+    labels: number[];
+    probabilities?: number[][]; // Soft membership (GMM)
+    merges?: Merge[];           // Merge history (agglomerative)
+    details: Record<string, number | boolean>; // Algorithm-specific numbers for the log
+    numClusters?: number;       // Defaults to the highest label + 1
+    previousCentroids?: number[][]; // Used for clusters without points (manual edits)
+}
+
+interface ClusteringCompletePayload {
+    method: ResultMethod;
+    songIds: string[];
+    assignments: number[];    // Same shape as K-Means assignments; -1 marks noise
+    numClusters: number;      // Clusters excluding noise
+    noiseCount: number;
+    centroids: number[][];    // Mean of each cluster's points, in the clustered space
+    memberships: number[][];  // Soft membership [point][cluster]; all zeros for noise points
+    merges?: Merge[];
+    metrics: ClusterMetrics | null; // Computed on non-noise points; silhouettes follow their order
+    details: Record<string, number | boolean>;
+}
+
+interface ClusteringErrorPayload {
+    error: string;
+    method?: ResultMethod;
+}
+
+type WorkerRecvMessageData =
+    | { type: 'runClustering', payload: RunClusteringPayload }
+    | { type: 'cutTree', payload: CutTreePayload }
+    | { type: 'reassignClusters', payload: ReassignClustersPayload };
+
+type WorkerSendMessageData =
+    | { type: 'clusteringComplete', payload: ClusteringCompletePayload }
+    | { type: 'clusteringError', payload: ClusteringErrorPayload };
+
+// Helper to post messages with type safety
+const postMsg = (message: WorkerSendMessageData) => {
+    self.postMessage(message);
+};
+
+// --- Algorithm Registry ---
+// Adding an algorithm means adding a method id, its params to ClusteringParams and an entry here.
+const runAlgorithm = (data: number[][], request: ClusteringParams): AlgorithmOutput => {
+    switch (request.method) {
+        case 'dbscan': {
+            const result = dbscan(data, request.params);
+            return { labels: result.labels, details: { eps: result.eps, minPts: request.params.minPts } };
+        }
+        case 'agglomerative': {
+            const result = agglomerative(data, request.params);
+            return { labels: result.labels, merges: result.merges, details: {} };
+        }
+        case 'gmm': {
+            const { seed, ...gmmParams } = request.params;
+            const result = fitGmm(data, gmmParams, createRandom(seed));
+            return {
+                labels: result.labels,
+                probabilities: result.probabilities,
+                details: { logLikelihood: result.logLikelihood, iterations: result.iterations, converged: result.converged }
+            };
+        }
+        default:
+            throw new Error(`Unknown clustering method: ${(request as { method: string }).method}`);
+    }
+};
+
+// Mean of each cluster's points (labels must be 0..numClusters-1 for non-noise points)
+const clusterMeans = (data: number[][], labels: number[], numClusters: number): number[][] => {
+    const numDims = data[0].length;
+    const sums = Array.from({ length: numClusters }, () => Array(numDims).fill(0));
+    const counts = Array(numClusters).fill(0);
+    data.forEach((point, i) => {
+        const label = labels[i];
+        if (label === NOISE_LABEL) return;
+        counts[label]++;
+        point.forEach((v, d) => { sums[label][d] += v; });
+    });
+    return sums.map((sum, c) => sum.map(v => v / Math.max(counts[c], 1)));
+};
+
+// Shared post-processing: cluster count, noise, centroids and quality metrics
+const postClusteringResult = (method: ResultMethod, data: number[][], songIds: string[], output: AlgorithmOutput) => {
+    const numClusters = output.labels.reduce((max, label) => Math.max(max, label + 1), output.numClusters ?? 0);
+    const noiseCount = output.labels.filter(label => label === NOISE_LABEL).length;
+    const clusterSizes = Array(numClusters).fill(0);
+    output.labels.forEach(label => { if (label !== NOISE_LABEL) clusterSizes[label]++; });
+    const centroids = clusterMeans(data, output.labels, numClusters).map((mean, c) =>
+        clusterSizes[c] === 0 && output.previousCentroids?.[c]?.length === mean.length ? output.previousCentroids[c] : mean
+    );
+
+    // GMM brings its own posteriors; the others use fuzzy memberships around the cluster means
+    const memberships = output.probabilities ?? data.map((point, i) =>
+        output.labels[i] === NOISE_LABEL ? Array(numClusters).fill(0) : fuzzyMembership(point, centroids)
+    );
+
+    // Noise points belong to no cluster, so they are left out of the quality metrics
+    const clusteredIndices = output.labels.map((label, i) => (label === NOISE_LABEL ? -1 : i)).filter(i => i >= 0);
+    const metrics = numClusters > 0
+        ? computeClusterMetrics(clusteredIndices.map(i => data[i]), centroids, clusteredIndices.map(i => output.labels[i]))
+        : null;
+
+    console.log(`[Clustering Worker] ${method} complete: ${numClusters} cluster(s), ${noiseCount} noise point(s).`);
+    postMsg({
+        type: 'clusteringComplete',
+        payload: {
+            method,
+            songIds,
+            assignments: output.labels,
+            numClusters,
+            noiseCount,
+            centroids,
+            memberships,
+            ...(output.merges && { merges: output.merges }),
+            metrics,
+            details: output.details
+        }
+    });
+};
+
+const validateInput = (data: number[][], songIds: string[]) => {
+    if (!data || data.length === 0 || !data[0] || data[0].length === 0) {
+        throw new Error('Received empty or invalid data.');
+    }
+    if (data.length !== songIds.length) {
+        throw new Error('Mismatch between number of data points and song IDs.');
+    }
+};
+
+// --- Main Message Handler ---
+self.onmessage = (event: MessageEvent<WorkerRecvMessageData>) => {
+    console.log('[Clustering Worker] Received message:', event.data.type);
+    const { type } = event.data;
+
+    if (type === 'runClustering') {
+        const { data, songIds, ...request } = event.data.payload;
+        try {
+            validateInput(data, songIds);
+            console.log(`[Clustering Worker] Running ${request.method} on ${data.length} points...`);
+            postClusteringResult(request.method, data, songIds, runAlgorithm(data, request));
+        } catch (error: unknown) {
+            console.error(`[Clustering Worker] Error during ${request.method}:`, error);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            postMsg({ type: 'clusteringError', payload: { error: errorMessage, method: request.method } });
+        }
+        return;
+    }
+
+    // --- NEW: Cut an existing merge tree (dendrogram cut line) ---
+    if (type === 'cutTree') {
+        const { data, songIds, merges, nClusters } = event.data.payload;
+        try {
+            validateInput(data, songIds);
+            if (merges.length !== data.length - 1) {
+                throw new Error(`Merge tree has ${merges.length} merges for ${data.length} points.`);
+            }
+            if (!Number.isInteger(nClusters) || nClusters < 1 || nClusters > data.length) {
+                throw new Error(`Invalid number of clusters: ${nClusters} (${data.length} points).`);
+            }
+            const labels = cutLinkage(data.length, merges, nClusters);
+            postClusteringResult('agglomerative', data, songIds, { labels, details: { treeCut: true } });
+        } catch (error: unknown) {
+            console.error('[Clustering Worker] Error during tree cut:', error);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            postMsg({ type: 'clusteringError', payload: { error: errorMessage, method: 'agglomerative' } });
+        }
+        return;
+    }
+
+    // --- NEW: Apply manually edited cluster labels ---
+    if (type === 'reassignClusters') {
+        const { method, data, songIds, assignments, numClusters, centroids } = event.data.payload;
+        try {
+            validateInput(data, songIds);
+            if (assignments.length !== data.length) {
+                throw new Error('Mismatch between number of data points and assignments.');
+            }
+            if (assignments.some(label => !Number.isInteger(label) || label < NOISE_LABEL)) {
+                throw new Error('Assignments must be cluster indices or -1 for noise.');
+            }
+            postClusteringResult(method, data, songIds, {
+                labels: assignments,
+                numClusters,
+                previousCentroids: centroids,
+                details: { manualEdit: true }
+            });
+        } catch (error: unknown) {
+            console.error('[Clustering Worker] Error while reassigning clusters:', error);
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            postMsg({ type: 'clusteringError', payload: { error: errorMessage, method } });
+        }
+        return;
+    }
+
+    // --- Handle Unknown Message Type ---
+    console.warn('[Clustering Worker] Received unknown message type:', type);
+};
+
+self.onerror = (error) => {
+    const errorMessage = (error instanceof Error) ? error.message : (typeof error === 'string' ? error : 'Unknown worker error');
+    console.error('[Clustering Worker] Unhandled error:', error);
+    postMsg({ type: 'clusteringError', payload: { error: `Unhandled worker error: ${errorMessage}` } });
+};
+
+console.log('[Clustering Worker] Worker setup complete. Waiting for messages...');
@@ -0,0 +1,118 @@
+// Agglomerative (hierarchical) clustering with Lance-Williams distance updates.
+// The full merge history is kept in the same layout as scipy's linkage matrix so the
+// tree can be cut at any number of clusters afterwards.
+
+import { euclideanDistance } from './distance';
+
+export type Linkage = 'ward' | 'average' | 'complete';
+
+export interface AgglomerativeParams {
+  nClusters: number;
+  linkage: Linkage;
+}
+
+// One merge: clusters `a` and `b` (ids < n are points, id n + m is the m-th merge) join at `distance`
+export interface Merge {
+  a: number;
+  b: number;
+  distance: number;
+  size: number; // Number of points in the merged cluster
+}
+
+export interface AgglomerativeResult {
+  labels: number[];
+  merges: Merge[];
+}
+
+// Distance from cluster k to the union of clusters i and j
+const lanceWilliams = (linkage: Linkage, dik: number, djk: number, dij: number, ni: number, nj: number, nk: number): number => {
+  switch (linkage) {
+    case 'complete':
+      return Math.max(dik, djk);
+    case 'average':
+      return (ni * dik + nj * djk) / (ni + nj);
+    case 'ward':
+    default:
+      return Math.sqrt(Math.max(0, ((ni + nk) * dik * dik + (nj + nk) * djk * djk - nk * dij * dij) / (ni + nj + nk)));
+  }
+};
+
+// Builds the full merge history (n - 1 merges)
+export const buildLinkage = (data: number[][], linkage: Linkage): Merge[] => {
+  const n = data.length;
+  const distances = data.map(point => data.map(other => euclideanDistance(point, other)));
+  const active = new Set<number>(data.map((_, i) => i)); // Row indices of the clusters still open
+  const clusterIds = data.map((_, i) => i); // Row index -> cluster id in the merge history
+  const sizes = data.map(() => 1);
+  const merges: Merge[] = [];
+
+  while (active.size > 1) {
+    // Closest pair among the open clusters (ties -> lowest indices)
+    let bestI = -1;
+    let bestJ = -1;
+    let bestDistance = Infinity;
+    const rows = Array.from(active);
+    for (let x = 0; x < rows.length; x++) {
+      for (let y = x + 1; y < rows.length; y++) {
+        const d = distances[rows[x]][rows[y]];
+        if (d < bestDistance) {
+          bestDistance = d;
+          bestI = rows[x];
+          bestJ = rows[y];
+        }
+      }
+    }
+
+    const ni = sizes[bestI];
+    const nj = sizes[bestJ];
+    merges.push({ a: clusterIds[bestI], b: clusterIds[bestJ], distance: bestDistance, size: ni + nj });
+
+    // Row bestI becomes the merged cluster, row bestJ is closed
+    active.delete(bestJ);
+    active.forEach(k => {
+      if (k === bestI) return;
+      const updated = lanceWilliams(linkage, distances[bestI][k], distances[bestJ][k], bestDistance, ni, nj, sizes[k]);
+      distances[bestI][k] = updated;
+      distances[k][bestI] = updated;
+    });
+    sizes[bestI] = ni + nj;
+    clusterIds[bestI] = n + merges.length - 1;
+  }
+
+  return merges;
+};
+
+// Labels obtained by applying only the first n - nClusters merges.
+// Labels are numbered in order of each cluster's first point.
+export const cutLinkage = (numPoints: number, merges: Merge[], nClusters: number): number[] => {
+  const parent = Array.from({ length: numPoints + merges.length }, (_, i) => i);
+  const find = (x: number): number => {
+    while (parent[x] !== x) {
+      parent[x] = parent[parent[x]];
+      x = parent[x];
+    }
+    return x;
+  };
+
+  merges.slice(0, Math.max(0, numPoints - nClusters)).forEach((merge, m) => {
+    const merged = numPoints + m;
+    parent[find(merge.a)] = merged;
+    parent[find(merge.b)] = merged;
+  });
+
+  const labelOfRoot = new Map<number, number>();
+  return Array.from({ length: numPoints }, (_, i) => {
+    const root = find(i);
+    if (!labelOfRoot.has(root)) labelOfRoot.set(root, labelOfRoot.size);
+    return labelOfRoot.get(root)!;
+  });
+};
+
+export const agglomerative = (data: number[][], params: AgglomerativeParams): AgglomerativeResult => {
+  const { nClusters, linkage } = params;
+  if (!Number.isInteger(nClusters) || nClusters < 1 || nClusters > data.length) {
+    throw new Error(`Invalid number of clusters: ${nClusters} (${data.length} points).`);
+  }
+  const merges = buildLinkage(data, linkage);
+  return { labels: cutLinkage(data.length, merges, nClusters), merges };
+};
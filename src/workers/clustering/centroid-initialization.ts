@@ -0,0 +1,134 @@
+// Centroid initialization strategies for the K-Means worker.
+// All randomness goes through the `rng` argument so a seeded generator makes runs reproducible.
+
+import { squaredDistance } from './distance';
+
+export type InitStrategy = 'random' | 'kmeans++' | 'farthest' | 'manual';
+
+// Mulberry32: small, fast 32-bit PRNG. Same seed -> same sequence on every platform.
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Returns a seeded generator when a seed is given, otherwise Math.random
+export const createRandom = (seed?: number): (() => number) => {
+  return seed === undefined || seed === null || !Number.isFinite(seed) ? Math.random : createSeededRandom(seed);
+};
+
+// Distance from every point to its closest already-chosen centroid
+const distancesToNearestChosen = (data: number[][], chosen: number[]): number[] => {
+  return data.map(point => {
+    let best = Infinity;
+    for (const index of chosen) {
+      best = Math.min(best, squaredDistance(point, data[index]));
+    }
+    return best;
+  });
+};
+
+// Uniformly picks k distinct indices (partial Fisher-Yates shuffle)
+const randomIndices = (numPoints: number, k: number, rng: () => number): number[] => {
+  const indices = Array.from({ length: numPoints }, (_, i) => i);
+  for (let i = 0; i < k; i++) {
+    const j = i + Math.floor(rng() * (numPoints - i));
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+  return indices.slice(0, k);
+};
+
+// k-means++: each next centroid is sampled with probability proportional to D(x)^2
+const kmeansPlusPlusIndices = (data: number[][], k: number, rng: () => number, initial: number[]): number[] => {
+  const chosen = [...initial];
+  if (chosen.length === 0) {
+    chosen.push(Math.floor(rng() * data.length));
+  }
+  while (chosen.length < k) {
+    const distances = distancesToNearestChosen(data, chosen);
+    const total = distances.reduce((acc, d) => acc + d, 0);
+    let next = -1;
+    if (total > 0) {
+      let target = rng() * total;
+      for (let i = 0; i < distances.length; i++) {
+        target -= distances[i];
+        if (target < 0 && distances[i] > 0) {
+          next = i;
+          break;
+        }
+      }
+      // Floating point leftovers: fall back to the last point with a non-zero weight
+      if (next === -1) next = distances.map((d, i) => (d > 0 ? i : -1)).filter(i => i >= 0).pop() ?? -1;
+    }
+    if (next === -1) {
+      // Every remaining point coincides with a chosen centroid; pick any unchosen point
+      const remaining = data.map((_, i) => i).filter(i => !chosen.includes(i));
+      next = remaining[Math.floor(rng() * remaining.length)];
+    }
+    chosen.push(next);
+  }
+  return chosen;
+};
+
+// Farthest-point: each next centroid is the point farthest from all chosen ones (ties -> lowest index)
+const farthestPointIndices = (data: number[][], k: number, rng: () => number, initial: number[]): number[] => {
+  const chosen = [...initial];
+  if (chosen.length === 0) {
+    chosen.push(Math.floor(rng() * data.length));
+  }
+  while (chosen.length < k) {
+    const distances = distancesToNearestChosen(data, chosen);
+    let next = -1;
+    let best = -1;
+    distances.forEach((d, i) => {
+      if (d > best && !chosen.includes(i)) {
+        best = d;
+        next = i;
+      }
+    });
+    chosen.push(next);
+  }
+  return chosen;
+};
+
+// Chooses the row indices of `data` to use as initial centroids.
+// 'manual' uses `seedIndices` as the first centroids and fills any remaining ones with k-means++.
+export const chooseInitialCentroidIndices = (
+  data: number[][],
+  k: number,
+  strategy: InitStrategy,
+  rng: () => number,
+  seedIndices: number[] = []
+): number[] => {
+  if (k <= 0 || k > data.length) {
+    throw new Error(`Cannot choose ${k} initial centroids from ${data.length} points.`);
+  }
+
+  switch (strategy) {
+    case 'kmeans++':
+      return kmeansPlusPlusIndices(data, k, rng, []);
+    case 'farthest':
+      return farthestPointIndices(data, k, rng, []);
+    case 'manual': {
+      const uniqueSeeds = Array.from(new Set(seedIndices));
+      if (uniqueSeeds.length === 0) {
+        throw new Error('Manual initialization requires at least one seed song.');
+      }
+      if (uniqueSeeds.length > k) {
+        throw new Error(`Too many seed songs (${uniqueSeeds.length}) for k=${k}.`);
+      }
+      if (uniqueSeeds.some(i => i < 0 || i >= data.length)) {
+        throw new Error('Seed song index out of range.');
+      }
+      return kmeansPlusPlusIndices(data, k, rng, uniqueSeeds);
+    }
+    case 'random':
+    default:
+      return randomIndices(data.length, k, rng);
+  }
+};
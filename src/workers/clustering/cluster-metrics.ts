@@ -0,0 +1,114 @@
+// Cluster-quality metrics computed by the K-Means worker after every initialization and step.
+// Silhouette, Davies-Bouldin and Calinski-Harabasz need at least two non-empty clusters;
+// below that they are reported as null.
+
+import { computeInertia } from './kmeans-restarts';
+import { euclideanDistance } from './distance';
+
+export interface ClusterMetrics {
+  inertia: number; // Within-cluster sum of squared distances (lower is tighter)
+  silhouette: number | null; // Mean silhouette in [-1, 1] (higher is better)
+  silhouettes: number[]; // Per-point silhouette, aligned with the data rows
+  daviesBouldin: number | null; // Lower is better, 0 is the minimum
+  calinskiHarabasz: number | null; // Higher is better
+}
+
+// Silhouette per point: (b - a) / max(a, b), where a is the mean distance to the point's own
+// cluster and b the smallest mean distance to another cluster. Singleton clusters score 0.
+const computeSilhouettes = (data: number[][], assignments: number[], k: number, counts: number[]): number[] => {
+  return data.map((point, i) => {
+    const own = assignments[i];
+    if (counts[own] <= 1) return 0;
+
+    const distanceSums = Array(k).fill(0);
+    data.forEach((other, j) => {
+      if (i !== j) distanceSums[assignments[j]] += euclideanDistance(point, other);
+    });
+
+    const a = distanceSums[own] / (counts[own] - 1);
+    let b = Infinity;
+    for (let cluster = 0; cluster < k; cluster++) {
+      if (cluster !== own && counts[cluster] > 0) {
+        b = Math.min(b, distanceSums[cluster] / counts[cluster]);
+      }
+    }
+    const denominator = Math.max(a, b);
+    return denominator > 0 ? (b - a) / denominator : 0;
+  });
+};
+
+// Davies-Bouldin: mean over clusters of the worst (s_i + s_j) / d(c_i, c_j) ratio
+const computeDaviesBouldin = (data: number[][], centroids: number[][], assignments: number[], counts: number[]): number => {
+  const scatter = centroids.map(() => 0);
+  data.forEach((point, i) => {
+    scatter[assignments[i]] += euclideanDistance(point, centroids[assignments[i]]);
+  });
+  const nonEmpty = centroids.map((_, cluster) => cluster).filter(cluster => counts[cluster] > 0);
+  nonEmpty.forEach(cluster => { scatter[cluster] /= counts[cluster]; });
+
+  const total = nonEmpty.reduce((acc, i) => {
+    let worst = 0;
+    nonEmpty.forEach(j => {
+      if (i === j) return;
+      const separation = euclideanDistance(centroids[i], centroids[j]);
+      const ratio = separation > 0 ? (scatter[i] + scatter[j]) / separation : Infinity;
+      worst = Math.max(worst, ratio);
+    });
+    return acc + worst;
+  }, 0);
+  return total / nonEmpty.length;
+};
+
+// Calinski-Harabasz: (between-cluster dispersion / (k - 1)) / (within-cluster dispersion / (n - k))
+const computeCalinskiHarabasz = (data: number[][], centroids: number[][], inertia: number, counts: number[]): number | null => {
+  const numPoints = data.length;
+  const numClusters = counts.filter(count => count > 0).length;
+  if (numPoints <= numClusters) return null;
+
+  const numDims = data[0].length;
+  const overallMean = Array(numDims).fill(0);
+  data.forEach(point => {
+    for (let d = 0; d < numDims; d++) overallMean[d] += point[d] / numPoints;
+  });
+  const between = centroids.reduce((acc, centroid, cluster) => {
+    if (counts[cluster] === 0) return acc;
+    const distance = euclideanDistance(centroid, overallMean);
+    return acc + counts[cluster] * distance * distance;
+  }, 0);
+
+  if (inertia === 0) return null; // Every point sits on its centroid; the ratio is unbounded
+  return (between / (numClusters - 1)) / (inertia / (numPoints - numClusters));
+};
+
+// Computes all metrics for the given assignments. `centroids` should be the cluster means
+// for Davies-Bouldin and Calinski-Harabasz to match their textbook definitions.
+export const computeClusterMetrics = (
+  data: number[][],
+  centroids: number[][],
+  assignments: number[]
+): ClusterMetrics => {
+  const k = centroids.length;
+  const counts = Array(k).fill(0);
+  assignments.forEach(cluster => { counts[cluster]++; });
+  const inertia = computeInertia(data, centroids, assignments);
+  const numNonEmpty = counts.filter(count => count > 0).length;
+
+  if (data.length === 0 || numNonEmpty < 2) {
+    return {
+      inertia,
+      silhouette: null,
+      silhouettes: data.map(() => 0),
+      daviesBouldin: null,
+      calinskiHarabasz: null
+    };
+  }
+
+  const silhouettes = computeSilhouettes(data, assignments, k, counts);
+  return {
+    inertia,
+    silhouette: silhouettes.reduce((acc, s) => acc + s, 0) / silhouettes.length,
+    silhouettes,
+    daviesBouldin: computeDaviesBouldin(data, centroids, assignments, counts),
+    calinskiHarabasz: computeCalinskiHarabasz(data, centroids, inertia, counts)
+  };
+};
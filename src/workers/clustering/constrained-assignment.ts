@@ -0,0 +1,117 @@
+// Constrained assignment step for COP-k-means style clustering. Must-link pairs are merged
+// (transitively) into groups that are always assigned together; each group then goes to the
+// nearest centroid that does not put it next to a group it cannot share a cluster with.
+// When no such centroid exists the group takes its nearest centroid and the broken
+// cannot-link pairs are reported instead of failing the whole run.
+
+import { squaredDistance } from './distance';
+
+export type ConstraintType = 'mustLink' | 'cannotLink';
+
+export interface PairConstraint {
+  type: ConstraintType;
+  a: number; // Point indices
+  b: number;
+}
+
+export interface ConstraintViolation extends PairConstraint {
+  reason: 'contradiction' | 'noFeasibleCluster'; // Contradiction: cannot-link inside a must-link group
+}
+
+export interface PreparedConstraints {
+  groups: number[][];          // Point indices of each must-link group (singletons included)
+  groupOf: number[];           // Point index -> group index
+  cannotLinked: Set<number>[]; // Group index -> groups it must not share a cluster with
+  order: number[];             // Group indices, most constrained first
+  contradictions: ConstraintViolation[];
+  cannotLinks: PairConstraint[];
+}
+
+export const prepareConstraints = (numPoints: number, constraints: PairConstraint[]): PreparedConstraints => {
+  constraints.forEach(({ a, b }) => {
+    if (!Number.isInteger(a) || !Number.isInteger(b) || a < 0 || b < 0 || a >= numPoints || b >= numPoints || a === b) {
+      throw new Error(`Invalid constraint between points ${a} and ${b}.`);
+    }
+  });
+
+  // Union-find over must-link pairs
+  const parent = Array.from({ length: numPoints }, (_, i) => i);
+  const find = (x: number): number => {
+    while (parent[x] !== x) {
+      parent[x] = parent[parent[x]];
+      x = parent[x];
+    }
+    return x;
+  };
+  constraints.filter(c => c.type === 'mustLink').forEach(({ a, b }) => {
+    parent[find(a)] = find(b);
+  });
+
+  const groupOfRoot = new Map<number, number>();
+  const groups: number[][] = [];
+  const groupOf = Array.from({ length: numPoints }, (_, i) => {
+    const root = find(i);
+    if (!groupOfRoot.has(root)) {
+      groupOfRoot.set(root, groups.length);
+      groups.push([]);
+    }
+    const group = groupOfRoot.get(root)!;
+    groups[group].push(i);
+    return group;
+  });
+
+  const cannotLinks = constraints.filter(c => c.type === 'cannotLink');
+  const cannotLinked = groups.map(() => new Set<number>());
+  const contradictions: ConstraintViolation[] = [];
+  cannotLinks.forEach(constraint => {
+    const groupA = groupOf[constraint.a];
+    const groupB = groupOf[constraint.b];
+    if (groupA === groupB) {
+      contradictions.push({ ...constraint, reason: 'contradiction' });
+      return;
+    }
+    cannotLinked[groupA].add(groupB);
+    cannotLinked[groupB].add(groupA);
+  });
+
+  // Groups with more cannot-links, then bigger groups, are placed first while most clusters are still open
+  const order = groups
+    .map((_, group) => group)
+    .sort((x, y) => (cannotLinked[y].size - cannotLinked[x].size) || (groups[y].length - groups[x].length) || (x - y));
+
+  return { groups, groupOf, cannotLinked, order, contradictions, cannotLinks };
+};
+
+export const assignWithConstraints = (
+  data: number[][],
+  centroids: number[][],
+  prepared: PreparedConstraints
+): { assignments: number[]; violations: ConstraintViolation[] } => {
+  const { groups, cannotLinked, order } = prepared;
+  const groupCluster: number[] = groups.map(() => -1);
+
+  order.forEach(group => {
+    // Total squared distance of the group's points to each centroid, cheapest first
+    const costs = centroids
+      .map((centroid, cluster) => ({
+        cluster,
+        cost: groups[group].reduce((acc, point) => acc + squaredDistance(data[point], centroid), 0)
+      }))
+      .sort((x, y) => x.cost - y.cost);
+    const blocked = new Set<number>();
+    cannotLinked[group].forEach(other => {
+      if (groupCluster[other] !== -1) blocked.add(groupCluster[other]);
+    });
+    const feasible = costs.find(({ cluster }) => !blocked.has(cluster));
+    groupCluster[group] = (feasible ?? costs[0]).cluster;
+  });
+
+  const assignments = data.map((_, point) => groupCluster[prepared.groupOf[point]]);
+  const violations: ConstraintViolation[] = [
+    ...prepared.contradictions,
+    ...prepared.cannotLinks
+      .filter(({ a, b }) => prepared.groupOf[a] !== prepared.groupOf[b] && assignments[a] === assignments[b])
+      .map(constraint => ({ ...constraint, reason: 'noFeasibleCluster' as const }))
+  ];
+  return { assignments, violations };
+};
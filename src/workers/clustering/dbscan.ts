@@ -0,0 +1,89 @@
+// Density-based clustering (DBSCAN). Points that are not density-reachable from any core
+// point are labelled as noise (-1), so outlier tracks are not forced into a cluster.
+
+import { euclideanDistance } from './distance';
+
+export const NOISE_LABEL = -1;
+
+export interface DbscanParams {
+  eps?: number; // Neighbourhood radius; estimated from the k-distance curve when omitted
+  minPts: number; // Neighbours (including the point itself) needed for a core point
+}
+
+export interface DbscanResult {
+  labels: number[];
+  eps: number; // Radius actually used
+  noiseCount: number;
+}
+
+// Estimates eps as the knee of the sorted distances to each point's (minPts - 1)-th neighbour:
+// the point farthest below the chord joining the smallest and largest of those distances.
+export const estimateEps = (data: number[][], minPts: number): number => {
+  const neighbourIndex = Math.min(Math.max(minPts - 1, 1), data.length - 1);
+  const kDistances = data
+    .map((point, i) => {
+      const distances = data.filter((_, j) => j !== i).map(other => euclideanDistance(point, other));
+      distances.sort((a, b) => a - b);
+      return distances[neighbourIndex - 1] ?? 0;
+    })
+    .sort((a, b) => a - b);
+
+  const first = kDistances[0];
+  const last = kDistances[kDistances.length - 1];
+  if (kDistances.length < 3 || last <= first) return last > 0 ? last : 1;
+
+  let knee = last;
+  let bestGap = 0;
+  kDistances.forEach((distance, i) => {
+    const x = i / (kDistances.length - 1);
+    const y = (distance - first) / (last - first);
+    if (x - y > bestGap) {
+      bestGap = x - y;
+      knee = distance;
+    }
+  });
+  return knee;
+};
+
+export const dbscan = (data: number[][], params: DbscanParams): DbscanResult => {
+  const { minPts } = params;
+  if (!Number.isInteger(minPts) || minPts < 1) {
+    throw new Error(`Invalid minPts value: ${minPts}. Must be an integer >= 1.`);
+  }
+  const eps = params.eps ?? estimateEps(data, minPts);
+  if (!(eps > 0)) {
+    throw new Error(`Invalid eps value: ${eps}. Must be > 0.`);
+  }
+
+  const neighbours = data.map(point =>
+    data.reduce<number[]>((acc, other, j) => {
+      if (euclideanDistance(point, other) <= eps) acc.push(j);
+      return acc;
+    }, [])
+  );
+
+  const UNVISITED = -2;
+  const labels = Array(data.length).fill(UNVISITED);
+  let cluster = 0;
+
+  for (let i = 0; i < data.length; i++) {
+    if (labels[i] !== UNVISITED) continue;
+    if (neighbours[i].length < minPts) {
+      labels[i] = NOISE_LABEL; // May still become a border point of a later cluster
+      continue;
+    }
+
+    labels[i] = cluster;
+    const queue = [...neighbours[i]];
+    while (queue.length > 0) {
+      const j = queue.shift()!;
+      if (labels[j] === NOISE_LABEL) labels[j] = cluster; // Border point
+      if (labels[j] !== UNVISITED) continue;
+      labels[j] = cluster;
+      if (neighbours[j].length >= minPts) queue.push(...neighbours[j]);
+    }
+    cluster++;
+  }
+
+  return { labels, eps, noiseCount: labels.filter(label => label === NOISE_LABEL).length };
+};
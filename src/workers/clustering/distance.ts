@@ -0,0 +1,12 @@
+// Distances between plain number arrays, shared by the clustering helpers.
+
+export const squaredDistance = (a: number[], b: number[]): number => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    const diff = a[i] - b[i];
+    sum += diff * diff;
+  }
+  return sum;
+};
+
+export const euclideanDistance = (a: number[], b: number[]): number => Math.sqrt(squaredDistance(a, b));
@@ -0,0 +1,117 @@
+// Gaussian mixture model fitted with expectation-maximization. Components use diagonal
+// covariances, which stay well-conditioned on the small song collections this app handles.
+// Means are initialized with k-means++ so a seeded rng makes fits reproducible.
+
+import { chooseInitialCentroidIndices } from './centroid-initialization';
+
+export interface GmmParams {
+  nComponents: number;
+  maxIterations: number;
+  tolerance: number; // Stop when the mean log-likelihood improves by less than this
+}
+
+export interface GmmResult {
+  labels: number[]; // Most probable component of each point
+  probabilities: number[][]; // Soft membership: [point][component], rows sum to 1
+  means: number[][];
+  variances: number[][]; // Diagonal of each component's covariance
+  weights: number[];
+  logLikelihood: number; // Mean log-likelihood per point
+  iterations: number;
+  converged: boolean;
+}
+
+// Added to every variance so a component collapsing onto one point stays finite
+const VARIANCE_FLOOR = 1e-6;
+
+const logSumExp = (values: number[]): number => {
+  const max = Math.max(...values);
+  if (!Number.isFinite(max)) return max;
+  return max + Math.log(values.reduce((acc, v) => acc + Math.exp(v - max), 0));
+};
+
+// log N(x | mean, diag(variance))
+const logGaussian = (x: number[], mean: number[], variance: number[]): number => {
+  let sum = 0;
+  for (let d = 0; d < x.length; d++) {
+    const diff = x[d] - mean[d];
+    sum += Math.log(2 * Math.PI * variance[d]) + (diff * diff) / variance[d];
+  }
+  return -0.5 * sum;
+};
+
+// E-step: responsibilities of every component for every point, and the mean log-likelihood
+const expectation = (data: number[][], means: number[][], variances: number[][], weights: number[]) => {
+  let totalLogLikelihood = 0;
+  const probabilities = data.map(point => {
+    const logWeighted = means.map((mean, c) => Math.log(weights[c]) + logGaussian(point, mean, variances[c]));
+    const logNormalizer = logSumExp(logWeighted);
+    totalLogLikelihood += logNormalizer;
+    return logWeighted.map(value => Math.exp(value - logNormalizer));
+  });
+  return { probabilities, meanLogLikelihood: totalLogLikelihood / data.length };
+};
+
+export const fitGmm = (data: number[][], params: GmmParams, rng: () => number): GmmResult => {
+  const { nComponents, maxIterations, tolerance } = params;
+  const numPoints = data.length;
+  if (!Number.isInteger(nComponents) || nComponents < 1 || nComponents > numPoints) {
+    throw new Error(`Invalid number of components: ${nComponents} (${numPoints} points).`);
+  }
+  if (!Number.isInteger(maxIterations) || maxIterations < 1) {
+    throw new Error(`Invalid maxIterations value: ${maxIterations}.`);
+  }
+  const numDims = data[0].length;
+
+  // --- Initialization: k-means++ means, shared data variance, uniform weights ---
+  let means = chooseInitialCentroidIndices(data, nComponents, 'kmeans++', rng).map(i => [...data[i]]);
+  const overallMean = Array(numDims).fill(0);
+  data.forEach(point => point.forEach((v, d) => { overallMean[d] += v / numPoints; }));
+  const overallVariance = overallMean.map((mean, d) =>
+    data.reduce((acc, point) => acc + (point[d] - mean) ** 2, 0) / numPoints + VARIANCE_FLOOR
+  );
+  let variances = means.map(() => [...overallVariance]);
+  let weights = Array(nComponents).fill(1 / nComponents);
+
+  let logLikelihood = -Infinity;
+  let iterations = 0;
+  let converged = false;
+
+  while (iterations < maxIterations) {
+    iterations++;
+
+    // --- E-step: responsibilities ---
+    const { probabilities, meanLogLikelihood } = expectation(data, means, variances, weights);
+
+    // --- M-step: weights, means and diagonal variances ---
+    const totals = Array(nComponents).fill(0);
+    probabilities.forEach(row => row.forEach((p, c) => { totals[c] += p; }));
+    means = totals.map((total, c) => {
+      if (total <= 0) return means[c]; // Empty component keeps its parameters
+      const mean = Array(numDims).fill(0);
+      data.forEach((point, i) => point.forEach((v, d) => { mean[d] += probabilities[i][c] * v; }));
+      return mean.map(v => v / total);
+    });
+    variances = totals.map((total, c) => {
+      if (total <= 0) return variances[c];
+      const variance = Array(numDims).fill(0);
+      data.forEach((point, i) => point.forEach((v, d) => { variance[d] += probabilities[i][c] * (v - means[c][d]) ** 2; }));
+      return variance.map(v => v / total + VARIANCE_FLOOR);
+    });
+    weights = totals.map(total => Math.max(total / numPoints, Number.EPSILON));
+
+    if (Math.abs(meanLogLikelihood - logLikelihood) < tolerance) {
+      logLikelihood = meanLogLikelihood;
+      converged = true;
+      break;
+    }
+    logLikelihood = meanLogLikelihood;
+  }
+
+  // Final E-step, so labels, memberships and log-likelihood describe the returned parameters
+  const final = expectation(data, means, variances, weights);
+  const probabilities = final.probabilities;
+  logLikelihood = final.meanLogLikelihood;
+  const labels = probabilities.map(row => row.indexOf(Math.max(...row)));
+  return { labels, probabilities, means, variances, weights, logLikelihood, iterations, converged };
+};
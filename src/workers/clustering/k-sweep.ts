@@ -0,0 +1,82 @@
+// Sweeps the number of clusters over a range and scores each k, so the UI can plot
+// the elbow (inertia) and silhouette curves and recommend a value.
+
+import { InitStrategy, chooseInitialCentroidIndices } from './centroid-initialization';
+import { runLloyd } from './kmeans-restarts';
+import { computeClusterMetrics } from './cluster-metrics';
+
+export interface KSweepEntry {
+  k: number;
+  inertia: number;
+  silhouette: number | null; // null for k = 1
+  iterations: number; // Iterations of the best run
+}
+
+export interface KSweepResult {
+  entries: KSweepEntry[];
+  recommendedK: number | null; // Highest mean silhouette
+  elbowK: number | null; // Point of maximum curvature of the inertia curve
+}
+
+interface KSweepOptions {
+  kMin: number;
+  kMax: number;
+  initStrategy: Exclude<InitStrategy, 'manual'>;
+  nInit: number;
+  maxIterations: number;
+  tolerance: number;
+}
+
+// Elbow: the k whose (normalized) inertia lies farthest below the chord joining the
+// first and last points of the curve. Needs at least three points.
+export const findElbow = (entries: KSweepEntry[]): number | null => {
+  if (entries.length < 3) return null;
+  const first = entries[0];
+  const last = entries[entries.length - 1];
+  const kRange = last.k - first.k;
+  const inertiaRange = first.inertia - last.inertia;
+  if (kRange <= 0 || inertiaRange <= 0) return null;
+
+  let elbowK: number | null = null;
+  let bestGap = 0;
+  entries.forEach(entry => {
+    const x = (entry.k - first.k) / kRange;
+    const y = (first.inertia - entry.inertia) / inertiaRange; // 0 at the first point, 1 at the last
+    const gap = y - x; // Height above the chord in the flipped, normalized curve
+    if (gap > bestGap) {
+      bestGap = gap;
+      elbowK = entry.k;
+    }
+  });
+  return elbowK;
+};
+
+// Runs K-Means to convergence for every k in [kMin, kMax], keeping the best of nInit runs per k
+export const sweepK = (data: number[][], options: KSweepOptions, rng: () => number): KSweepResult => {
+  const { kMin, kMax, initStrategy, nInit, maxIterations, tolerance } = options;
+  if (!Number.isInteger(kMin) || !Number.isInteger(kMax) || kMin < 1 || kMax < kMin) {
+    throw new Error(`Invalid k range: ${kMin}-${kMax}.`);
+  }
+  if (kMax > data.length) {
+    throw new Error(`Insufficient data points (${data.length}) for k=${kMax}.`);
+  }
+
+  const entries: KSweepEntry[] = [];
+  for (let k = kMin; k <= kMax; k++) {
+    let best: ReturnType<typeof runLloyd> | null = null;
+    for (let run = 0; run < nInit; run++) {
+      const indices = chooseInitialCentroidIndices(data, k, initStrategy, rng);
+      const result = runLloyd(data, indices.map(i => data[i]), maxIterations, tolerance);
+      if (!best || result.inertia < best.inertia) best = result;
+    }
+    const metrics = computeClusterMetrics(data, best!.centroids, best!.assignments);
+    entries.push({ k, inertia: metrics.inertia, silhouette: metrics.silhouette, iterations: best!.iterations });
+  }
+
+  const scored = entries.filter(entry => entry.silhouette !== null);
+  const recommendedK = scored.length > 0
+    ? scored.reduce((bestEntry, entry) => (entry.silhouette! > bestEntry.silhouette! ? entry : bestEntry)).k
+    : null;
+
+  return { entries, recommendedK, elbowK: findElbow(entries) };
+};
@@ -0,0 +1,82 @@
+// Plain-array Lloyd's algorithm used to evaluate several K-Means initializations (n_init)
+// inside the worker before the chosen one is replayed step by step with TensorFlow.js.
+
+import { squaredDistance } from './distance';
+
+export interface LloydRunResult {
+  initialCentroids: number[][];
+  centroids: number[][];
+  assignments: number[];
+  inertia: number; // Within-cluster sum of squared distances
+  iterations: number;
+}
+
+// Assigns every point to its closest centroid (ties -> lowest cluster index, like tf.argMin)
+export const assignToNearest = (data: number[][], centroids: number[][]): number[] => {
+  return data.map(point => {
+    let best = 0;
+    let bestDistance = Infinity;
+    centroids.forEach((centroid, cluster) => {
+      const distance = squaredDistance(point, centroid);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = cluster;
+      }
+    });
+    return best;
+  });
+};
+
+// Within-cluster sum of squared distances to the assigned centroid
+export const computeInertia = (data: number[][], centroids: number[][], assignments: number[]): number => {
+  return data.reduce((acc, point, i) => acc + squaredDistance(point, centroids[assignments[i]]), 0);
+};
+
+// Mean of each cluster's points; an empty cluster keeps its previous centroid
+export const updateCentroids = (data: number[][], assignments: number[], previous: number[][]): number[][] => {
+  const numDims = previous[0]?.length ?? 0;
+  const sums = previous.map(() => Array(numDims).fill(0));
+  const counts = Array(previous.length).fill(0);
+  data.forEach((point, i) => {
+    const cluster = assignments[i];
+    counts[cluster]++;
+    for (let d = 0; d < numDims; d++) sums[cluster][d] += point[d];
+  });
+  return sums.map((sum, cluster) =>
+    counts[cluster] === 0 ? [...previous[cluster]] : sum.map(value => value / counts[cluster])
+  );
+};
+
+// Runs K-Means from the given centroids until assignments are stable, the largest
+// centroid shift is <= tolerance, or maxIterations is reached. `assign` replaces the
+// nearest-centroid step, e.g. with a constrained (COP-k-means) assignment.
+export const runLloyd = (
+  data: number[][],
+  initialCentroids: number[][],
+  maxIterations: number,
+  tolerance: number,
+  assign: (data: number[][], centroids: number[][]) => number[] = assignToNearest
+): LloydRunResult => {
+  let centroids = initialCentroids.map(c => [...c]);
+  let assignments = assign(data, centroids);
+  let iterations = 0;
+
+  while (iterations < maxIterations) {
+    iterations++;
+    const nextCentroids = updateCentroids(data, assignments, centroids);
+    const shift = Math.max(...nextCentroids.map((c, i) => Math.sqrt(squaredDistance(c, centroids[i]))));
+    centroids = nextCentroids;
+    const nextAssignments = assign(data, centroids);
+    const stable = nextAssignments.every((cluster, i) => cluster === assignments[i]);
+    assignments = nextAssignments;
+    if (stable || shift <= tolerance) break;
+  }
+
+  return {
+    initialCentroids,
+    centroids,
+    assignments,
+    inertia: computeInertia(data, centroids, assignments),
+    iterations
+  };
+};
@@ -0,0 +1,32 @@
+// Soft cluster membership from distances to the cluster centres, using the fuzzy c-means
+// membership formula: u_ic = 1 / sum_j (d_ic / d_ij)^(2 / (m - 1)). Rows sum to 1, so a
+// song halfway between two centres gets roughly 50/50 instead of a hard label.
+
+import { euclideanDistance } from './distance';
+
+// Fuzzifier m: 2 is the usual fuzzy c-means default; larger values spread membership more evenly
+export const DEFAULT_FUZZIFIER = 2;
+
+// Membership of one point in every centre. A point sitting on a centre belongs to it fully.
+export const fuzzyMembership = (point: number[], centres: number[][], fuzzifier: number = DEFAULT_FUZZIFIER): number[] => {
+  if (centres.length === 0) return [];
+  const distances = centres.map(centre => euclideanDistance(point, centre));
+  const exactIndex = distances.findIndex(d => d === 0);
+  if (exactIndex !== -1) {
+    return distances.map((_, c) => (c === exactIndex ? 1 : 0));
+  }
+  const exponent = 2 / (fuzzifier - 1);
+  // Equivalent to the formula above, written as normalized inverse distances
+  // (scaled by the nearest distance so tiny distances cannot overflow)
+  const nearest = Math.min(...distances);
+  const weights = distances.map(d => Math.pow(nearest / d, exponent));
+  const total = weights.reduce((acc, w) => acc + w, 0);
+  return weights.map(w => w / total);
+};
+
+export const fuzzyMemberships = (data: number[][], centres: number[][], fuzzifier: number = DEFAULT_FUZZIFIER): number[][] => {
+  if (!(fuzzifier > 1)) {
+    throw new Error(`Invalid fuzzifier: ${fuzzifier}. Must be > 1.`);
+  }
+  return data.map(point => fuzzyMembership(point, centres, fuzzifier));
+};
@@ -1,15 +1,68 @@
 /// <reference lib="webworker" />
+import { selectFeatures, FeatureSelectionOptions, FeatureRemovalReason } from './processing/feature-selection';
+import {
+    getColumnMedianIqr, robustScale, signedLog1p, fitYeoJohnson, applyYeoJohnson, l2NormalizeRows
+} from './processing/robust-transforms';
 
 // Define types for communication between main thread and worker
-type ProcessingMethod = 'none' | 'standardize' | 'normalize';
+type ProcessingMethod = 'none' | 'standardize' | 'normalize' | 'robust' | 'log1p' | 'yeoJohnson' | 'l2';
 type NormalizationRange = [number, number];
 
-interface ProcessDataPayload {
+// Fit-once / transform-many scaler API: 'fit' returns ScalerParams, 'transform' applies them to
+// any later vectors, and 'fitTransform' does both on one matrix
+interface FitScalerPayload {
     vectors: number[][];
-    songIds: string[];
     isOHEColumn: boolean[];
     method: ProcessingMethod;
     range?: NormalizationRange; // Only used for 'normalize'
+    columnWeights?: number[]; // Multiplies each scaled column; omitted = all 1
+}
+
+interface FitTransformPayload extends FitScalerPayload {
+    songIds: string[];
+}
+
+interface ProcessDataPayload extends FitTransformPayload {
+    featureSelection?: FeatureSelectionOptions; // Optional column selection before scaling
+    columnNames?: string[]; // Only used to name removed columns in the reply
+}
+
+// Columns removed by feature selection, reported so the main thread can drop them from its matrix
+interface FeatureSelectionReport {
+    keptColumns: number[];
+    removedColumns: { name: string, reason: FeatureRemovalReason, laplacianScore: number | null }[];
+}
+
+// Column statistics fitted by 'fit', 'fitTransform' or 'processData', kept by the main thread so new
+// songs (e.g. a song being classified) can be scaled exactly like the training library.
+// Plain arrays only, so the parameters survive postMessage and JSON (model bundles).
+interface ScalerParams {
+    method: ProcessingMethod;
+    range?: NormalizationRange;
+    isOHEColumn: boolean[];
+    means: number[];
+    stdDevs: number[];
+    mins: number[];
+    maxs: number[];
+    medians?: number[];      // 'robust' only
+    iqrs?: number[];         // 'robust' only
+    lambdas?: number[];      // 'yeoJohnson' only: fitted power per column
+    powerMeans?: number[];   // 'yeoJohnson' only: stats of the transformed columns
+    powerStdDevs?: number[];
+    columnWeights?: number[]; // Applied after scaling; absent in scalers fitted without weights
+}
+
+interface TransformVectorsPayload {
+    vectors: number[][];
+    songIds: string[];
+    params: ScalerParams;
+}
+
+// Pearson correlation between the numerical (non-OHE) columns of the raw matrix
+interface ComputeCorrelationPayload {
+    vectors: number[][];
+    columnNames: string[];
+    isOHEColumn: boolean[];
 }
 
 // --- Helper Functions for Scaling ---
@@ -64,11 +117,44 @@ const getColumnMinMax = (vectors: number[][]): { mins: number[], maxs: number[]
     return { mins, maxs };
 };
 
+// Pearson correlation matrix of the given columns. Constant columns correlate 0 with
+// everything (and 1 with themselves) instead of producing NaN.
+const getCorrelationMatrix = (vectors: number[][], columns: number[]): number[][] => {
+    const numRows = vectors.length;
+    const centered = columns.map(j => {
+        const mean = vectors.reduce((acc, row) => acc + row[j], 0) / numRows;
+        return vectors.map(row => row[j] - mean);
+    });
+    const norms = centered.map(values => Math.sqrt(values.reduce((acc, v) => acc + v * v, 0)));
+
+    const matrix: number[][] = columns.map(() => Array(columns.length).fill(0));
+    for (let a = 0; a < columns.length; a++) {
+        matrix[a][a] = 1;
+        for (let b = a + 1; b < columns.length; b++) {
+            if (norms[a] === 0 || norms[b] === 0) continue;
+            let dot = 0;
+            for (let i = 0; i < numRows; i++) {
+                dot += centered[a][i] * centered[b][i];
+            }
+            // Clamp rounding noise so |r| never exceeds 1
+            const r = Math.max(-1, Math.min(1, dot / (norms[a] * norms[b])));
+            matrix[a][b] = r;
+            matrix[b][a] = r;
+        }
+    }
+    return matrix;
+};
+
 // --- Processing Functions ---
 
-const standardize = (vectors: number[][], isOHEColumn: boolean[]): number[][] => {
+// Stats default to the ones of `vectors` itself; pass fitted stats to scale new vectors consistently.
+const standardize = (
+    vectors: number[][],
+    isOHEColumn: boolean[],
+    stats: { means: number[], stdDevs: number[] } = getColumnStats(vectors)
+): number[][] => {
     console.log("[Data Processing Worker] Standardizing (Z-score) skipping OHE...", vectors.length);
-    const { means, stdDevs } = getColumnStats(vectors);
+    const { means, stdDevs } = stats;
     const processedVectors: number[][] = [];
     const numCols = vectors[0]?.length ?? 0;
 
@@ -94,9 +180,14 @@ const standardize = (vectors: number[][], isOHEColumn: boolean[]): number[][] =>
     return processedVectors;
 };
 
-const normalize = (vectors: number[][], isOHEColumn: boolean[], range: NormalizationRange = [0, 1]): number[][] => {
+const normalize = (
+    vectors: number[][],
+    isOHEColumn: boolean[],
+    range: NormalizationRange = [0, 1],
+    stats: { mins: number[], maxs: number[] } = getColumnMinMax(vectors)
+): number[][] => {
     console.log(`[Data Processing Worker] Normalizing (Min-Max) to [${range.join(', ')}] skipping OHE...`, vectors.length);
-    const { mins, maxs } = getColumnMinMax(vectors);
+    const { mins, maxs } = stats;
     const [minRange, maxRange] = range;
     const processedVectors: number[][] = [];
     const numCols = vectors[0]?.length ?? 0;
@@ -130,15 +221,112 @@ const normalize = (vectors: number[][], isOHEColumn: boolean[], range: Normaliza
     return processedVectors;
 };
 
+// Scales every column by its weight after the scaling step, so a weight of 2 doubles that
+// column's contribution to Euclidean distances. OHE columns are weighted like the others.
+const applyColumnWeights = (vectors: number[][], columnWeights?: number[]): number[][] => {
+    if (!columnWeights || columnWeights.every(w => w === 1)) return vectors;
+    console.log("[Data Processing Worker] Applying per-column weights...");
+    return vectors.map(row => row.map((value, j) => value * columnWeights[j]));
+};
+
+const validateFitInput = ({ vectors, isOHEColumn, columnWeights }: FitScalerPayload) => {
+    if (!vectors || vectors.length === 0) {
+        throw new Error("Received empty or invalid vectors for processing.");
+    }
+    if (!isOHEColumn || isOHEColumn.length !== vectors[0]?.length) {
+        throw new Error("Received invalid or mismatched OHE column definition.");
+    }
+    if (columnWeights && (columnWeights.length !== isOHEColumn.length || columnWeights.some(w => !Number.isFinite(w) || w < 0))) {
+        throw new Error("Column weights must be one non-negative number per column.");
+    }
+};
+
+// Fits everything the method needs. Means, standard deviations, minima and maxima are always
+// fitted, so the parameters describe the raw columns whatever the method.
+const fitScaler = (input: FitScalerPayload): ScalerParams => {
+    validateFitInput(input);
+    const { vectors, isOHEColumn, method, range, columnWeights } = input;
+    const { means, stdDevs } = getColumnStats(vectors);
+    const { mins, maxs } = getColumnMinMax(vectors);
+    const params: ScalerParams = { method, isOHEColumn, means, stdDevs, mins, maxs };
+
+    switch (method) {
+        case 'normalize':
+            if (!range) {
+                console.warn("[Data Processing Worker] Normalization range not provided, defaulting to [0, 1].");
+            }
+            params.range = range ?? [0, 1];
+            break;
+        case 'robust':
+            Object.assign(params, getColumnMedianIqr(vectors));
+            break;
+        case 'yeoJohnson': {
+            const yeoJohnsonParams = fitYeoJohnson(vectors, isOHEColumn);
+            console.log("[Data Processing Worker] Fitted Yeo-Johnson lambdas:", yeoJohnsonParams.lambdas);
+            Object.assign(params, yeoJohnsonParams);
+            break;
+        }
+        default: // 'standardize' and 'normalize' use the common stats; 'log1p', 'l2' and 'none' fit nothing
+            break;
+    }
+
+    // Feature weights are applied on top of the scaled values and kept with the scaler
+    if (columnWeights) params.columnWeights = columnWeights;
+    return params;
+};
+
+// Applies previously fitted scaler parameters to new vectors (no stats are recomputed)
+const applyScalerParams = (vectors: number[][], params: ScalerParams): number[][] => {
+    let scaled: number[][];
+    switch (params.method) {
+        case 'standardize':
+            scaled = standardize(vectors, params.isOHEColumn, { means: params.means, stdDevs: params.stdDevs });
+            break;
+        case 'normalize':
+            scaled = normalize(vectors, params.isOHEColumn, params.range ?? [0, 1], { mins: params.mins, maxs: params.maxs });
+            break;
+        case 'robust':
+            if (!params.medians || !params.iqrs) throw new Error("Robust scaler is missing its medians / IQRs.");
+            scaled = robustScale(vectors, params.isOHEColumn, { medians: params.medians, iqrs: params.iqrs });
+            break;
+        case 'log1p':
+            scaled = signedLog1p(vectors, params.isOHEColumn);
+            break;
+        case 'yeoJohnson':
+            if (!params.lambdas || !params.powerMeans || !params.powerStdDevs) throw new Error("Yeo-Johnson scaler is missing its fitted lambdas.");
+            scaled = applyYeoJohnson(vectors, params.isOHEColumn, { lambdas: params.lambdas, powerMeans: params.powerMeans, powerStdDevs: params.powerStdDevs });
+            break;
+        case 'l2':
+            scaled = l2NormalizeRows(vectors, params.isOHEColumn);
+            break;
+        case 'none':
+        default:
+            scaled = vectors;
+    }
+    return applyColumnWeights(scaled, params.columnWeights);
+};
+
 // --- Define specific message types ---
 
 type WorkerRecvMessageData =
     | { type: 'processData', payload: ProcessDataPayload }
+    | { type: 'fit', payload: FitScalerPayload }
+    | { type: 'transform', payload: TransformVectorsPayload }
+    | { type: 'fitTransform', payload: FitTransformPayload }
+    | { type: 'computeCorrelation', payload: ComputeCorrelationPayload }
     | { type: 'init', payload?: unknown }; // Init might not have a payload
 
 type WorkerSendMessageData =
-    | { type: 'processingComplete', payload: { processedVectors: number[][], songIds: string[] } }
+    | { type: 'processingComplete', payload: { processedVectors: number[][], songIds: string[], scalerParams: ScalerParams, featureSelection?: FeatureSelectionReport } }
     | { type: 'processingError', payload: { error: string } }
+    | { type: 'fitComplete', payload: { scalerParams: ScalerParams } }
+    | { type: 'fitError', payload: { error: string } }
+    | { type: 'transformComplete', payload: { transformedVectors: number[][], songIds: string[] } }
+    | { type: 'transformError', payload: { error: string } }
+    | { type: 'fitTransformComplete', payload: { transformedVectors: number[][], songIds: string[], scalerParams: ScalerParams } }
+    | { type: 'fitTransformError', payload: { error: string } }
+    | { type: 'correlationComplete', payload: { columnNames: string[], matrix: number[][] } }
+    | { type: 'correlationError', payload: { error: string } }
     | { type: 'dataProcessingWorkerReady', payload: boolean };
 
 // Helper to post messages with type safety (Optional but good practice)
@@ -155,15 +343,30 @@ self.onmessage = (event: MessageEvent<WorkerRecvMessageData>) => {
     switch (type) {
         case 'processData':
             try {
-                const { vectors, songIds, isOHEColumn, method, range } = payload as ProcessDataPayload;
-                let processedVectors: number[][] = [];
-
-                if (!vectors || vectors.length === 0) {
-                    throw new Error("Received empty or invalid vectors for processing.");
-                }
-
-                if (!isOHEColumn || isOHEColumn.length !== vectors[0]?.length) {
-                    throw new Error("Received invalid or mismatched OHE column definition.");
+                const { songIds, method, range, featureSelection, columnNames } = payload as ProcessDataPayload;
+                let { vectors, isOHEColumn, columnWeights } = payload as ProcessDataPayload;
+                validateFitInput({ vectors, isOHEColumn, method, columnWeights });
+
+                // --- Optional feature selection: later steps only see the kept columns ---
+                let selectionReport: FeatureSelectionReport | undefined;
+                if (featureSelection) {
+                    const selection = selectFeatures(vectors, isOHEColumn, featureSelection);
+                    const { keptColumns } = selection;
+                    selectionReport = {
+                        keptColumns,
+                        removedColumns: selection.removed.map(({ column, reason }) => ({
+                            name: columnNames?.[column] ?? `column ${column + 1}`,
+                            reason,
+                            laplacianScore: selection.laplacianScores[column]
+                        }))
+                    };
+                    console.log(`[Data Processing Worker] Feature selection kept ${keptColumns.length} of ${isOHEColumn.length} columns.`);
+                    if (keptColumns.length < isOHEColumn.length) {
+                        vectors = vectors.map(row => keptColumns.map(j => row[j]));
+                        isOHEColumn = keptColumns.map(j => isOHEColumn[j]);
+                        const weights = columnWeights;
+                        columnWeights = weights && keptColumns.map(j => weights[j]);
+                    }
                 }
 
                 // --- Log Matrix BEFORE Processing ---
@@ -172,22 +375,9 @@ self.onmessage = (event: MessageEvent<WorkerRecvMessageData>) => {
                 console.table(vectors);
                 // --- End Log ---
 
-                switch (method) {
-                    case 'standardize':
-                        processedVectors = standardize(vectors, isOHEColumn);
-                        break;
-                    case 'normalize':
-                        if (!range) {
-                            console.warn("[Data Processing Worker] Normalization range not provided, defaulting to [0, 1].");
-                        }
-                        processedVectors = normalize(vectors, isOHEColumn, range ?? [0, 1]);
-                        break;
-                    case 'none':
-                    default: // Pass through if 'none' or unknown
-                         console.log("[Data Processing Worker] Method is 'none', passing data through.");
-                        processedVectors = vectors;
-                        break;
-                }
+                // Fit the scaler once so its parameters can be returned alongside the processed matrix
+                const scalerParams = fitScaler({ vectors, isOHEColumn, method, range, columnWeights });
+                const processedVectors = applyScalerParams(vectors, scalerParams);
 
                 // --- Log Matrix AFTER Processing ---
                 console.log(`[Data Processing Worker] Matrix AFTER processing (Method: ${method}, ${processedVectors.length}x${processedVectors[0]?.length}):`);
@@ -198,7 +388,7 @@ self.onmessage = (event: MessageEvent<WorkerRecvMessageData>) => {
                 // Send processed data back to the main thread
                 postMsg({
                     type: 'processingComplete',
-                    payload: { processedVectors, songIds }
+                    payload: { processedVectors, songIds, scalerParams, ...(selectionReport && { featureSelection: selectionReport }) }
                 });
 
             } catch (error: unknown) {
@@ -216,6 +406,92 @@ self.onmessage = (event: MessageEvent<WorkerRecvMessageData>) => {
             }
             break;
 
+        // --- NEW: Fit-once / transform-many scaler API ---
+        case 'fit':
+            try {
+                const fitPayload = payload as FitScalerPayload;
+                const scalerParams = fitScaler(fitPayload);
+                console.log(`[Data Processing Worker] Fitted '${fitPayload.method}' scaler on ${fitPayload.vectors.length} vector(s).`);
+                postMsg({ type: 'fitComplete', payload: { scalerParams } });
+            } catch (error: unknown) {
+                console.error("[Data Processing Worker] Error fitting scaler:", error);
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                postMsg({ type: 'fitError', payload: { error: errorMessage } });
+            }
+            break;
+
+        case 'fitTransform':
+            try {
+                const fitPayload = payload as FitTransformPayload;
+                const scalerParams = fitScaler(fitPayload);
+                const transformedVectors = applyScalerParams(fitPayload.vectors, scalerParams);
+                postMsg({ type: 'fitTransformComplete', payload: { transformedVectors, songIds: fitPayload.songIds, scalerParams } });
+            } catch (error: unknown) {
+                console.error("[Data Processing Worker] Error in fitTransform:", error);
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                postMsg({ type: 'fitTransformError', payload: { error: errorMessage } });
+            }
+            break;
+        // --- END NEW ---
+
+        case 'transform':
+            try {
+                const { vectors, songIds, params } = payload as TransformVectorsPayload;
+
+                if (!vectors || vectors.length === 0) {
+                    throw new Error("Received empty or invalid vectors for transformation.");
+                }
+                if (!params || vectors.some(v => v.length !== params.isOHEColumn.length)) {
+                    throw new Error("Vector length does not match the fitted scaler parameters.");
+                }
+
+                console.log(`[Data Processing Worker] Applying fitted '${params.method}' scaler to ${vectors.length} vector(s).`);
+                const transformedVectors = applyScalerParams(vectors, params);
+
+                postMsg({
+                    type: 'transformComplete',
+                    payload: { transformedVectors, songIds }
+                });
+            } catch (error: unknown) {
+                console.error("[Data Processing Worker] Error transforming vectors:", error);
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                postMsg({
+                    type: 'transformError',
+                    payload: { error: errorMessage }
+                });
+            }
+            break;
+
+        case 'computeCorrelation':
+            try {
+                const { vectors, columnNames, isOHEColumn } = payload as ComputeCorrelationPayload;
+
+                if (!vectors || vectors.length < 2) {
+                    throw new Error("At least two songs are needed to compute feature correlations.");
+                }
+                if (columnNames.length !== vectors[0].length || isOHEColumn.length !== vectors[0].length) {
+                    throw new Error("Column names or OHE definition do not match the matrix width.");
+                }
+
+                // One-hot columns are left out: correlations between categories of one feature say nothing about redundancy
+                const columns = columnNames.map((_, j) => j).filter(j => !isOHEColumn[j]);
+                console.log(`[Data Processing Worker] Computing ${columns.length}x${columns.length} correlation matrix over ${vectors.length} rows.`);
+                const matrix = getCorrelationMatrix(vectors, columns);
+
+                postMsg({
+                    type: 'correlationComplete',
+                    payload: { columnNames: columns.map(j => columnNames[j]), matrix }
+                });
+            } catch (error: unknown) {
+                console.error("[Data Processing Worker] Error computing correlations:", error);
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                postMsg({
+                    type: 'correlationError',
+                    payload: { error: errorMessage }
+                });
+            }
+            break;
+
         case 'init': // Placeholder for potential future initialization
             console.log("[Data Processing Worker] Initialized.");
             // Optionally post back readiness
@@ -1,18 +1,192 @@
 import * as druid from "@saehrimnir/druidjs";
 
+type ReductionMethod = 'pca' | 'tsne' | 'umap' | 'mds' | 'isomap' | 'lle' | 'trimap' | 'ltsa';
+type DistanceMetric = 'euclidean' | 'manhattan' | 'cosine' | 'chebyshev';
+
 interface ReduceDimensionsPayload {
     featureVectors: number[][];
     songIds: string[];
-    method: 'pca' | 'tsne' | 'umap'; // Add other methods if needed
+    method: ReductionMethod;
     dimensions: number;
-    // Add method-specific parameters as needed, e.g.:
-    perplexity?: number; // for t-SNE
-    neighbors?: number; // for UMAP
+    // Method-specific parameters; anything missing falls back to the worker default below, or else the DruidJS default
+    perplexity?: number; // for t-SNE, below the number of points
+    learningRate?: number; // for t-SNE (DruidJS's `epsilon`)
+    iterations?: number; // for t-SNE
+    exaggeration?: number; // for t-SNE: early exaggeration factor of the first iterations
+    neighbors?: number; // for UMAP, Isomap, LLE and LTSA
     minDist?: number; // for UMAP
+    epochs?: number; // for UMAP
+    metric?: DistanceMetric; // for MDS and UMAP
+    whiten?: boolean; // for PCA: scale every component to unit variance
+    weightAdj?: number; // for TriMap: scaling of the triplet weights
+    tripletMultiplier?: number; // for TriMap: triplets sampled per point (TriMap's `c`)
+    columnNames?: string[]; // PCA only: names the columns in the loadings report
+}
+
+// PCA only: share of the total variance per component and the columns that load most on it
+interface PcaReport {
+    explainedVarianceRatio: number[]; // One per computed component (at least the target dimensions)
+    cumulativeVariance: number[];
+    topLoadings: { column: string, loading: number }[][]; // Per component, largest |loading| first
+}
+
+// Everything needed to place new (already scaled) vectors into an existing embedding.
+// PCA is linear, so its projection matrix is enough. t-SNE/UMAP have no out-of-sample
+// transform, so new points are placed at the distance-weighted mean of their nearest
+// training neighbours' embedded coordinates.
+interface ReducerModel {
+    method: ReduceDimensionsPayload['method'];
+    dimensions: number;
+    components?: number[][]; // PCA only: [sourceDims x dimensions]
+    trainingVectors: number[][];
+    trainingEmbedding: number[][];
+    neighbors: number;
+    pcaReport?: PcaReport;
+}
+
+interface ProjectVectorsPayload {
+    vectors: number[][];
+    songIds: string[];
+    model: ReducerModel;
 }
 
 type WorkerMessageData =
-    | { type: 'reduceDimensions', payload: ReduceDimensionsPayload };
+    | { type: 'reduceDimensions', payload: ReduceDimensionsPayload }
+    | { type: 'projectVectors', payload: ProjectVectorsPayload };
+
+// Number of training neighbours used when placing a new point in a non-linear embedding
+const OUT_OF_SAMPLE_NEIGHBORS = 5;
+
+const DISTANCE_METRICS: Record<DistanceMetric, (a: number[], b: number[]) => number> = {
+    euclidean: druid.euclidean,
+    manhattan: druid.manhattan,
+    cosine: druid.cosine,
+    chebyshev: druid.chebyshev
+};
+
+// Throws when an optional parameter is given but out of range
+const validateParam = (name: string, value: number | undefined, isValid: (value: number) => boolean, expectation: string) => {
+    if (value !== undefined && !(Number.isFinite(value) && isValid(value))) {
+        throw new Error(`${name} must be ${expectation} (got ${value}).`);
+    }
+};
+
+// Neighbourhood-graph methods need at least dimensions + 1 neighbours to span the target space
+const validateNeighbors = (neighbors: number | undefined, dimensions: number, numPoints: number) => {
+    if (neighbors === undefined) return;
+    if (!Number.isInteger(neighbors) || neighbors <= dimensions || neighbors >= numPoints) {
+        throw new Error(`Neighbours must be an integer between ${dimensions + 1} and ${numPoints - 1} (got ${neighbors}).`);
+    }
+};
+
+// Fallbacks for parameters the form leaves empty. DruidJS's own t-SNE perplexity (50) exceeds
+// the number of songs in small libraries, so the default is also capped at a third of them.
+const DEFAULT_TSNE_PERPLEXITY = 30;
+const DEFAULT_UMAP_NEIGHBORS = 5;
+const DEFAULT_UMAP_MIN_DIST = 0.1;
+
+// DruidJS's t-SNE multiplies P by a fixed 4 while its iteration counter is below 100. Another
+// exaggeration is obtained by rescaling P for those iterations and restoring it afterwards.
+const DRUID_TSNE_EXAGGERATION = 4;
+const DRUID_TSNE_ITERATIONS = 500;
+const TSNE_EXAGGERATION_ITERATIONS = 99;
+
+const runTsne = (tsne: druid.TSNE, iterations: number, exaggeration: number): druid.Matrix => {
+    tsne.check_init();
+    const P = tsne._P;
+    tsne._P = P.mult(exaggeration / DRUID_TSNE_EXAGGERATION);
+    for (let i = 0; i < iterations; i++) {
+        if (i === TSNE_EXAGGERATION_ITERATIONS) tsne._P = P;
+        tsne.next();
+    }
+    tsne._P = P;
+    return tsne.projection;
+};
+
+// Standard deviation of each embedding axis, used to whiten PCA scores (constant axes keep scale 1)
+const axisStdDevs = (embedding: number[][]): number[] =>
+    (embedding[0] ?? []).map((_, d) => {
+        const mean = embedding.reduce((acc, row) => acc + row[d], 0) / embedding.length;
+        const std = Math.sqrt(embedding.reduce((acc, row) => acc + (row[d] - mean) ** 2, 0) / embedding.length);
+        return std > 0 ? std : 1;
+    });
+
+// PCA computes this many components for the scree plot, even when fewer are kept for the embedding
+const MAX_SCREE_COMPONENTS = 10;
+const TOP_LOADINGS = 5;
+
+// Variance of the centered data along each component, relative to the total variance of all columns
+const getPcaReport = (vectors: number[][], components: number[][], columnNames?: string[]): PcaReport => {
+    const numRows = vectors.length;
+    const numCols = vectors[0].length;
+    const numComponents = components[0]?.length ?? 0;
+    const means = Array.from({ length: numCols }, (_, j) => vectors.reduce((acc, row) => acc + row[j], 0) / numRows);
+    const centered = vectors.map(row => row.map((value, j) => value - means[j]));
+    const totalVariance = centered.reduce((acc, row) => acc + row.reduce((sum, v) => sum + v * v, 0), 0) / numRows;
+
+    const explainedVarianceRatio = Array.from({ length: numComponents }, (_, d) => {
+        const variance = centered.reduce((acc, row) => {
+            const score = row.reduce((sum, v, j) => sum + v * components[j][d], 0);
+            return acc + score * score;
+        }, 0) / numRows;
+        return totalVariance > 0 ? variance / totalVariance : 0;
+    });
+    let cumulative = 0;
+    const cumulativeVariance = explainedVarianceRatio.map(ratio => (cumulative += ratio));
+    const topLoadings = Array.from({ length: numComponents }, (_, d) =>
+        components
+            .map((row, j) => ({ column: columnNames?.[j] ?? `column ${j + 1}`, loading: row[d] }))
+            .sort((a, b) => Math.abs(b.loading) - Math.abs(a.loading))
+            .slice(0, TOP_LOADINGS)
+    );
+    return { explainedVarianceRatio, cumulativeVariance, topLoadings };
+};
+
+const projectWithModel = (vectors: number[][], model: ReducerModel): number[][] => {
+    if (model.components) {
+        const components = model.components;
+        return vectors.map(vector => {
+            const projected: number[] = Array(model.dimensions).fill(0);
+            for (let j = 0; j < vector.length; j++) {
+                for (let d = 0; d < model.dimensions; d++) {
+                    projected[d] += vector[j] * components[j][d];
+                }
+            }
+            return projected;
+        });
+    }
+
+    const { trainingVectors, trainingEmbedding } = model;
+    const k = Math.min(model.neighbors, trainingVectors.length);
+    return vectors.map(vector => {
+        const nearest = trainingVectors
+            .map((trainingVector, index) => {
+                let sumSq = 0;
+                for (let j = 0; j < vector.length; j++) {
+                    sumSq += Math.pow(vector[j] - trainingVector[j], 2);
+                }
+                return { index, distance: Math.sqrt(sumSq) };
+            })
+            .sort((a, b) => a.distance - b.distance)
+            .slice(0, k);
+
+        // An exact match simply takes the embedded position of that training point
+        if (nearest[0].distance === 0) {
+            return [...trainingEmbedding[nearest[0].index]];
+        }
+
+        const projected: number[] = Array(model.dimensions).fill(0);
+        let weightSum = 0;
+        nearest.forEach(({ index, distance }) => {
+            const weight = 1 / distance;
+            weightSum += weight;
+            for (let d = 0; d < model.dimensions; d++) {
+                projected[d] += weight * trainingEmbedding[index][d];
+            }
+        });
+        return projected.map(value => value / weightSum);
+    });
+};
 
 // Main message handler
 self.onmessage = async (event: MessageEvent<WorkerMessageData>) => {
@@ -31,8 +205,17 @@ self.onmessage = async (event: MessageEvent<WorkerMessageData>) => {
             dimensions, 
             // Destructure specific params
             perplexity, 
+            learningRate,
+            iterations,
+            exaggeration,
             neighbors,
-            minDist 
+            minDist,
+            epochs,
+            metric,
+            whiten,
+            weightAdj,
+            tripletMultiplier,
+            columnNames
         } = payload;
 
         console.log('[Druid Worker] Destructured payload:', { method, dimensions, perplexity, neighbors, minDist, vectorCount: featureVectors?.length, idCount: songIds?.length });
@@ -63,30 +246,67 @@ self.onmessage = async (event: MessageEvent<WorkerMessageData>) => {
             const matrix = druid.Matrix.from(featureVectors);
 
             let drInstance: druid.DR; // Use the base DR type or a union type if stricter typing is needed
+            // PCA fits extra components for the scree plot; only the first `dimensions` form the embedding
+            const fittedDimensions = method === 'pca'
+                ? Math.max(dimensions, Math.min(MAX_SCREE_COMPONENTS, featureVectors[0].length, featureVectors.length - 1))
+                : dimensions;
 
             // Instantiate the correct DR method
             switch (method) {
                 case 'pca':
                     // PCA constructor likely expects options object: (X: Matrix | number[][], parameters?: { d?: number })
-                    drInstance = new druid.PCA(matrix, { d: dimensions }); // Pass dimensions inside an object
+                    drInstance = new druid.PCA(matrix, { d: fittedDimensions }); // Pass dimensions inside an object
                     break;
                 case 'tsne':
-                    // TSNE constructor: (X: Matrix | number[][], parameters?: { perplexity?: number, d?: number, seed?: number, metric?: string | function, epsilon?: number, exageration?: number })
+                    // TSNE constructor: (X: Matrix | number[][], parameters?: { perplexity?: number, d?: number, seed?: number, metric?: string | function, epsilon?: number })
+                    const tsnePerplexity = perplexity ?? Math.min(DEFAULT_TSNE_PERPLEXITY, Math.max(1, Math.floor((featureVectors.length - 1) / 3)));
+                    validateParam('Perplexity', tsnePerplexity, v => v > 0 && v < featureVectors.length, `above 0 and below the number of songs (${featureVectors.length})`);
+                    validateParam('Learning rate', learningRate, v => v > 0, 'positive');
+                    validateParam('Iterations', iterations, v => Number.isInteger(v) && v >= 1, 'a positive integer');
+                    validateParam('Exaggeration', exaggeration, v => v >= 1, 'at least 1');
                     drInstance = new druid.TSNE(matrix, { 
                         d: dimensions, 
-                        perplexity: perplexity ?? 30, // Default perplexity if not provided
-                        // Add other t-SNE params as needed
+                        perplexity: tsnePerplexity,
+                        ...(learningRate !== undefined && { epsilon: learningRate })
                     });
                     break;
                 case 'umap':
-                     // UMAP constructor: (X: Matrix | number[][], parameters?: { nn?: number, d?: number, seed?: number, metric?: string | function, iterations?: number, lr?: number, minDist?: number })
+                     // UMAP constructor: (X: Matrix | number[][], parameters?: { n_neighbors?: number, d?: number, seed?: number, metric?: function, min_dist?: number })
+                     const umapNeighbors = neighbors ?? DEFAULT_UMAP_NEIGHBORS;
+                     const umapMinDist = minDist ?? DEFAULT_UMAP_MIN_DIST;
+                     validateNeighbors(umapNeighbors, dimensions, featureVectors.length);
+                     validateParam('Minimum distance', umapMinDist, v => v >= 0 && v <= 1, 'between 0 and 1');
+                     validateParam('Epochs', epochs, v => Number.isInteger(v) && v >= 1, 'a positive integer');
+                     if (metric && !DISTANCE_METRICS[metric]) throw new Error(`Unknown distance metric: ${metric}`);
                      drInstance = new druid.UMAP(matrix, { 
                         d: dimensions, 
-                        n_neighbors: neighbors ?? 5, // Default neighbors if not provided
-                        min_dist: minDist ?? 0.1, // Default min_dist if not provided
-                        // Add other UMAP params as needed
+                        n_neighbors: umapNeighbors,
+                        min_dist: umapMinDist,
+                        ...(metric && { metric: DISTANCE_METRICS[metric] })
                     });
                     break;
+                // --- NEW: Further DruidJS methods (no out-of-sample transform; new songs use the neighbour placement) ---
+                case 'mds':
+                    if (metric && !DISTANCE_METRICS[metric]) throw new Error(`Unknown distance metric: ${metric}`);
+                    drInstance = new druid.MDS(matrix, { d: dimensions, metric: DISTANCE_METRICS[metric ?? 'euclidean'] });
+                    break;
+                case 'isomap':
+                case 'lle':
+                case 'ltsa': {
+                    validateNeighbors(neighbors, dimensions, featureVectors.length);
+                    const DRClass = method === 'isomap' ? druid.ISOMAP : method === 'lle' ? druid.LLE : druid.LTSA;
+                    // Without a value DruidJS uses N/10 neighbours (at least 2)
+                    drInstance = new DRClass(matrix, { d: dimensions, ...(neighbors !== undefined && { neighbors }) });
+                    break;
+                }
+                case 'trimap':
+                    drInstance = new druid.TriMap(matrix, {
+                        d: dimensions,
+                        weight_adj: weightAdj ?? 500,
+                        c: tripletMultiplier ?? 5
+                    });
+                    break;
+                // --- END NEW ---
                 default:
                     throw new Error(`Unsupported dimensionality reduction method: ${method}`);
             }
@@ -95,19 +315,54 @@ self.onmessage = async (event: MessageEvent<WorkerMessageData>) => {
 
             // Perform the transformation
             // `.transform()` returns a Matrix
-            const reducedMatrix = drInstance.transform();
+            // t-SNE runs stepwise for the exaggeration; UMAP takes its epochs as the iteration count
+            const reducedMatrix = method === 'tsne' && (iterations !== undefined || exaggeration !== undefined)
+                ? runTsne(drInstance as druid.TSNE, iterations ?? DRUID_TSNE_ITERATIONS, exaggeration ?? DRUID_TSNE_EXAGGERATION)
+                : method === 'umap' && epochs !== undefined
+                    ? (drInstance as druid.UMAP).transform(epochs)
+                    : drInstance.transform();
 
             console.log(`[Druid Worker] Transform complete. Result dimensions: ${reducedMatrix.rows}x${reducedMatrix.cols}`);
 
-            // Convert result back to standard 2D array
-            const reducedData = reducedMatrix.to2dArray;
+            // Convert result back to standard 2D array (dropping the scree-only PCA components)
+            let reducedData = reducedMatrix.to2dArray.map(row => Array.from(row.slice(0, dimensions)));
+            // Degenerate neighbourhoods (e.g. duplicate songs) can make TriMap or LLE diverge
+            if (reducedData.some(row => row.some(v => !Number.isFinite(v)))) {
+                throw new Error(`${method} produced non-finite coordinates. Try other parameters or another method.`);
+            }
+
+            // PCA: components of all fitted dimensions for the report, of the kept ones for projection
+            const allComponents = method === 'pca' ? (drInstance as druid.PCA).principal_components().to2dArray : undefined;
+            const pcaReport = allComponents && getPcaReport(featureVectors, allComponents, columnNames);
+            if (pcaReport) {
+                console.log('[Druid Worker] PCA explained variance ratio:', pcaReport.explainedVarianceRatio);
+            }
+            // Whitening divides the kept components by the spread of their scores, so new songs are scaled alike
+            let components = allComponents?.map(row => Array.from(row.slice(0, dimensions)));
+            if (method === 'pca' && whiten && components) {
+                const stdDevs = axisStdDevs(reducedData);
+                reducedData = reducedData.map(row => row.map((v, d) => v / stdDevs[d]));
+                components = components.map(row => row.map((v, d) => v / stdDevs[d]));
+            }
+
+            // Keep what is needed to project new songs later without re-running the reduction
+            const reducerModel: ReducerModel = {
+                method,
+                dimensions,
+                components,
+                trainingVectors: featureVectors,
+                trainingEmbedding: reducedData,
+                neighbors: OUT_OF_SAMPLE_NEIGHBORS,
+                ...(pcaReport && { pcaReport })
+            };
 
             // Send results back to main thread
             self.postMessage({ 
                 type: 'reductionComplete', 
                 payload: { 
                     reducedData: reducedData, 
-                    songIds: songIds // Pass song IDs back for mapping
+                    songIds: songIds, // Pass song IDs back for mapping
+                    reducerModel
                 } 
             });
             console.log(`[Druid Worker] Finished processing reduction.`);
@@ -118,6 +373,27 @@ self.onmessage = async (event: MessageEvent<WorkerMessageData>) => {
             self.postMessage({ type: 'reductionError', payload: { error: errorMessage } });
         }
     }
+
+    if (type === 'projectVectors') {
+        const { vectors, songIds, model } = payload as ProjectVectorsPayload;
+        try {
+            if (!model || !vectors || vectors.length === 0) {
+                throw new Error('Received empty vectors or no reducer model to project with.');
+            }
+            const sourceDims = model.components ? model.components.length : model.trainingVectors[0]?.length;
+            if (vectors.some(v => v.length !== sourceDims)) {
+                throw new Error(`Vector length does not match the reducer model (${sourceDims} dimensions).`);
+            }
+
+            console.log(`[Druid Worker] Projecting ${vectors.length} vector(s) with fitted ${model.method} model...`);
+            const projectedData = projectWithModel(vectors, model);
+            self.postMessage({ type: 'projectionComplete', payload: { projectedData, songIds } });
+        } catch (error) {
+            const errorMessage = (error instanceof Error) ? error.message : String(error);
+            console.error('[Druid Worker] Error projecting vectors:', error);
+            self.postMessage({ type: 'projectionError', payload: { error: errorMessage } });
+        }
+    }
 };
 
 // Generic error handler for the worker itself
@@ -2,6 +2,12 @@
 // Remove tf-kmeans import, rely only on tfjs core
 // import * as KMeans from 'tf-kmeans'; 
 import * as tf from '@tensorflow/tfjs';
+import { InitStrategy, chooseInitialCentroidIndices, createRandom } from './clustering/centroid-initialization';
+import { LloydRunResult, runLloyd, updateCentroids as clusterMeans } from './clustering/kmeans-restarts';
+import { ClusterMetrics, computeClusterMetrics } from './clustering/cluster-metrics';
+import { fuzzyMemberships } from './clustering/soft-membership';
+import { KSweepResult, sweepK } from './clustering/k-sweep';
+import { ConstraintType, ConstraintViolation, PreparedConstraints, assignWithConstraints, prepareConstraints } from './clustering/constrained-assignment';
 
 console.log('[KMeans Worker] Loading TensorFlow.js backend...');
 // Optional: Set backend explicitly if needed
@@ -12,17 +18,48 @@ tf.ready().then(() => {
 
 // --- Worker State ---
 let datasetTensor: tf.Tensor2D | null = null;
+let datasetRows: number[][] = []; // Plain copy of the dataset for the quality metrics
 let currentCentroidsTensor: tf.Tensor2D | null = null;
 let k: number = 0;
 let songIds: string[] = [];
 let currentIteration: number = 0;
 let isTrainingInitialized: boolean = false;
+let trainingSession: number = 0; // Bumped on reset/init so a running convergence loop can tell it is stale
+// Assignments of the latest step, whose means are the current centroids. After initialization the
+// centroids are the seeds, so there is nothing to compare against until the first step.
+let lastStepAssignments: { session: number; assignments: number[] } | null = null;
+let convergenceRunSession: number | null = null; // Session of the running 'runToConvergence' loop, if any
+let constraints: PreparedConstraints | null = null; // Must-link / cannot-link pairs of the current run (COP-k-means)
 
 // --- Interfaces for Worker Communication ---
 interface InitializeTrainingPayload {
     reducedData: Array<{[key: string]: number}> | number[][]; // Expect potentially object array
     songIds: string[];
     k: number;
+    initStrategy?: InitStrategy; // Defaults to 'random'
+    seed?: number;               // Makes the initialization reproducible when provided
+    seedSongIds?: string[];      // Songs used as initial centroids for 'manual'
+    nInit?: number;              // Number of initializations to try; the lowest-inertia one is kept
+    constraints?: SongConstraint[]; // Must-link / cannot-link pairs; switches to the COP-k-means assignment step
+}
+
+// Pair constraint between two songs of the dataset
+interface SongConstraint {
+    type: ConstraintType;
+    a: string;
+    b: string;
+}
+
+// A constraint the assignment step could not honour
+interface ConstraintViolationReport extends SongConstraint {
+    reason: ConstraintViolation['reason'];
+}
+
+// Summary of the n_init trial runs, reported so the main thread can judge stability
+interface RestartSummary {
+    inertias: number[];   // Final within-cluster sum of squares of each run
+    iterations: number[]; // Iterations each run needed to converge
+    bestRun: number;      // Index of the run whose converged state is used as the starting point
 }
 
 interface StepCompletePayload {
@@ -30,6 +67,9 @@ interface StepCompletePayload {
     centroids: number[][];
     assignments: number[];
     songIds: string[];
+    metrics: ClusterMetrics; // Quality of `assignments` (per-point silhouettes aligned with songIds)
+    memberships: number[][]; // Soft membership [song][cluster] w.r.t. the centroids used for `assignments`
+    constraintViolations: ConstraintViolationReport[]; // Empty when unconstrained or all constraints hold
 }
 
 interface InitializationCompletePayload {
@@ -37,26 +77,81 @@ interface InitializationCompletePayload {
     initialCentroids: number[][];
     initialAssignments: number[];
     songIds: string[];
+    metrics: ClusterMetrics;
+    memberships: number[][];
+    constraintViolations: ConstraintViolationReport[];
+    restarts?: RestartSummary; // Only present when nInit > 1
+}
+
+interface RunToConvergencePayload {
+    tolerance: number;     // Stop once no centroid moves further than this (Euclidean)
+    maxIterations: number; // Upper bound on the number of steps taken by this run
+}
+
+type ConvergenceReason = 'assignmentsStable' | 'toleranceReached' | 'maxIterations';
+
+interface ConvergenceCompletePayload {
+    iteration: number;      // Total iteration count after the run
+    stepsTaken: number;     // Steps taken by this run only
+    reason: ConvergenceReason;
+    centroidShift: number;  // Largest centroid movement in the final step
+}
+
+// Centroids are sent along with the points so a trained model can classify
+// new songs even after the worker state has been reset.
+interface ClassifyPointsPayload {
+    points: number[][];
+    songIds: string[];
+    centroids: number[][];
+}
+
+// Sweeps k over [kMin, kMax] without touching the training state
+interface SweepKPayload {
+    reducedData: number[][];
+    kMin: number;
+    kMax: number;
+    initStrategy?: Exclude<InitStrategy, 'manual'>; // Defaults to 'kmeans++'
+    seed?: number;
+    nInit?: number; // Runs per k; the lowest-inertia one is scored
+}
+
+interface PointClassification {
+    songId: string;
+    cluster: number;
+    distance: number;
+    runnerUpCluster: number | null;
+    runnerUpDistance: number | null;
 }
 
 interface KMeansErrorPayload {
     error: string;
-    whileDoing?: 'init' | 'step' | 'reset' | 'conversion';
+    whileDoing?: 'init' | 'step' | 'converge' | 'reset' | 'conversion' | 'classify' | 'sweep';
+    busy?: boolean; // Request refused while a convergence run is active; the training state is untouched
 }
 
 // Define message types for receiving
 type WorkerRecvMessageData =
     | { type: 'initializeTraining', payload: InitializeTrainingPayload }
     | { type: 'runNextStep' }
-    | { type: 'resetTraining' };
+    | { type: 'runToConvergence', payload: RunToConvergencePayload }
+    | { type: 'resetTraining' }
+    | { type: 'classifyPoints', payload: ClassifyPointsPayload }
+    | { type: 'sweepK', payload: SweepKPayload };
 
 // Define message types for sending
 type WorkerSendMessageData =
     | { type: 'initializationComplete', payload: InitializationCompletePayload }
     | { type: 'stepComplete', payload: StepCompletePayload }
+    | { type: 'convergenceComplete', payload: ConvergenceCompletePayload }
     | { type: 'resetComplete' }
+    | { type: 'classificationComplete', payload: { classifications: PointClassification[] } }
+    | { type: 'sweepComplete', payload: KSweepResult }
     | { type: 'kmeansError', payload: KMeansErrorPayload };
 
+// Limits for the n_init trial runs and the k sweep (each run is taken to convergence)
+const RESTART_MAX_ITERATIONS = 300;
+const RESTART_TOLERANCE = 1e-6;
+
 // Helper to post messages with type safety
 const postMsg = (message: WorkerSendMessageData) => {
     self.postMessage(message);
@@ -81,6 +176,18 @@ const calculateAssignments = (data: tf.Tensor2D, centroids: tf.Tensor2D): tf.Ten
     });
 };
 
+// --- NEW: Assignment step honouring must-link / cannot-link constraints when any are set ---
+const assignPoints = async (data: tf.Tensor2D, rows: number[][], centroids: tf.Tensor2D): Promise<{ assignmentsTensor: tf.Tensor1D; violations: ConstraintViolationReport[] }> => {
+    if (!constraints) {
+        return { assignmentsTensor: calculateAssignments(data, centroids), violations: [] };
+    }
+    const { assignments, violations } = assignWithConstraints(rows, await centroids.array() as number[][], constraints);
+    return {
+        assignmentsTensor: tf.tensor1d(assignments, 'int32'),
+        violations: violations.map(({ type, a, b, reason }) => ({ type, a: songIds[a], b: songIds[b], reason }))
+    };
+};
+
 // Helper function to update centroids
 // Mark as async because booleanMaskAsync is used
 // Remove tf.tidy and manage memory manually
@@ -132,6 +239,68 @@ const updateCentroids = async (data: tf.Tensor2D, assignments: tf.Tensor1D, k: n
     return newCentroidsTensor as tf.Tensor2D;
 };
 
+// Helper function to calculate Euclidean distances from every point to every centroid
+const calculateDistances = (points: tf.Tensor2D, centroids: tf.Tensor2D): tf.Tensor2D => {
+    return tf.tidy(() => {
+        const diff = tf.sub(points.expandDims(1), centroids.expandDims(0)); // Shape: [numPoints, k, numDims]
+        return tf.sqrt(tf.sum(tf.square(diff), 2)) as tf.Tensor2D;       // Shape: [numPoints, k]
+    });
+};
+
+// Runs one assignment + update step on the worker state and returns the results.
+// Shared by 'runNextStep' and 'runToConvergence'.
+const performStep = async (): Promise<{ centroids: number[][]; assignments: number[]; centroidShift: number; metrics: ClusterMetrics; memberships: number[][]; constraintViolations: ConstraintViolationReport[] }> => {
+    if (!datasetTensor || !currentCentroidsTensor) {
+        throw new Error('Training not initialized or tensors missing.');
+    }
+
+    currentIteration++;
+    console.log(`[KMeans Worker] Running step ${currentIteration}...`);
+
+    let assignmentsTensor: tf.Tensor1D | null = null;
+    let nextCentroidsTensor: tf.Tensor2D | null = null;
+    let shiftTensor: tf.Tensor | null = null;
+
+    try {
+        // --- Assignment Step ---
+        console.log('[KMeans Worker] Calculating assignments...');
+        const assignmentStep = await assignPoints(datasetTensor, datasetRows, currentCentroidsTensor);
+        assignmentsTensor = assignmentStep.assignmentsTensor;
+
+        // --- Update Step ---
+        console.log('[KMeans Worker] Updating centroids...');
+        // Use await here as updateCentroids is now async
+        nextCentroidsTensor = await updateCentroids(datasetTensor, assignmentsTensor, k, currentCentroidsTensor);
+
+        // Largest distance any centroid moved in this step
+        const oldCentroids = currentCentroidsTensor;
+        const assignmentCentroids = await oldCentroids.array() as number[][]; // Centroids the points were assigned to
+        const newCentroids = nextCentroidsTensor;
+        shiftTensor = tf.tidy(() => tf.max(tf.sqrt(tf.sum(tf.square(tf.sub(newCentroids, oldCentroids)), 1))));
+
+        // --- Update Worker State ---
+        tf.dispose(currentCentroidsTensor); // Dispose old centroids *before* reassignment
+        currentCentroidsTensor = tf.keep(nextCentroidsTensor);
+
+        // --- Prepare Data for Sending Back ---
+        const centroids = await nextCentroidsTensor.array() as number[][];
+        const assignments = await assignmentsTensor.array() as number[];
+        lastStepAssignments = { session: trainingSession, assignments };
+        const centroidShift = (await shiftTensor.data())[0];
+        // The updated centroids are the means of `assignments`, as the metrics expect
+        const metrics = computeClusterMetrics(datasetRows, centroids, assignments);
+        const memberships = fuzzyMemberships(datasetRows, assignmentCentroids);
+        return { centroids, assignments, centroidShift, metrics, memberships, constraintViolations: assignmentStep.violations };
+    } catch (stepError: unknown) {
+        // Dispose the new centroids if they never became the worker state
+        if (nextCentroidsTensor && !nextCentroidsTensor.isDisposed && nextCentroidsTensor !== currentCentroidsTensor) tf.dispose(nextCentroidsTensor);
+        throw stepError;
+    } finally {
+        if (assignmentsTensor && !assignmentsTensor.isDisposed) tf.dispose(assignmentsTensor);
+        if (shiftTensor && !shiftTensor.isDisposed) tf.dispose(shiftTensor);
+    }
+};
+
 // --- Main Message Handler ---
 self.onmessage = async (event: MessageEvent<WorkerRecvMessageData>) => {
     console.log('[KMeans Worker] Received message:', event.data.type);
@@ -145,11 +314,14 @@ self.onmessage = async (event: MessageEvent<WorkerRecvMessageData>) => {
         if (currentCentroidsTensor && !currentCentroidsTensor.isDisposed) tf.dispose(currentCentroidsTensor);
         // Reset state variables
         datasetTensor = null;
+        datasetRows = [];
         currentCentroidsTensor = null;
         k = 0;
         songIds = [];
         currentIteration = 0;
         isTrainingInitialized = false;
+        constraints = null;
+        trainingSession++;
         postMsg({ type: 'resetComplete' });
         console.log('[KMeans Worker] Reset complete.');
         return;
@@ -164,10 +336,13 @@ self.onmessage = async (event: MessageEvent<WorkerRecvMessageData>) => {
         if (datasetTensor && !datasetTensor.isDisposed) tf.dispose(datasetTensor);
         if (currentCentroidsTensor && !currentCentroidsTensor.isDisposed) tf.dispose(currentCentroidsTensor);
         datasetTensor = null;
+        datasetRows = [];
         currentCentroidsTensor = null;
         // k, songIds will be overwritten by payload
         currentIteration = 0;
         isTrainingInitialized = false; // Explicitly set to false before starting
+        constraints = null;
+        trainingSession++;
         // MODIFICATION END
 
         /* // REMOVED Original Check:
@@ -240,27 +415,89 @@ self.onmessage = async (event: MessageEvent<WorkerRecvMessageData>) => {
             }
             localDatasetTensor = tf.tensor2d(flatData, shape);
 
-            // --- Initialize Centroids (Random Selection from Data) ---
-            console.log('[KMeans Worker] Initializing centroids randomly from dataset...');
-            // Shuffle indices and pick the first k
-            const indices = tf.util.createShuffledIndices(numRows);
-            // Explicitly convert Uint32Array to number[] before creating tensor
-            const initialCentroidIndicesArray = Array.from(indices.slice(0, k));
-            const initialCentroidIndices = tf.tensor1d(initialCentroidIndicesArray, 'int32'); 
-            localInitialCentroidsTensor = localDatasetTensor.gather(initialCentroidIndices);
-            initialCentroidIndices.dispose(); // Dispose indices tensor
+            // --- Initialize Centroids (Selection from Data) ---
+            const initStrategy: InitStrategy = payload.initStrategy ?? 'random';
+            console.log(`[KMeans Worker] Initializing centroids with '${initStrategy}' strategy${payload.seed !== undefined ? ` (seed ${payload.seed})` : ''}...`);
+            const seedIndices = (payload.seedSongIds ?? []).map(id => {
+                const index = songIds.indexOf(id);
+                if (index === -1) {
+                    throw new Error(`Seed song ${id} is not part of the clustered data.`);
+                }
+                return index;
+            });
+            const rng = createRandom(payload.seed);
+            const initialCentroidIndicesArray = chooseInitialCentroidIndices(formattedReducedData, k, initStrategy, rng, seedIndices);
+
+            // --- NEW: Must-link / cannot-link constraints (song ids -> point indices) ---
+            // Prepared before n_init, so the restarts are scored on the constrained problem
+            if (payload.constraints && payload.constraints.length > 0) {
+                const indexOf = new Map(songIds.map((id, index) => [id, index]));
+                const pairs = payload.constraints
+                    .filter(c => indexOf.has(c.a) && indexOf.has(c.b))
+                    .map(c => ({ type: c.type, a: indexOf.get(c.a)!, b: indexOf.get(c.b)! }));
+                if (pairs.length < payload.constraints.length) {
+                    console.warn(`[KMeans Worker] Ignoring ${payload.constraints.length - pairs.length} constraint(s) on songs outside the clustered data.`);
+                }
+                constraints = pairs.length > 0 ? prepareConstraints(formattedReducedData.length, pairs) : null;
+                console.log(`[KMeans Worker] Using ${pairs.length} constraint(s) (COP-k-means assignment).`);
+            }
+
+            // --- Multiple Restarts (n_init): keep the initialization with the lowest inertia ---
+            const nInit = payload.nInit ?? 1;
+            if (!Number.isInteger(nInit) || nInit < 1) {
+                throw new Error(`Invalid nInit value: ${nInit}. Must be an integer >= 1.`);
+            }
+            let restarts: RestartSummary | undefined;
+            let bestRunResult: LloydRunResult | undefined;
+            if (nInit > 1) {
+                console.log(`[KMeans Worker] Evaluating ${nInit} initializations...`);
+                const candidateIndices = [initialCentroidIndicesArray];
+                for (let run = 1; run < nInit; run++) {
+                    // The same rng keeps the whole sequence of restarts reproducible for a given seed
+                    candidateIndices.push(chooseInitialCentroidIndices(formattedReducedData, k, initStrategy, rng, seedIndices));
+                }
+                const preparedConstraints = constraints;
+                const assign = preparedConstraints
+                    ? (rows: number[][], centroids: number[][]) => assignWithConstraints(rows, centroids, preparedConstraints).assignments
+                    : undefined;
+                const runs = candidateIndices.map(indices =>
+                    runLloyd(formattedReducedData, indices.map(i => formattedReducedData[i]), RESTART_MAX_ITERATIONS, RESTART_TOLERANCE, assign)
+                );
+                const inertias = runs.map(run => run.inertia);
+                const bestRun = inertias.indexOf(Math.min(...inertias));
+                restarts = { inertias, iterations: runs.map(run => run.iterations), bestRun };
+                bestRunResult = runs[bestRun];
+                console.log(`[KMeans Worker] Best initialization: run ${bestRun + 1} (inertia ${inertias[bestRun]}). Starting from its converged centroids.`);
+            }
+            if (bestRunResult) {
+                // The best run already converged, so stepping continues from its result rather than replaying it
+                localInitialCentroidsTensor = tf.tensor2d(bestRunResult.centroids);
+            } else {
+                const initialCentroidIndices = tf.tensor1d(initialCentroidIndicesArray, 'int32'); 
+                localInitialCentroidsTensor = localDatasetTensor.gather(initialCentroidIndices);
+                initialCentroidIndices.dispose(); // Dispose indices tensor
+            }
 
             // --- Calculate Initial Assignments ---
             console.log('[KMeans Worker] Calculating initial assignments...');
-            localInitialAssignmentsTensor = calculateAssignments(localDatasetTensor, localInitialCentroidsTensor);
+            const initialAssignmentStep = await assignPoints(localDatasetTensor, formattedReducedData, localInitialCentroidsTensor);
+            localInitialAssignmentsTensor = initialAssignmentStep.assignmentsTensor;
 
             // --- Store Tensors in Worker State ---
             datasetTensor = tf.keep(localDatasetTensor); // Keep tensors needed across steps
+            datasetRows = formattedReducedData;
             currentCentroidsTensor = tf.keep(localInitialCentroidsTensor);
             
             // --- Prepare Data for Sending Back ---
             const initialCentroidsArray = await localInitialCentroidsTensor.array() as number[][];
             const initialAssignmentsArray = await localInitialAssignmentsTensor.array() as number[];
+            if (bestRunResult) {
+                // These centroids are cluster means, so a convergence run can compare its first step against them
+                lastStepAssignments = { session: trainingSession, assignments: initialAssignmentsArray };
+            }
+            // Seed centroids are data points, not cluster means, so score the initial partition against its means
+            const initialMetrics = computeClusterMetrics(formattedReducedData, clusterMeans(formattedReducedData, initialAssignmentsArray, initialCentroidsArray), initialAssignmentsArray);
+            const initialMemberships = fuzzyMemberships(formattedReducedData, initialCentroidsArray);
 
             // --- Mark as Initialized and Send ---            
             isTrainingInitialized = true;
@@ -271,7 +508,11 @@ self.onmessage = async (event: MessageEvent<WorkerRecvMessageData>) => {
                     iteration: currentIteration,
                     initialCentroids: initialCentroidsArray,
                     initialAssignments: initialAssignmentsArray,
-                    songIds: songIds
+                    songIds: songIds,
+                    metrics: initialMetrics,
+                    memberships: initialMemberships,
+                    constraintViolations: initialAssignmentStep.violations,
+                    ...(restarts && { restarts })
                 }
             });
 
@@ -291,9 +532,11 @@ self.onmessage = async (event: MessageEvent<WorkerRecvMessageData>) => {
 
             // Reset state variables just in case some were partially set
             datasetTensor = null;
+            datasetRows = [];
             currentCentroidsTensor = null;
             currentIteration = 0;
             isTrainingInitialized = false;
+            constraints = null;
             postMsg({ type: 'kmeansError', payload: { error: errorMessage, whileDoing: 'init' } });
         } finally {
              // Dispose ONLY local tensors that weren't kept (if they exist and aren't disposed)
@@ -311,30 +554,13 @@ self.onmessage = async (event: MessageEvent<WorkerRecvMessageData>) => {
             postMsg({ type: 'kmeansError', payload: { error: 'Training not initialized or tensors missing. Initialize first.', whileDoing: 'step' } });
             return;
         }
-
-        currentIteration++;
-        console.log(`[KMeans Worker] Running step ${currentIteration}...`);
-
-        let assignmentsTensor: tf.Tensor1D | null = null;
-        let nextCentroidsTensor: tf.Tensor2D | null = null;
+        if (convergenceRunSession === trainingSession) {
+            postMsg({ type: 'kmeansError', payload: { error: 'A convergence run is in progress. Wait for it to finish or reset first.', whileDoing: 'step', busy: true } });
+            return;
+        }
 
         try {
-            // --- Assignment Step ---
-            console.log('[KMeans Worker] Calculating assignments...');
-            assignmentsTensor = calculateAssignments(datasetTensor, currentCentroidsTensor);
-
-            // --- Update Step ---
-            console.log('[KMeans Worker] Updating centroids...');
-            // Use await here as updateCentroids is now async
-            nextCentroidsTensor = await updateCentroids(datasetTensor, assignmentsTensor, k, currentCentroidsTensor);
-
-             // --- Update Worker State ---
-            if (currentCentroidsTensor && !currentCentroidsTensor.isDisposed) tf.dispose(currentCentroidsTensor); // Dispose old centroids *before* reassignment
-            currentCentroidsTensor = tf.keep(nextCentroidsTensor!); // Keep the new ones (assert non-null after successful update)
-
-            // --- Prepare Data for Sending Back ---
-            const centroidsArray = await nextCentroidsTensor.array() as number[][];
-            const assignmentsArray = await assignmentsTensor.array() as number[];
+            const { centroids, assignments, metrics, memberships, constraintViolations } = await performStep();
 
             // --- Send Step Results ---            
             console.log(`[KMeans Worker] Step ${currentIteration} complete.`);
@@ -342,17 +568,17 @@ self.onmessage = async (event: MessageEvent<WorkerRecvMessageData>) => {
                 type: 'stepComplete',
                 payload: {
                     iteration: currentIteration,
-                    centroids: centroidsArray,
-                    assignments: assignmentsArray,
-                    songIds: songIds
+                    centroids: centroids,
+                    assignments: assignments,
+                    songIds: songIds,
+                    metrics: metrics,
+                    memberships: memberships,
+                    constraintViolations: constraintViolations
                 }
             });
 
         } catch (stepError: unknown) {
             console.error('[KMeans Worker] Error during K-Means step:', stepError);
-            // Dispose any newly created tensors if they exist and aren't disposed
-            if (nextCentroidsTensor && !nextCentroidsTensor.isDisposed) tf.dispose(nextCentroidsTensor);
-            if (assignmentsTensor && !assignmentsTensor.isDisposed) tf.dispose(assignmentsTensor);
 
             let errorMessage = 'Unknown error during step';
             if (stepError instanceof Error) {
@@ -367,6 +593,150 @@ self.onmessage = async (event: MessageEvent<WorkerRecvMessageData>) => {
         return;
     }
 
+    // --- Run Steps Until Convergence ---
+    if (type === 'runToConvergence') {
+        if (!isTrainingInitialized || !datasetTensor || !currentCentroidsTensor) {
+            postMsg({ type: 'kmeansError', payload: { error: 'Training not initialized or tensors missing. Initialize first.', whileDoing: 'converge' } });
+            return;
+        }
+        if (convergenceRunSession === trainingSession) {
+            postMsg({ type: 'kmeansError', payload: { error: 'A convergence run is already in progress.', whileDoing: 'converge', busy: true } });
+            return;
+        }
+
+        const { tolerance, maxIterations } = event.data.payload;
+        if (!(tolerance >= 0) || !Number.isInteger(maxIterations) || maxIterations <= 0) {
+            postMsg({ type: 'kmeansError', payload: { error: `Invalid convergence settings (tolerance=${tolerance}, maxIterations=${maxIterations}).`, whileDoing: 'converge' } });
+            return;
+        }
+        console.log(`[KMeans Worker] Running to convergence (tolerance=${tolerance}, maxIterations=${maxIterations})...`);
+
+        const session = trainingSession;
+        // Steps taken before this run count, so an already stable clustering stops after one step
+        let previousAssignments: number[] | null = lastStepAssignments?.session === session ? lastStepAssignments.assignments : null;
+        let reason: ConvergenceReason = 'maxIterations';
+        let stepsTaken = 0;
+        let lastShift = Infinity;
+
+        convergenceRunSession = session;
+        try {
+            while (stepsTaken < maxIterations) {
+                const { centroids, assignments, centroidShift, metrics, memberships, constraintViolations } = await performStep();
+                stepsTaken++;
+                lastShift = centroidShift;
+
+                // Stream progress so the main thread can animate every step
+                postMsg({
+                    type: 'stepComplete',
+                    payload: { iteration: currentIteration, centroids, assignments, songIds, metrics, memberships, constraintViolations }
+                });
+
+                if (previousAssignments && assignments.every((cluster, i) => cluster === previousAssignments![i])) {
+                    reason = 'assignmentsStable';
+                    break;
+                }
+                if (centroidShift <= tolerance) {
+                    reason = 'toleranceReached';
+                    break;
+                }
+                previousAssignments = assignments;
+
+                // Yield so a reset or re-initialization sent mid-run is handled before the next step
+                await new Promise(resolve => setTimeout(resolve, 0));
+                if (session !== trainingSession || !isTrainingInitialized) {
+                    console.log('[KMeans Worker] Training was reset during convergence run. Stopping.');
+                    return;
+                }
+            }
+
+            console.log(`[KMeans Worker] Convergence run finished after ${stepsTaken} step(s): ${reason}.`);
+            postMsg({
+                type: 'convergenceComplete',
+                payload: { iteration: currentIteration, stepsTaken, reason, centroidShift: lastShift }
+            });
+
+        } catch (convergeError: unknown) {
+            console.error('[KMeans Worker] Error during convergence run:', convergeError);
+            const errorMessage = convergeError instanceof Error ? convergeError.message : String(convergeError);
+            postMsg({ type: 'kmeansError', payload: { error: errorMessage, whileDoing: 'converge' } });
+        } finally {
+            if (convergenceRunSession === session) convergenceRunSession = null;
+        }
+        return;
+    }
+
+    // --- Classify New Points Against Trained Centroids ---
+    if (type === 'classifyPoints') {
+        const { points, songIds: pointIds, centroids } = event.data.payload;
+        let pointsTensor: tf.Tensor2D | null = null;
+        let centroidsTensor: tf.Tensor2D | null = null;
+        let distancesTensor: tf.Tensor2D | null = null;
+
+        try {
+            if (!points || points.length === 0 || !centroids || centroids.length === 0) {
+                throw new Error('Points and trained centroids are required for classification.');
+            }
+            const numDims = centroids[0].length;
+            if (points.some(p => p.length !== numDims)) {
+                throw new Error(`Point dimensionality does not match centroids (${numDims}).`);
+            }
+
+            pointsTensor = tf.tensor2d(points);
+            centroidsTensor = tf.tensor2d(centroids);
+            distancesTensor = calculateDistances(pointsTensor, centroidsTensor);
+            const distances = await distancesTensor.array();
+
+            const classifications: PointClassification[] = distances.map((row, index) => {
+                const ranked = row
+                    .map((distance, cluster) => ({ cluster, distance }))
+                    .sort((a, b) => a.distance - b.distance);
+                return {
+                    songId: pointIds[index],
+                    cluster: ranked[0].cluster,
+                    distance: ranked[0].distance,
+                    runnerUpCluster: ranked[1]?.cluster ?? null,
+                    runnerUpDistance: ranked[1]?.distance ?? null
+                };
+            });
+
+            console.log(`[KMeans Worker] Classified ${classifications.length} point(s).`);
+            postMsg({ type: 'classificationComplete', payload: { classifications } });
+        } catch (classifyError: unknown) {
+            console.error('[KMeans Worker] Error during classification:', classifyError);
+            const errorMessage = classifyError instanceof Error ? classifyError.message : String(classifyError);
+            postMsg({ type: 'kmeansError', payload: { error: errorMessage, whileDoing: 'classify' } });
+        } finally {
+            tf.dispose([pointsTensor, centroidsTensor, distancesTensor].filter((t): t is tf.Tensor2D => t !== null));
+        }
+        return;
+    }
+
+    // --- Sweep k to Suggest the Number of Clusters ---
+    if (type === 'sweepK') {
+        const { reducedData, kMin, kMax, initStrategy = 'kmeans++', seed, nInit = 1 } = event.data.payload;
+        try {
+            if (!reducedData || reducedData.length === 0) {
+                throw new Error('Reduced data is required for the k sweep.');
+            }
+            if (!Number.isInteger(nInit) || nInit < 1) {
+                throw new Error(`Invalid nInit value: ${nInit}. Must be an integer >= 1.`);
+            }
+            console.log(`[KMeans Worker] Sweeping k=${kMin}..${kMax} over ${reducedData.length} points (${initStrategy}, n_init ${nInit})...`);
+            const result = sweepK(
+                reducedData,
+                { kMin, kMax, initStrategy, nInit, maxIterations: RESTART_MAX_ITERATIONS, tolerance: RESTART_TOLERANCE },
+                createRandom(seed)
+            );
+            console.log(`[KMeans Worker] Sweep complete. Best silhouette at k=${result.recommendedK}, elbow at k=${result.elbowK}.`);
+            postMsg({ type: 'sweepComplete', payload: result });
+        } catch (sweepError: unknown) {
+            console.error('[KMeans Worker] Error during k sweep:', sweepError);
+            const errorMessage = sweepError instanceof Error ? sweepError.message : String(sweepError);
+            postMsg({ type: 'kmeansError', payload: { error: errorMessage, whileDoing: 'sweep' } });
+        }
+        return;
+    }
+
     // --- Handle Unknown Message Type --- 
     console.warn('[KMeans Worker] Received unknown message type:', type);
 };
@@ -381,8 +751,10 @@ self.onerror = (error) => {
 
     // Reset state variables
     datasetTensor = null;
+    datasetRows = [];
     currentCentroidsTensor = null;
     isTrainingInitialized = false;
+    constraints = null;
     postMsg({ type: 'kmeansError', payload: { error: `Unhandled worker error: ${errorMessage}` } });
 };
 
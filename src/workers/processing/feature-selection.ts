@@ -0,0 +1,132 @@
+// Unsupervised feature selection on the raw matrix, run before scaling. Columns are removed in
+// three optional passes: a variance threshold, near-constant columns, and a Laplacian score
+// ranking capped at the top N. One-hot encoded columns are never removed.
+
+export interface FeatureSelectionOptions {
+  varianceThreshold?: number;  // Remove columns whose variance (after rescaling to [0, 1]) is at or below this
+  nearConstantShare?: number;  // Remove columns where one value covers at least this share of rows (e.g. 0.95)
+  laplacianTopN?: number;      // Keep only the N numerical columns with the best (lowest) Laplacian score
+  laplacianNeighbors?: number; // k of the k-nearest-neighbour graph behind the Laplacian score
+}
+
+export type FeatureRemovalReason = 'variance' | 'nearConstant' | 'laplacian';
+
+export interface FeatureSelectionResult {
+  keptColumns: number[];
+  removed: { column: number; reason: FeatureRemovalReason }[];
+  laplacianScores: (number | null)[]; // Per column; null where no score was computed
+}
+
+export const DEFAULT_LAPLACIAN_NEIGHBORS = 5;
+
+// Variance of a column after min-max rescaling, so one threshold fits features of any unit
+const rescaledVariance = (values: number[]): number => {
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min;
+  if (range === 0) return 0;
+  const scaled = values.map(v => (v - min) / range);
+  const mean = scaled.reduce((acc, v) => acc + v, 0) / scaled.length;
+  return scaled.reduce((acc, v) => acc + (v - mean) ** 2, 0) / scaled.length;
+};
+
+// Share of rows holding the most frequent value (values compared at 12 significant digits)
+const mostFrequentShare = (values: number[]): number => {
+  const counts = new Map<string, number>();
+  values.forEach(v => {
+    const key = v.toPrecision(12);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+  return Math.max(...counts.values()) / values.length;
+};
+
+// Laplacian score (He, Cai & Niyogi, 2005) of each column: how well the column preserves the
+// neighbourhood structure of a heat-kernel k-NN graph built on the standardized columns.
+// Lower is better. Constant columns score Infinity.
+export const laplacianScores = (columns: number[][], neighbors: number): number[] => {
+  const numRows = columns[0]?.length ?? 0;
+  if (numRows < 2) return columns.map(() => Infinity);
+  const k = Math.min(Math.max(1, Math.round(neighbors)), numRows - 1);
+
+  // Standardize so every column counts equally in the graph distances
+  const standardized = columns.map(values => {
+    const mean = values.reduce((acc, v) => acc + v, 0) / numRows;
+    const std = Math.sqrt(values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / numRows);
+    return values.map(v => (std === 0 ? 0 : (v - mean) / std));
+  });
+  const squaredDistance = (i: number, j: number): number =>
+    standardized.reduce((acc, values) => acc + (values[i] - values[j]) ** 2, 0);
+
+  // Symmetric k-NN edges (an edge exists if either point is among the other's k nearest)
+  const edges = new Map<string, { i: number; j: number; d2: number }>();
+  for (let i = 0; i < numRows; i++) {
+    const nearest = Array.from({ length: numRows }, (_, j) => j)
+      .filter(j => j !== i)
+      .map(j => ({ j, d2: squaredDistance(i, j) }))
+      .sort((a, b) => a.d2 - b.d2)
+      .slice(0, k);
+    nearest.forEach(({ j, d2 }) => {
+      const key = i < j ? `${i}-${j}` : `${j}-${i}`;
+      edges.set(key, { i: Math.min(i, j), j: Math.max(i, j), d2 });
+    });
+  }
+  // Heat kernel width: mean squared edge length
+  const edgeList = Array.from(edges.values());
+  const t = edgeList.reduce((acc, e) => acc + e.d2, 0) / edgeList.length || 1;
+  const weightedEdges = edgeList.map(e => ({ ...e, w: Math.exp(-e.d2 / t) }));
+  const degree = Array(numRows).fill(0);
+  weightedEdges.forEach(({ i, j, w }) => { degree[i] += w; degree[j] += w; });
+  const totalDegree = degree.reduce((acc, d) => acc + d, 0);
+
+  return columns.map(values => {
+    // Remove the degree-weighted mean, then compare local smoothness with the weighted variance
+    const weightedMean = values.reduce((acc, v, i) => acc + v * degree[i], 0) / totalDegree;
+    const variance = values.reduce((acc, v, i) => acc + degree[i] * (v - weightedMean) ** 2, 0);
+    if (!(variance > 0)) return Infinity;
+    const smoothness = weightedEdges.reduce((acc, { i, j, w }) => acc + w * (values[i] - values[j]) ** 2, 0);
+    return smoothness / variance;
+  });
+};
+
+export const selectFeatures = (
+  vectors: number[][],
+  isOHEColumn: boolean[],
+  options: FeatureSelectionOptions
+): FeatureSelectionResult => {
+  const numCols = isOHEColumn.length;
+  const column = (j: number) => vectors.map(row => row[j]);
+  const removed: FeatureSelectionResult['removed'] = [];
+  const laplacian: (number | null)[] = Array(numCols).fill(null);
+  let candidates = Array.from({ length: numCols }, (_, j) => j).filter(j => !isOHEColumn[j]);
+
+  const { varianceThreshold, nearConstantShare, laplacianTopN } = options;
+  if (varianceThreshold !== undefined) {
+    candidates = candidates.filter(j => {
+      const keep = rescaledVariance(column(j)) > varianceThreshold;
+      if (!keep) removed.push({ column: j, reason: 'variance' });
+      return keep;
+    });
+  }
+  if (nearConstantShare !== undefined) {
+    candidates = candidates.filter(j => {
+      const keep = mostFrequentShare(column(j)) < nearConstantShare;
+      if (!keep) removed.push({ column: j, reason: 'nearConstant' });
+      return keep;
+    });
+  }
+  if (laplacianTopN !== undefined && candidates.length > 0) {
+    const scores = laplacianScores(candidates.map(column), options.laplacianNeighbors ?? DEFAULT_LAPLACIAN_NEIGHBORS);
+    candidates.forEach((j, c) => { laplacian[j] = Number.isFinite(scores[c]) ? scores[c] : null; });
+    const ranked = candidates
+      .map((j, c) => ({ j, score: scores[c] }))
+      .sort((a, b) => a.score - b.score || a.j - b.j);
+    const keptSet = new Set(ranked.slice(0, Math.max(1, laplacianTopN)).map(({ j }) => j));
+    candidates = candidates.filter(j => {
+      if (!keptSet.has(j)) removed.push({ column: j, reason: 'laplacian' });
+      return keptSet.has(j);
+    });
+  }
+
+  const keptNumerical = new Set(candidates);
+  const keptColumns = Array.from({ length: numCols }, (_, j) => j).filter(j => isOHEColumn[j] || keptNumerical.has(j));
+  return { keptColumns, removed: removed.sort((a, b) => a.column - b.column), laplacianScores: laplacian };
+};
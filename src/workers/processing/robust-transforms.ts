@@ -0,0 +1,134 @@
+// Outlier-resistant scalings and power transforms for the data processing worker. Column-wise
+// transforms leave one-hot encoded columns untouched, like standardize/normalize; the L2 row
+// normalization also computes each row's norm over the non-OHE columns only.
+
+// Linear-interpolation quantile of an ascending array (q in [0, 1])
+const quantile = (sorted: number[], q: number): number => {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+const columnOf = (vectors: number[][], j: number): number[] => vectors.map(row => row[j]);
+
+const mapColumns = (vectors: number[][], isOHEColumn: boolean[], fn: (value: number, j: number) => number): number[][] =>
+  vectors.map(row => row.map((value, j) => (isOHEColumn[j] ? value : fn(value, j))));
+
+// --- Robust scaling: (x - median) / IQR ---
+
+export const getColumnMedianIqr = (vectors: number[][]): { medians: number[], iqrs: number[] } => {
+  const numCols = vectors[0]?.length ?? 0;
+  const medians: number[] = [];
+  const iqrs: number[] = [];
+  for (let j = 0; j < numCols; j++) {
+    const sorted = columnOf(vectors, j).sort((a, b) => a - b);
+    medians.push(quantile(sorted, 0.5));
+    iqrs.push(quantile(sorted, 0.75) - quantile(sorted, 0.25));
+  }
+  return { medians, iqrs };
+};
+
+// A zero IQR (over half the songs share one value) only centres the column instead of zeroing it,
+// since the remaining songs may still differ
+export const robustScale = (vectors: number[][], isOHEColumn: boolean[], stats: { medians: number[], iqrs: number[] }): number[][] =>
+  mapColumns(vectors, isOHEColumn, (value, j) => (value - stats.medians[j]) / (stats.iqrs[j] === 0 ? 1 : stats.iqrs[j]));
+
+// --- log1p: sign(x) * log(1 + |x|), defined for negative values too (e.g. loudness in dB) ---
+
+export const signedLog1p = (vectors: number[][], isOHEColumn: boolean[]): number[][] =>
+  mapColumns(vectors, isOHEColumn, value => Math.sign(value) * Math.log1p(Math.abs(value)));
+
+// --- Yeo-Johnson power transform, followed by standardization ---
+
+const LAMBDA_RANGE: [number, number] = [-5, 5];
+const LAMBDA_GRID_STEP = 0.25;
+const LAMBDA_TOLERANCE = 1e-4;
+
+export const yeoJohnson = (x: number, lambda: number): number => {
+  if (x >= 0) {
+    return Math.abs(lambda) < 1e-12 ? Math.log1p(x) : (Math.pow(x + 1, lambda) - 1) / lambda;
+  }
+  return Math.abs(lambda - 2) < 1e-12 ? -Math.log1p(-x) : -(Math.pow(1 - x, 2 - lambda) - 1) / (2 - lambda);
+};
+
+// Profile log-likelihood of lambda under a normal model of the transformed values
+const yeoJohnsonLogLikelihood = (values: number[], lambda: number): number => {
+  const n = values.length;
+  const transformed = values.map(v => yeoJohnson(v, lambda));
+  const mean = transformed.reduce((acc, v) => acc + v, 0) / n;
+  const variance = transformed.reduce((acc, v) => acc + (v - mean) ** 2, 0) / n;
+  if (!(variance > 0) || !Number.isFinite(variance)) return -Infinity;
+  const jacobian = values.reduce((acc, v) => acc + Math.sign(v) * Math.log1p(Math.abs(v)), 0);
+  return -0.5 * n * Math.log(variance) + (lambda - 1) * jacobian;
+};
+
+// Maximum-likelihood lambda: coarse grid over LAMBDA_RANGE, then golden-section search around the best point
+export const fitYeoJohnsonLambda = (values: number[]): number => {
+  let best = 1;
+  let bestLikelihood = -Infinity;
+  for (let lambda = LAMBDA_RANGE[0]; lambda <= LAMBDA_RANGE[1] + 1e-9; lambda += LAMBDA_GRID_STEP) {
+    const likelihood = yeoJohnsonLogLikelihood(values, lambda);
+    if (likelihood > bestLikelihood) {
+      bestLikelihood = likelihood;
+      best = lambda;
+    }
+  }
+  if (!Number.isFinite(bestLikelihood)) return 1; // Constant column: identity transform
+
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let low = Math.max(LAMBDA_RANGE[0], best - LAMBDA_GRID_STEP);
+  let high = Math.min(LAMBDA_RANGE[1], best + LAMBDA_GRID_STEP);
+  while (high - low > LAMBDA_TOLERANCE) {
+    const a = high - ratio * (high - low);
+    const b = low + ratio * (high - low);
+    if (yeoJohnsonLogLikelihood(values, a) > yeoJohnsonLogLikelihood(values, b)) {
+      high = b;
+    } else {
+      low = a;
+    }
+  }
+  return (low + high) / 2;
+};
+
+export interface YeoJohnsonParams {
+  lambdas: number[];
+  powerMeans: number[];   // Mean of each transformed column
+  powerStdDevs: number[]; // Standard deviation of each transformed column
+}
+
+export const fitYeoJohnson = (vectors: number[][], isOHEColumn: boolean[]): YeoJohnsonParams => {
+  const numCols = vectors[0]?.length ?? 0;
+  const params: YeoJohnsonParams = { lambdas: [], powerMeans: [], powerStdDevs: [] };
+  for (let j = 0; j < numCols; j++) {
+    if (isOHEColumn[j]) {
+      params.lambdas.push(1);
+      params.powerMeans.push(0);
+      params.powerStdDevs.push(1);
+      continue;
+    }
+    const values = columnOf(vectors, j);
+    const lambda = fitYeoJohnsonLambda(values);
+    const transformed = values.map(v => yeoJohnson(v, lambda));
+    const mean = transformed.reduce((acc, v) => acc + v, 0) / transformed.length;
+    params.lambdas.push(lambda);
+    params.powerMeans.push(mean);
+    params.powerStdDevs.push(Math.sqrt(transformed.reduce((acc, v) => acc + (v - mean) ** 2, 0) / transformed.length));
+  }
+  return params;
+};
+
+export const applyYeoJohnson = (vectors: number[][], isOHEColumn: boolean[], params: YeoJohnsonParams): number[][] =>
+  mapColumns(vectors, isOHEColumn, (value, j) => {
+    const std = params.powerStdDevs[j];
+    return std === 0 ? 0 : (yeoJohnson(value, params.lambdas[j]) - params.powerMeans[j]) / std;
+  });
+
+// --- L2 row normalization: every song vector gets unit length (no fitted state) ---
+
+export const l2NormalizeRows = (vectors: number[][], isOHEColumn: boolean[]): number[][] =>
+  vectors.map(row => {
+    const norm = Math.sqrt(row.reduce((acc, value, j) => (isOHEColumn[j] ? acc : acc + value * value), 0));
+    return norm === 0 ? [...row] : row.map((value, j) => (isOHEColumn[j] ? value : value / norm));
+  });